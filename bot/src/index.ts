@@ -24,6 +24,9 @@ interface SetRoleResponse {
 interface VerifyCodeResponse {
   success?: boolean;
   message?: string;
+  reward?: {
+    label: string;
+  };
   user?: {
     firstName: string | null;
   };
@@ -78,6 +81,15 @@ interface OrderStatusUpdateResponse {
     userTelegramId?: string;
   };
   error?: string;
+  message?: string;
+}
+
+interface OrderingLocation {
+  id: string;
+  name: string;
+  slotCapacity: number;
+  orderingPausedUntil: string | null;
+  paused: boolean;
 }
 
 // Environment variables
@@ -103,6 +115,9 @@ const LOCATIONS = [
   { name: 'ЖК "Krona Park 2" (незабаром відкриття)', lat: 50.51726299985014, lng: 30.779625658162075 },
 ];
 
+// Rush pause lengths offered in the bot (minutes)
+const ORDERING_PAUSE_OPTIONS = [15, 30, 60];
+
 // Notification radius in meters (500m)
 const NOTIFICATION_RADIUS = 500;
 
@@ -192,7 +207,7 @@ async function setUserRole(requesterId: number, targetTelegramId: number, newRol
 /**
  * Verify redemption code via API
  */
-async function verifyCode(adminTelegramId: number, code: string): Promise<{ success: boolean; message: string; user?: { firstName: string | null } }> {
+async function verifyCode(adminTelegramId: number, code: string): Promise<{ success: boolean; message: string; reward?: string; user?: { firstName: string | null } }> {
   try {
     const response = await fetch(`${API_URL}/api/admin/verify-code`, {
       method: 'POST',
@@ -201,7 +216,7 @@ async function verifyCode(adminTelegramId: number, code: string): Promise<{ succ
     });
     const data = (await response.json()) as VerifyCodeResponse;
     if (response.ok) {
-      return { success: true, message: data.message || 'Код підтверджено', user: data.user };
+      return { success: true, message: data.message || 'Код підтверджено', reward: data.reward?.label, user: data.user };
     }
     return { success: false, message: data.message || 'Помилка перевірки коду' };
   } catch (error) {
@@ -312,6 +327,65 @@ async function addPoints(requesterTelegramId: number, points: number, targetTele
   return null;
 }
 
+/**
+ * Get online ordering state per location via API (Admin/Owner)
+ */
+async function getOrderingLocations(requesterId: number): Promise<OrderingLocation[] | null> {
+  try {
+    const response = await fetch(`${API_URL}/api/admin/locations/ordering?requesterId=${requesterId}`);
+    if (response.ok) {
+      const data = (await response.json()) as { locations: OrderingLocation[] };
+      return data.locations;
+    }
+  } catch (error) {
+    console.error('[API] Failed to get ordering state:', error);
+  }
+  return null;
+}
+
+/**
+ * Pause (pauseMinutes > 0) or resume (0) online ordering via API (Admin/Owner)
+ */
+async function setOrderingPause(requesterId: number, locationId: string, pauseMinutes: number): Promise<OrderingLocation | null> {
+  try {
+    const response = await fetch(`${API_URL}/api/admin/locations/${locationId}/ordering`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ requesterId: String(requesterId), pauseMinutes }),
+    });
+    if (response.ok) {
+      const data = (await response.json()) as { location: OrderingLocation };
+      return data.location;
+    }
+  } catch (error) {
+    console.error('[API] Failed to set ordering pause:', error);
+  }
+  return null;
+}
+
+/** Pause options per location, or a resume button while paused */
+function buildOrderingPauseMessage(locations: OrderingLocation[]): { text: string; keyboard: InlineKeyboard } {
+  const keyboard = new InlineKeyboard();
+  const lines = locations.map((location) => {
+    if (location.paused && location.orderingPausedUntil) {
+      const until = new Date(location.orderingPausedUntil).toLocaleTimeString('uk-UA', {
+        timeZone: 'Europe/Kyiv',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+      keyboard.text(`▶️ Відновити: ${location.name}`, `ordering_pause:${location.id}:0`).row();
+      return `⏸ *${location.name}* — на паузі до ${until}`;
+    }
+    for (const minutes of ORDERING_PAUSE_OPTIONS) {
+      keyboard.text(`⏸ ${location.name} · ${minutes} хв`, `ordering_pause:${location.id}:${minutes}`);
+    }
+    keyboard.row();
+    return `✅ *${location.name}* — приймає замовлення (${location.slotCapacity} напоїв / 5 хв)`;
+  });
+
+  return { text: `☕ *Онлайн-замовлення*\n\n${lines.join('\n')}`, keyboard };
+}
+
 /**
  * Send broadcast message to all users
  */
@@ -424,6 +498,7 @@ function getUserKeyboard(): Keyboard {
 function getAdminKeyboard(): Keyboard {
   return new Keyboard()
     .text('🔍 Перевірити код')
+    .text('⏸ Пауза замовлень')
     .resized();
 }
 
@@ -441,6 +516,8 @@ function getOwnerKeyboard(): Keyboard {
     .row()
     .text('👥 Керування адмінами')
     .text('🎵 Додати трек')
+    .row()
+    .text('⏸ Пауза замовлень')
     .resized();
 }
 
@@ -717,6 +794,24 @@ bot.on('message:text', async (ctx) => {
     return;
   }
 
+  // Handle "Pause orders" button — stop online orders during a rush
+  if (text === '⏸ Пауза замовлень' && (isAdmin || isOwner)) {
+    const locations = await getOrderingLocations(userId);
+
+    if (!locations) {
+      await ctx.reply('❌ Не вдалося отримати стан замовлень. Спробуй пізніше.');
+      return;
+    }
+    if (locations.length === 0) {
+      await ctx.reply('Немає локацій з онлайн-замовленням.');
+      return;
+    }
+
+    const { text: pauseText, keyboard } = buildOrderingPauseMessage(locations);
+    await ctx.reply(pauseText, { parse_mode: 'Markdown', reply_markup: keyboard });
+    return;
+  }
+
   // Handle "Stats" button (Owner only)
   if (text === '📊 Статистика за 24г' && isOwner) {
     waitingForCode.delete(userId);
@@ -928,7 +1023,7 @@ bot.on('message:text', async (ctx) => {
     const keyboard = isOwner ? getOwnerKeyboard() : getAdminKeyboard();
 
     if (result.success) {
-      await ctx.reply('✅ Купон дійсний! Видайте напій', { reply_markup: keyboard });
+      await ctx.reply(`✅ Купон дійсний! Видайте: ${result.reward ?? 'напій'}`, { reply_markup: keyboard });
     } else {
       await ctx.reply('❌ Код недійсний/прострочений', { reply_markup: keyboard });
     }
@@ -1164,7 +1259,7 @@ bot.on('callback_query:data', async (ctx) => {
       const result = await updateOrderStatus(orderId, 'PREPARING');
 
       if (!result.ok) {
-        await ctx.answerCallbackQuery({ text: `❌ ${result.data.error || 'Помилка'}` });
+        await ctx.answerCallbackQuery({ text: `❌ ${result.data.message || result.data.error || 'Помилка'}` });
         return;
       }
 
@@ -1191,6 +1286,27 @@ bot.on('callback_query:data', async (ctx) => {
     return;
   }
 
+  if (data.startsWith('ordering_pause:')) {
+    const [, locationId, minutes] = data.split(':');
+
+    const updated = await setOrderingPause(userId, locationId, Number(minutes));
+    if (!updated) {
+      await ctx.answerCallbackQuery({ text: '❌ Не вдалося змінити стан' });
+      return;
+    }
+
+    await ctx.answerCallbackQuery({
+      text: updated.paused ? `⏸ ${updated.name}: пауза ${minutes} хв` : `▶️ ${updated.name}: замовлення відновлено`,
+    });
+
+    const locations = await getOrderingLocations(userId);
+    if (locations) {
+      const { text, keyboard } = buildOrderingPauseMessage(locations);
+      await ctx.editMessageText(text, { parse_mode: 'Markdown', reply_markup: keyboard }).catch(() => {});
+    }
+    return;
+  }
+
   if (data.startsWith('order_ready:')) {
     const orderId = data.replace('order_ready:', '');
 
@@ -1198,7 +1314,7 @@ bot.on('callback_query:data', async (ctx) => {
       const result = await updateOrderStatus(orderId, 'READY');
 
       if (!result.ok) {
-        await ctx.answerCallbackQuery({ text: `❌ ${result.data.error || 'Помилка'}` });
+        await ctx.answerCallbackQuery({ text: `❌ ${result.data.message || result.data.error || 'Помилка'}` });
         return;
       }
 
@@ -1209,11 +1325,6 @@ bot.on('callback_query:data', async (ctx) => {
       await ctx.editMessageText(`${originalText}
 
 ☕ Готово до видачі — ${adminName}`);
-
-      const userTelegramId = result.data.order?.userTelegramId;
-      if (userTelegramId) {
-        await bot.api.sendMessage(Number(userTelegramId), 'Твоя кава чекає на тебе! ☕️');
-      }
     } catch (error) {
       console.error('[Order Ready] Error:', error);
       await ctx.answerCallbackQuery({ text: '❌ Помилка з\'єднання' });
@@ -1,14 +1,25 @@
 import { useEffect, useState, useMemo, useCallback } from 'react';
 import axios from 'axios';
 import WebApp from '@twa-dev/sdk';
-import { WheelOfFortune } from './components/WheelOfFortune';
+import { WheelOfFortune, SpinOutcome } from './components/WheelOfFortune';
 import { Menu, CartItem } from './components/Menu';
 import { Radio } from './components/Radio';
 import { TicTacToe } from './components/TicTacToe';
+import { Tournaments } from './components/Tournaments';
 import { Checkout } from './components/Checkout';
 
 type TabType = 'locations' | 'menu' | 'shop' | 'games' | 'bonuses';
 
+interface RewardOption {
+  id: string;
+  name: string;
+  description: string | null;
+  pointsCost: number;
+  codeValidMinutes: number;
+  available: boolean;
+  reason: string | null;
+}
+
 const resolveApiUrl = () => {
   const params = new URLSearchParams(window.location.search);
   const paramUrl = params.get('api');
@@ -72,12 +83,14 @@ function App() {
   const [isGameFullscreen, setIsGameFullscreen] = useState(false);
   const [referralCopied, setReferralCopied] = useState(false);
   const [showCheckout, setShowCheckout] = useState(false);
+  const [rewards, setRewards] = useState<RewardOption[]>([]);
   const [redeemState, setRedeemState] = useState<{
-    loading: boolean;
+    loading: string | null;
     code: string | null;
     expiresAt: string | null;
+    rewardName: string | null;
     error: string | null;
-  }>({ loading: false, code: null, expiresAt: null, error: null });
+  }>({ loading: null, code: null, expiresAt: null, rewardName: null, error: null });
 
   const theme = useMemo(() => {
     const params = WebApp.themeParams;
@@ -107,6 +120,20 @@ function App() {
   }, []);
 
   const startParam = useMemo(() => WebApp.initDataUnsafe?.start_param, []);
+  const replayGameId = useMemo(() => {
+    if (startParam?.startsWith('replay_')) {
+      return startParam.replace('replay_', '');
+    }
+    return undefined;
+  }, [startParam]);
+  // Deep link to an online game's replay (replay_<gameId>)
+  useEffect(() => {
+    if (!replayGameId) return;
+    setActiveTab('games');
+    setFunZoneGame('tic_tac_toe');
+    setIsGameFullscreen(true);
+  }, [replayGameId]);
+
   const referralId = useMemo(() => {
     if (startParam?.startsWith('ref_')) {
       return startParam.replace('ref_', '');
@@ -122,6 +149,7 @@ function App() {
     }
     syncUser();
     fetchLocations();
+    fetchRewards();
   }, [telegramUser]);
 
   const syncUser = async () => {
@@ -200,12 +228,23 @@ function App() {
     }
   };
 
+  const fetchRewards = async () => {
+    try {
+      const { data } = await api.get('/api/loyalty/rewards', {
+        params: telegramUser ? { telegramId: String(telegramUser.id) } : undefined,
+      });
+      setRewards(data.rewards);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
   const fetchLocations = async () => {
     const { data } = await api.get('/api/locations');
     setLocations(data.locations);
   };
 
-  const handleSpin = useCallback(async (lat?: number, lng?: number) => {
+  const handleSpin = useCallback(async (lat?: number, lng?: number): Promise<SpinOutcome | { error: string; message: string } | null> => {
     if (!telegramUser) return null;
     try {
       const urlParams = new URLSearchParams(window.location.search);
@@ -214,6 +253,7 @@ function App() {
         telegramId: String(telegramUser.id),
         userLat: lat,
         userLng: lng,
+        locationId: selectedLocation?.id,
         devMode,
       });
 
@@ -221,12 +261,21 @@ function App() {
       setCanSpin(false);
       setNextSpinAt(data.nextSpinAvailable || null);
 
-      return { reward: data.prize?.value ?? 0, newBalance: data.newBalance };
+      return {
+        reward: data.prize?.value ?? 0,
+        newBalance: data.newBalance,
+        prizeId: data.prize?.id ?? null,
+        prizeType: data.prize?.type ?? 'POINTS',
+        label: data.prize?.label ?? '',
+        code: data.prize?.code,
+        codeExpiresAt: data.prize?.codeExpiresAt,
+        segments: data.table?.segments,
+      };
     } catch (err: any) {
       const message = err?.response?.data?.message || 'Не вдалося крутнути колесо';
       return { error: err?.response?.data?.error || 'SpinError', message };
     }
-  }, [telegramUser]);
+  }, [telegramUser, selectedLocation]);
 
   const referralLink = useMemo(() => {
     if (!telegramUser) return '';
@@ -241,30 +290,32 @@ function App() {
     }).catch(() => {});
   }, [referralLink]);
 
-  const handleRedeem = useCallback(async () => {
+  const handleRedeem = useCallback(async (reward: RewardOption) => {
     if (!telegramUser) return;
-    setRedeemState(prev => ({ ...prev, loading: true, error: null }));
+    setRedeemState(prev => ({ ...prev, loading: reward.id, error: null }));
     try {
       const { data } = await api.post('/api/loyalty/redeem', {
         telegramId: String(telegramUser.id),
+        rewardId: reward.id,
       });
       if (data.ok) {
-        setRedeemState({ loading: false, code: data.code, expiresAt: data.expiresAt, error: null });
+        setRedeemState({ loading: null, code: data.code, expiresAt: data.expiresAt, rewardName: data.reward?.name ?? reward.name, error: null });
         setAppUser((prev: any) => prev ? { ...prev, points: data.newBalance } : prev);
+        fetchRewards();
       } else {
         // ACTIVE_CODE_EXISTS returns the existing code
         if (data.error === 'ACTIVE_CODE_EXISTS' && data.code) {
-          setRedeemState({ loading: false, code: data.code, expiresAt: data.expiresAt, error: null });
+          setRedeemState({ loading: null, code: data.code, expiresAt: data.expiresAt, rewardName: null, error: null });
         } else {
-          setRedeemState({ loading: false, code: null, expiresAt: null, error: data.message || 'Помилка' });
+          setRedeemState({ loading: null, code: null, expiresAt: null, rewardName: null, error: data.message || 'Помилка' });
         }
       }
     } catch (err: any) {
       const resp = err?.response?.data;
       if (resp?.error === 'ACTIVE_CODE_EXISTS' && resp.code) {
-        setRedeemState({ loading: false, code: resp.code, expiresAt: resp.expiresAt, error: null });
+        setRedeemState({ loading: null, code: resp.code, expiresAt: resp.expiresAt, rewardName: null, error: null });
       } else {
-        setRedeemState({ loading: false, code: null, expiresAt: null, error: resp?.message || 'Не вдалося створити код' });
+        setRedeemState({ loading: null, code: null, expiresAt: null, rewardName: null, error: resp?.message || 'Не вдалося створити код' });
       }
     }
   }, [telegramUser]);
@@ -299,7 +350,7 @@ function App() {
           <>
             {(() => {
               const orderLocation = activeTab === 'menu' ? selectedLocation : (selectedLocation || locations[0]);
-              const totalAmount = cart.reduce((sum, item) => sum + parseFloat(item.product.price) * item.quantity, 0);
+              const totalAmount = cart.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
               return (
                 <>
             <Menu
@@ -308,6 +359,7 @@ function App() {
               onCartChange={setCart}
               theme={theme}
               canPreorder={activeTab === 'menu' ? selectedLocation?.hasOrdering : true}
+              locationId={selectedLocation?.id}
               locationName={selectedLocation?.name}
               mode={activeTab === 'menu' ? 'menu' : 'shop'}
             />
@@ -331,11 +383,15 @@ function App() {
                 telegramId={telegramUser.id}
                 locationId={orderLocation.id}
                 locationName={orderLocation.name}
+                points={appUser?.points || 0}
                 theme={theme}
                 onClose={() => setShowCheckout(false)}
-                onSuccess={() => {
+                onSuccess={(pointsUsed) => {
                   setShowCheckout(false);
                   setCart([]);
+                  if (pointsUsed > 0) {
+                    setAppUser((prev: any) => prev ? { ...prev, points: prev.points - pointsUsed } : prev);
+                  }
                 }}
               />
             )}
@@ -370,6 +426,8 @@ function App() {
               </div>
             </div>
 
+            <Tournaments theme={theme} apiUrl={API_URL} telegramId={telegramUser?.id} />
+
             <Radio theme={theme} apiUrl={API_URL} telegramId={telegramUser?.id} userRole={appUser?.role} />
 
             {isGameFullscreen && (
@@ -392,6 +450,9 @@ function App() {
                       <TicTacToe
                         theme={theme}
                         mode={gameMode}
+                        apiUrl={API_URL}
+                        telegramId={telegramUser.id}
+                        replayGameId={replayGameId}
                       />
                     ) : (
                       <div className="p-4 rounded-2xl text-center" style={{ backgroundColor: theme.bgColor }}>
@@ -409,19 +470,28 @@ function App() {
 
         {activeTab === 'bonuses' && (
           <div className="space-y-6">
-            <WheelOfFortune onSpin={handleSpin} canSpin={canSpin} nextSpinAt={nextSpinAt} theme={theme} />
+            <WheelOfFortune
+              apiUrl={API_URL}
+              locationId={selectedLocation?.id}
+              onSpin={handleSpin}
+              canSpin={canSpin}
+              nextSpinAt={nextSpinAt}
+              theme={theme}
+            />
 
             {/* Redeem points section */}
             <div className="p-4 rounded-2xl" style={{ backgroundColor: theme.bgColor }}>
               <h3 className="font-semibold mb-2">🎁 Обмін балів</h3>
               <p className="text-sm mb-3" style={{ color: theme.hintColor }}>
-                100 балів = безкоштовний напій. Код дійсний 15 хвилин.
+                Обери нагороду та покажи код баристі.
               </p>
 
               {redeemState.code && redeemState.expiresAt ? (
                 <div className="text-center space-y-3">
                   <div className="py-4 px-6 rounded-xl" style={{ backgroundColor: '#FFF8E1' }}>
-                    <p className="text-xs mb-1" style={{ color: '#92400e' }}>Твій код:</p>
+                    <p className="text-xs mb-1" style={{ color: '#92400e' }}>
+                      {redeemState.rewardName ? `${redeemState.rewardName} — твій код:` : 'Твій код:'}
+                    </p>
                     <p className="text-4xl font-bold tracking-widest" style={{ color: '#8B5A2B' }}>
                       {redeemState.code}
                     </p>
@@ -442,17 +512,42 @@ function App() {
                       <p className="text-sm text-red-700">{redeemState.error}</p>
                     </div>
                   )}
-                  <button
-                    onClick={handleRedeem}
-                    disabled={redeemState.loading || (appUser?.points || 0) < 100}
-                    className="w-full py-3 rounded-xl font-bold text-sm transition-all active:scale-[0.98] disabled:opacity-50"
-                    style={{
-                      backgroundColor: (appUser?.points || 0) >= 100 ? '#FFB300' : theme.hintColor,
-                      color: (appUser?.points || 0) >= 100 ? '#fff' : theme.buttonTextColor,
-                    }}
-                  >
-                    {redeemState.loading ? 'Створюємо код...' : (appUser?.points || 0) >= 100 ? '🎟 Обміняти 100 балів' : `Потрібно ще ${100 - (appUser?.points || 0)} балів`}
-                  </button>
+                  <div className="space-y-2">
+                    {rewards.map(reward => {
+                      const balance = appUser?.points || 0;
+                      const affordable = reward.available && balance >= reward.pointsCost;
+                      return (
+                        <div key={reward.id} className="p-3 rounded-xl" style={{ backgroundColor: theme.secondaryBgColor }}>
+                          <div className="flex items-center justify-between mb-2">
+                            <div>
+                              <p className="text-sm font-semibold">{reward.name}</p>
+                              {reward.description && (
+                                <p className="text-xs" style={{ color: theme.hintColor }}>{reward.description}</p>
+                              )}
+                            </div>
+                            <span className="font-bold text-[#FFB300] whitespace-nowrap ml-2">{reward.pointsCost} балів</span>
+                          </div>
+                          <button
+                            onClick={() => handleRedeem(reward)}
+                            disabled={redeemState.loading !== null || !affordable}
+                            className="w-full py-2 rounded-xl font-bold text-sm transition-all active:scale-[0.98] disabled:opacity-50"
+                            style={{
+                              backgroundColor: affordable ? '#FFB300' : theme.hintColor,
+                              color: affordable ? '#fff' : theme.buttonTextColor,
+                            }}
+                          >
+                            {redeemState.loading === reward.id
+                              ? 'Створюємо код...'
+                              : !reward.available
+                                ? 'Недоступно'
+                                : affordable
+                                  ? `🎟 Обміняти ${reward.pointsCost} балів`
+                                  : `Потрібно ще ${reward.pointsCost - balance} балів`}
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
                 </>
               )}
             </div>
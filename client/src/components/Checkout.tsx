@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import axios from 'axios';
 import type { CartItem } from './Menu';
 
@@ -8,6 +8,8 @@ interface CheckoutProps {
   telegramId: number;
   locationId: string;
   locationName: string;
+  /** Current loyalty balance — part of the order can be paid with points */
+  points: number;
   theme: {
     bgColor: string;
     textColor: string;
@@ -17,20 +19,74 @@ interface CheckoutProps {
     secondaryBgColor: string;
   };
   onClose: () => void;
-  onSuccess: () => void;
+  onSuccess: (pointsUsed: number) => void;
 }
 
-const PICKUP_TIMES = [5, 10, 15, 20];
+interface PickupSlot {
+  slot: string;
+  readyAt: string;
+  minutes: number;
+  available: number;
+}
+
+interface PickupSlotsResponse {
+  paused: boolean;
+  pausedUntil: string | null;
+  slots: PickupSlot[];
+}
 
-export function Checkout({ apiUrl, cart, telegramId, locationId, locationName, theme, onClose, onSuccess }: CheckoutProps) {
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('uk-UA', { hour: '2-digit', minute: '2-digit' });
+}
+
+export function Checkout({ apiUrl, cart, telegramId, locationId, locationName, points, theme, onClose, onSuccess }: CheckoutProps) {
   const [paymentMethod, setPaymentMethod] = useState<'cash' | 'telegram_pay'>('cash');
-  const [pickupMinutes, setPickupMinutes] = useState(10);
+  const [pickupSlots, setPickupSlots] = useState<PickupSlotsResponse | null>(null);
+  const [pickupSlot, setPickupSlot] = useState<string | null>(null);
   const [shippingAddress, setShippingAddress] = useState('');
   const [shippingPhone, setShippingPhone] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [usePoints, setUsePoints] = useState(false);
+  const [discountConfig, setDiscountConfig] = useState<{ pointValueUah: number; maxDiscountShare: number } | null>(null);
+
+  useEffect(() => {
+    axios.get(`${apiUrl}/api/loyalty/discount-config`)
+      .then(({ data }) => setDiscountConfig(data))
+      .catch(() => {});
+  }, [apiUrl]);
+
+  const loadPickupSlots = useCallback(async () => {
+    try {
+      const { data } = await axios.get<PickupSlotsResponse>(`${apiUrl}/api/orders/slots`, { params: { locationId } });
+      setPickupSlots(data);
+      // Keep the chosen slot while it still has room, otherwise take the first free one
+      setPickupSlot(prev => {
+        const free = data.slots.filter(s => s.available > 0);
+        return free.some(s => s.slot === prev) ? prev : free[0]?.slot ?? null;
+      });
+    } catch (err) {
+      console.error('[Checkout] Slots fetch error:', err);
+    }
+  }, [apiUrl, locationId]);
 
-  const total = cart.reduce((sum, item) => sum + parseFloat(item.product.price) * item.quantity, 0);
+  useEffect(() => {
+    loadPickupSlots();
+  }, [loadPickupSlots]);
+
+  const subtotal = cart.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+
+  // Mirrors quotePointsDiscount() on the server
+  const pointsDiscount = (() => {
+    if (!discountConfig || points <= 0) return { pointsUsed: 0, discount: 0 };
+    const pointKopecks = Math.round(discountConfig.pointValueUah * 100);
+    const maxDiscount = Math.floor(subtotal * discountConfig.maxDiscountShare);
+    const discount = Math.min(Math.floor((points * pointKopecks) / 100), maxDiscount);
+    if (discount <= 0) return { pointsUsed: 0, discount: 0 };
+    return { pointsUsed: Math.min(Math.ceil((discount * 100) / pointKopecks), points), discount };
+  })();
+  const appliedDiscount = usePoints ? pointsDiscount : { pointsUsed: 0, discount: 0 };
+  const total = subtotal - appliedDiscount.discount;
   const isShippingOrder = cart.some(item => item.product.type === 'MERCH' || item.product.type === 'BEANS');
 
   const handleSubmit = async () => {
@@ -42,33 +98,40 @@ export function Checkout({ apiUrl, cart, telegramId, locationId, locationName, t
         setError("Будь ласка, заповніть адресу та телефон для доставки.");
         return;
       }
+    } else if (!pickupSlot) {
+      setError('Оберіть час, коли забрати замовлення.');
+      return;
     }
 
     setSubmitting(true);
 
     try {
 
-      await axios.post(`${apiUrl}/api/orders`, {
+      const { data } = await axios.post(`${apiUrl}/api/orders`, {
         telegramId: String(telegramId),
         locationId,
         paymentMethod,
-        pickupMinutes: isShippingOrder ? undefined : pickupMinutes,
+        pickupSlot: isShippingOrder ? undefined : pickupSlot,
         deliveryType: isShippingOrder ? 'shipping' : 'pickup',
         shippingAddr: isShippingOrder ? shippingAddress.trim() : undefined,
         phone: isShippingOrder ? shippingPhone.trim() : undefined,
+        // Prices are worked out on the server from the size and modifier ids
         items: cart.map(item => ({
           productId: item.product.id,
-          name: item.product.name,
+          variantId: item.variantId,
+          modifierOptionIds: item.modifierOptionIds,
           quantity: item.quantity,
-          price: parseFloat(item.product.price),
         })),
+        pointsToUse: appliedDiscount.pointsUsed,
       });
 
-      onSuccess();
+      onSuccess(data.order?.pointsUsed ?? 0);
     } catch (err) {
       console.error('[Checkout] Error:', err);
       if (axios.isAxiosError(err) && err.response?.data?.error) {
-        setError(err.response.data.error);
+        setError(err.response.data.message || err.response.data.error);
+        // Someone took the last place or the bar paused ordering — show fresh slots
+        if (err.response.status === 409) loadPickupSlots();
       } else {
         setError('Не вдалося створити замовлення. Спробуйте пізніше.');
       }
@@ -107,17 +170,26 @@ export function Checkout({ apiUrl, cart, telegramId, locationId, locationName, t
         <div className="mb-4">
           <p className="text-xs mb-2 font-medium" style={{ color: theme.hintColor }}>Замовлення</p>
           {cart.map(item => (
-            <div key={item.product.id} className="flex justify-between items-center py-2 border-b" style={{ borderColor: theme.hintColor + '20' }}>
+            <div key={item.key} className="flex justify-between items-center py-2 border-b" style={{ borderColor: theme.hintColor + '20' }}>
               <div>
                 <span className="text-sm" style={{ color: theme.textColor }}>
                   {item.product.name} x{item.quantity}
                 </span>
+                {item.summary && (
+                  <p className="text-xs" style={{ color: theme.hintColor }}>{item.summary}</p>
+                )}
               </div>
               <span className="text-sm font-medium" style={{ color: theme.textColor }}>
-                {parseFloat(item.product.price) * item.quantity} грн
+                {item.unitPrice * item.quantity} грн
               </span>
             </div>
           ))}
+          {appliedDiscount.discount > 0 && (
+            <div className="flex justify-between items-center pt-2">
+              <span className="text-sm" style={{ color: theme.hintColor }}>Знижка балами ({appliedDiscount.pointsUsed} балів)</span>
+              <span className="text-sm font-medium" style={{ color: '#16a34a' }}>−{appliedDiscount.discount} грн</span>
+            </div>
+          )}
           <div className="flex justify-between items-center pt-2">
             <span className="font-bold" style={{ color: theme.textColor }}>Разом</span>
             <span className="font-bold text-lg" style={{ color: theme.buttonColor }}>{total} грн</span>
@@ -128,21 +200,36 @@ export function Checkout({ apiUrl, cart, telegramId, locationId, locationName, t
         {!isShippingOrder ? (
           <div className="mb-4">
             <p className="text-xs mb-2 font-medium" style={{ color: theme.hintColor }}>Час готовності</p>
-            <div className="grid grid-cols-4 gap-2">
-              {PICKUP_TIMES.map(time => (
-                <button
-                  key={time}
-                  onClick={() => setPickupMinutes(time)}
-                  className="py-2.5 rounded-xl text-sm font-medium transition-all"
-                  style={{
-                    backgroundColor: pickupMinutes === time ? theme.buttonColor : theme.secondaryBgColor,
-                    color: pickupMinutes === time ? theme.buttonTextColor : theme.textColor,
-                  }}
-                >
-                  {time} хв
-                </button>
-              ))}
-            </div>
+            {pickupSlots?.paused ? (
+              <p className="text-sm p-3 rounded-xl" style={{ backgroundColor: theme.secondaryBgColor, color: theme.textColor }}>
+                ⏸ Бариста зараз не встигають — онлайн-замовлення відновляться
+                {pickupSlots.pausedUntil ? ` о ${formatTime(pickupSlots.pausedUntil)}` : ' згодом'}. Замовляйте на місці!
+              </p>
+            ) : !pickupSlots ? (
+              <p className="text-sm" style={{ color: theme.hintColor }}>Завантаження...</p>
+            ) : (
+              <div className="grid grid-cols-3 gap-2">
+                {pickupSlots.slots.map(slot => {
+                  const full = slot.available <= 0;
+                  const selected = pickupSlot === slot.slot;
+                  return (
+                    <button
+                      key={slot.slot}
+                      onClick={() => setPickupSlot(slot.slot)}
+                      disabled={full}
+                      className="py-2 rounded-xl text-sm font-medium transition-all disabled:opacity-40"
+                      style={{
+                        backgroundColor: selected ? theme.buttonColor : theme.secondaryBgColor,
+                        color: selected ? theme.buttonTextColor : theme.textColor,
+                      }}
+                    >
+                      {formatTime(slot.readyAt)}
+                      <span className="block text-xs opacity-70">{full ? 'зайнято' : `~${slot.minutes} хв`}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
           </div>
         ) : (
           <div className="mb-4 space-y-3">
@@ -166,6 +253,31 @@ export function Checkout({ apiUrl, cart, telegramId, locationId, locationName, t
           </div>
         )}
 
+        {/* Pay with points */}
+        {pointsDiscount.discount > 0 && (
+          <button
+            onClick={() => setUsePoints(prev => !prev)}
+            className="w-full mb-4 p-3 rounded-xl flex items-center gap-3 transition-all"
+            style={{
+              backgroundColor: usePoints ? theme.buttonColor + '15' : theme.secondaryBgColor,
+              border: usePoints ? `2px solid ${theme.buttonColor}` : '2px solid transparent',
+            }}
+          >
+            <span className="text-xl">🎁</span>
+            <div className="flex-1 text-left">
+              <p className="text-sm font-medium" style={{ color: theme.textColor }}>
+                Списати {pointsDiscount.pointsUsed} балів
+              </p>
+              <p className="text-xs" style={{ color: theme.hintColor }}>
+                Знижка −{pointsDiscount.discount} грн · у тебе {points} балів
+              </p>
+            </div>
+            <span className="text-sm" style={{ color: usePoints ? theme.buttonColor : theme.hintColor }}>
+              {usePoints ? '✓' : ''}
+            </span>
+          </button>
+        )}
+
         {/* Payment method */}
         <div className="mb-6">
           <p className="text-xs mb-2 font-medium" style={{ color: theme.hintColor }}>Спосіб оплати</p>
@@ -214,7 +326,7 @@ export function Checkout({ apiUrl, cart, telegramId, locationId, locationName, t
         {/* Submit button */}
         <button
           onClick={handleSubmit}
-          disabled={submitting || cart.length === 0}
+          disabled={submitting || cart.length === 0 || (!isShippingOrder && !!pickupSlots?.paused)}
           className="w-full py-4 rounded-2xl font-bold text-base transition-all active:scale-[0.98] disabled:opacity-60"
           style={{ backgroundColor: theme.buttonColor, color: theme.buttonTextColor }}
         >
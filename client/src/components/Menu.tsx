@@ -1,20 +1,60 @@
 import { useState, useEffect, useMemo } from 'react';
 import axios from 'axios';
+import { ProductCustomizer, type CustomizerSelection } from './ProductCustomizer';
 
-interface Product {
+/** A size with its full price */
+export interface ProductVariant {
+  id: string;
+  name: string;
+  price: number;
+}
+
+export interface ModifierOption {
+  id: string;
+  name: string;
+  priceDelta: number;
+  isDefault: boolean;
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  selection: 'SINGLE' | 'MULTI';
+  required: boolean;
+  maxSelected: number | null;
+  options: ModifierOption[];
+}
+
+export interface Product {
   id: string;
   name: string;
   description: string | null;
   volume: string | null;
+  /** Cheapest size for products with variants */
   price: string;
   category: string;
   type: 'MENU' | 'MERCH' | 'BEANS';
   imageUrl: string | null;
+  variants?: ProductVariant[];
+  modifierGroups?: ModifierGroup[];
 }
 
+/** One cart line: a product with a particular size and modifiers */
 export interface CartItem {
+  /** Product id plus the chosen size and modifiers */
+  key: string;
   product: Product;
   quantity: number;
+  variantId?: string;
+  modifierOptionIds?: string[];
+  /** Shown price per unit; the server prices the order itself */
+  unitPrice: number;
+  /** "250 мл, Вівсяне" */
+  summary?: string;
+}
+
+export function isCustomizable(product: Product): boolean {
+  return (product.variants?.length ?? 0) > 0 || (product.modifierGroups?.length ?? 0) > 0;
 }
 
 interface MenuProps {
@@ -30,6 +70,8 @@ interface MenuProps {
     secondaryBgColor: string;
   };
   canPreorder?: boolean;
+  /** Menu mode shows this location's menu and prices */
+  locationId?: string;
   locationName?: string;
   mode: 'menu' | 'shop';
 }
@@ -43,37 +85,18 @@ const CATEGORY_ICONS: Record<string, string> = {
   'Мерч': '👕',
 };
 
-const MARK_MALL_MENU: Product[] = [
-  { id: 'markmall-espresso-m', name: 'Еспресо', description: null, volume: 'M', price: '35', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-espresso-milk-m', name: 'Еспресо з молоком', description: null, volume: 'M', price: '40', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-doppio-m', name: 'Допіо / 2 Рістрето', description: null, volume: 'M', price: '50', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-ristretto-m', name: 'Рістрето', description: null, volume: 'M', price: '35', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-lungo-m', name: 'Лунго', description: null, volume: 'M', price: '35', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-americano-m', name: 'Американо', description: null, volume: 'M', price: '35', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-americano-l', name: 'Американо', description: null, volume: 'L', price: '50', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-americano-milk-m', name: 'Американо з молоком', description: null, volume: 'M', price: '55', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-americano-milk-l', name: 'Американо з молоком', description: null, volume: 'L', price: '65', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-hot-water-l', name: 'Гаряча вода', description: null, volume: 'L', price: '20', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-latte-m', name: 'Лате', description: null, volume: 'M', price: '60', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-latte-l', name: 'Лате', description: null, volume: 'L', price: '70', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-cappuccino-m', name: 'Капучино', description: null, volume: 'M', price: '65', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-cappuccino-l', name: 'Капучино', description: null, volume: 'L', price: '75', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-flat-white-m', name: 'Флет Уайт', description: null, volume: 'M', price: '70', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-mocha-m', name: 'Мокачино', description: null, volume: 'M', price: '75', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-cocoa-m', name: 'Какао', description: null, volume: 'M', price: '60', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-cocoa-l', name: 'Какао', description: null, volume: 'L', price: '70', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-milk-foam-m', name: 'Молочна пінка', description: null, volume: 'M', price: '40', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-  { id: 'markmall-warm-milk-l', name: 'Тепле молоко', description: null, volume: 'L', price: '40', category: 'Mark Mall', type: 'MENU', imageUrl: null },
-];
-
-export function Menu({ apiUrl, cart, onCartChange, theme, canPreorder = true, locationName, mode }: MenuProps) {
+export function Menu({ apiUrl, cart, onCartChange, theme, canPreorder = true, locationId, locationName, mode }: MenuProps) {
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeCategory, setActiveCategory] = useState<string | null>(null);
+  const [customizing, setCustomizing] = useState<Product | null>(null);
+
+  // Merch and beans are the same everywhere; drinks and their prices depend on the location
+  const menuLocationId = mode === 'menu' ? locationId : undefined;
 
   useEffect(() => {
     fetchProducts();
-  }, []);
+  }, [menuLocationId]);
 
   const [fetchError, setFetchError] = useState(false);
   const isMarkMall = locationName === 'Mark Mall';
@@ -83,7 +106,9 @@ export function Menu({ apiUrl, cart, onCartChange, theme, canPreorder = true, lo
     try {
       setLoading(true);
       setFetchError(false);
-      const response = await axios.get<{ products: Product[] }>(url);
+      const response = await axios.get<{ products: Product[] }>(url, {
+        params: menuLocationId ? { locationId: menuLocationId } : undefined,
+      });
       setProducts(response.data.products || []);
     } catch (err) {
       console.error('[Menu] Fetch failed:', err);
@@ -99,14 +124,13 @@ export function Menu({ apiUrl, cart, onCartChange, theme, canPreorder = true, lo
 
   // Filter products based on mode
   const filteredByMode = useMemo(() => {
-    const baseProducts = isMarkMall && mode === 'menu' ? MARK_MALL_MENU : products;
     if (mode === 'shop') {
       // Shop: only MERCH and BEANS
-      return baseProducts.filter(p => p.type === 'MERCH' || p.type === 'BEANS');
+      return products.filter(p => p.type === 'MERCH' || p.type === 'BEANS');
     }
     // Menu: only MENU type products
-    return baseProducts.filter(p => p.type === 'MENU');
-  }, [products, mode, isMarkMall]);
+    return products.filter(p => p.type === 'MENU');
+  }, [products, mode]);
 
   const CATEGORY_ORDER = ['Кава', 'Холодні напої', 'Не кава', 'Їжа', 'Кава на продаж', 'Мерч'];
 
@@ -130,31 +154,54 @@ export function Menu({ apiUrl, cart, onCartChange, theme, canPreorder = true, lo
     return filteredByMode.filter(p => p.category === activeCategory);
   }, [filteredByMode, activeCategory]);
 
+  // A product may sit in the cart as several lines with different sizes / modifiers
   const getCartQuantity = (productId: string) => {
-    return cart.find(item => item.product.id === productId)?.quantity || 0;
+    return cart.filter(item => item.product.id === productId).reduce((sum, item) => sum + item.quantity, 0);
   };
 
-  const addToCart = (product: Product) => {
-    const existing = cart.find(item => item.product.id === product.id);
+  const addLine = (line: Omit<CartItem, 'quantity'>) => {
+    const existing = cart.find(item => item.key === line.key);
     if (existing) {
       onCartChange(cart.map(item =>
-        item.product.id === product.id
+        item.key === line.key
           ? { ...item, quantity: item.quantity + 1 }
           : item
       ));
     } else {
-      onCartChange([...cart, { product, quantity: 1 }]);
+      onCartChange([...cart, { ...line, quantity: 1 }]);
+    }
+  };
+
+  const addToCart = (product: Product) => {
+    if (isCustomizable(product)) {
+      setCustomizing(product);
+      return;
     }
+    addLine({ key: product.id, product, unitPrice: parseFloat(product.price) });
+  };
+
+  const addCustomized = (product: Product, selection: CustomizerSelection) => {
+    const optionIds = [...selection.modifierOptionIds].sort();
+    addLine({
+      key: [product.id, selection.variantId ?? '', ...optionIds].join('|'),
+      product,
+      variantId: selection.variantId,
+      modifierOptionIds: optionIds,
+      unitPrice: selection.unitPrice,
+      summary: selection.summary,
+    });
+    setCustomizing(null);
   };
 
+  // Takes one from the most recently added line of the product
   const removeFromCart = (productId: string) => {
-    const existing = cart.find(item => item.product.id === productId);
+    const existing = [...cart].reverse().find(item => item.product.id === productId);
     if (!existing) return;
     if (existing.quantity <= 1) {
-      onCartChange(cart.filter(item => item.product.id !== productId));
+      onCartChange(cart.filter(item => item.key !== existing.key));
     } else {
       onCartChange(cart.map(item =>
-        item.product.id === productId
+        item.key === existing.key
           ? { ...item, quantity: item.quantity - 1 }
           : item
       ));
@@ -246,7 +293,7 @@ export function Menu({ apiUrl, cart, onCartChange, theme, canPreorder = true, lo
                   </p>
                 )}
                 <p className="font-bold text-sm mt-1" style={{ color: theme.buttonColor }}>
-                  {price} грн
+                  {(product.variants?.length ?? 0) > 1 ? `від ${price}` : price} грн
                 </p>
               </div>
 
@@ -302,6 +349,15 @@ export function Menu({ apiUrl, cart, onCartChange, theme, canPreorder = true, lo
         </div>
       )}
 
+      {customizing && (
+        <ProductCustomizer
+          product={customizing}
+          theme={theme}
+          onClose={() => setCustomizing(null)}
+          onAdd={(selection) => addCustomized(customizing, selection)}
+        />
+      )}
+
       {!fetchError && filteredProducts.length === 0 && (
         <div className="text-center py-12">
           <p style={{ color: theme.hintColor }}>
@@ -1,6 +1,9 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 
 interface PerkyCoffeeCatcherProps {
+  telegramId?: string;
+  apiUrl?: string;
+  onPointsEarned?: (points: number) => void;
   theme: {
     bgColor: string;
     textColor: string;
@@ -21,6 +24,7 @@ interface FallingItem {
   speed: number;
 }
 
+// Bounds-checked on the server — keep in sync with server/src/modules/games/coffeeCatcher.service.ts
 const GAME_DURATION = 60;
 const SPAWN_INTERVAL_MS = 800;
 const TICK_INTERVAL_MS = 40;
@@ -32,7 +36,7 @@ const ITEM_CONFIG: Record<ItemType, { emoji: string; points: number; good: boole
   empty: { emoji: '📦', points: -10, good: false },
 };
 
-export function PerkyCoffeeCatcher({ theme }: PerkyCoffeeCatcherProps) {
+export function PerkyCoffeeCatcher({ telegramId, apiUrl, onPointsEarned, theme }: PerkyCoffeeCatcherProps) {
   const [status, setStatus] = useState<'idle' | 'playing' | 'over'>('idle');
   const [score, setScore] = useState(0);
   const [combo, setCombo] = useState(1);
@@ -51,6 +55,10 @@ export function PerkyCoffeeCatcher({ theme }: PerkyCoffeeCatcherProps) {
   const tickRef = useRef<number | null>(null);
   const spawnRef = useRef<number | null>(null);
   const timerRef = useRef<number | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  const startedAtRef = useRef(0);
+  const [starting, setStarting] = useState(false);
+  const [reward, setReward] = useState<{ points: number; limitReached: boolean } | null>(null);
 
   const scoreboard = useMemo(
     () => [
@@ -73,6 +81,7 @@ export function PerkyCoffeeCatcher({ theme }: PerkyCoffeeCatcherProps) {
     setTimeLeft(GAME_DURATION);
     setCupX(50);
     setItems([]);
+    setReward(null);
   };
 
   const stopLoops = () => {
@@ -94,8 +103,27 @@ export function PerkyCoffeeCatcher({ theme }: PerkyCoffeeCatcherProps) {
     return 'empty';
   };
 
-  const startGame = () => {
+  const startGame = async () => {
+    // Server opens a single-use session; without it the run is just not scored
+    sessionIdRef.current = null;
+    if (telegramId && apiUrl) {
+      setStarting(true);
+      try {
+        const res = await fetch(`${apiUrl}/api/games/coffee-catcher/start`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ telegramId }),
+        });
+        if (res.ok) sessionIdRef.current = ((await res.json()) as { sessionId: string }).sessionId;
+      } catch {
+        // play unscored
+      } finally {
+        setStarting(false);
+      }
+    }
+
     resetState();
+    startedAtRef.current = Date.now();
     setStatus('playing');
 
     tickRef.current = window.setInterval(() => {
@@ -172,6 +200,33 @@ export function PerkyCoffeeCatcher({ theme }: PerkyCoffeeCatcherProps) {
     cupXRef.current = cupX;
   }, [cupX, status]);
 
+  useEffect(() => {
+    const sessionId = sessionIdRef.current;
+    if (status !== 'over' || !sessionId || !apiUrl) return;
+    sessionIdRef.current = null;
+
+    fetch(`${apiUrl}/api/games/coffee-catcher/submit`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        telegramId,
+        sessionId,
+        score: scoreRef.current,
+        beansCollected: beansRef.current,
+        maxCombo: maxComboRef.current,
+        durationMs: Date.now() - startedAtRef.current,
+      }),
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { pointsAwarded?: number; limitReached?: boolean } | null) => {
+        if (!data) return;
+        const points = data.pointsAwarded ?? 0;
+        setReward({ points, limitReached: data.limitReached ?? false });
+        if (points > 0) onPointsEarned?.(points);
+      })
+      .catch(() => {});
+  }, [status, apiUrl, telegramId, onPointsEarned]);
+
   const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
     if (!playAreaRef.current) return;
     const rect = playAreaRef.current.getBoundingClientRect();
@@ -208,10 +263,11 @@ export function PerkyCoffeeCatcher({ theme }: PerkyCoffeeCatcherProps) {
           </div>
           <button
             onClick={startGame}
+            disabled={starting}
             className="w-full py-3 rounded-2xl font-bold text-base transition-all active:scale-[0.98]"
             style={{ backgroundColor: theme.buttonColor, color: theme.buttonTextColor }}
           >
-            🎮 Почати гру
+            {starting ? 'Завантаження…' : '🎮 Почати гру'}
           </button>
         </div>
       )}
@@ -276,6 +332,11 @@ export function PerkyCoffeeCatcher({ theme }: PerkyCoffeeCatcherProps) {
           <p className="text-sm mb-4" style={{ color: theme.hintColor }}>
             Твій результат: {score} очок
           </p>
+          {reward && (reward.points > 0 || reward.limitReached) && (
+            <p className="text-sm font-semibold mb-4" style={{ color: theme.buttonColor }}>
+              {reward.points > 0 ? `+${reward.points} балів лояльності` : 'Денний ліміт балів вичерпано'}
+            </p>
+          )}
           <div className="grid grid-cols-2 gap-3 text-sm mb-6" style={{ color: theme.textColor }}>
             <div className="p-3 rounded-xl" style={{ backgroundColor: theme.secondaryBgColor }}>
               Зібрано зерен: {beansCollected}
@@ -286,6 +347,7 @@ export function PerkyCoffeeCatcher({ theme }: PerkyCoffeeCatcherProps) {
           </div>
           <button
             onClick={restartGame}
+            disabled={starting}
             className="w-full py-3 rounded-2xl font-bold text-base transition-all active:scale-[0.98]"
             style={{ backgroundColor: theme.buttonColor, color: theme.buttonTextColor }}
           >
@@ -7,7 +7,7 @@ const BASE_JUMP_VY = -12.8;
 const PLAYER_W = 52;
 const PLAYER_H = 52;
 const PLAYER_MOVE_SPEED = 5.2;
-const CLIENT_SALT = import.meta.env.VITE_GAME_SALT ?? 'perkie-default-salt-change-me';
+const FIRST_PLATFORM_Y = CANVAS_H - 90;
 
 type PlatformType = 'normal' | 'moving' | 'fragile';
 type GameMode = 'classic' | 'timed' | 'survival' | 'racing';
@@ -15,6 +15,8 @@ type GameMode = 'classic' | 'timed' | 'survival' | 'racing';
 type Difficulty = 'easy' | 'medium' | 'hard' | 'expert' | 'extreme';
 
 interface Platform {
+  /** Position in the seeded sequence — landings are logged by index for the server check */
+  index: number;
   x: number;
   y: number;
   width: number;
@@ -42,6 +44,14 @@ interface GameState {
   modeStartedAt: number;
 }
 
+/** [msSinceStart, platformIndex] — platformIndex -1 is a mid-air jump */
+type RunEvent = [number, number];
+
+interface RunTicket {
+  ticket: string;
+  seed: number;
+}
+
 interface PerkyJumpProps {
   telegramId?: string;
   apiUrl?: string;
@@ -79,6 +89,7 @@ const MODE_OPTIONS: Array<{ id: GameMode; label: string }> = [
   { id: 'racing', label: 'Гонка' },
 ];
 
+// Level generation mirrors server/src/modules/games/perkyJump.service.ts — keep in sync
 const LEVELS: LevelConfig[] = [
   { level: 1, minScore: 0, maxScore: 999, platformWidth: 110, gapMin: 72, gapMax: 102, movingChance: 0.0, fragileChance: 0.0, movingSpeed: 0, difficulty: 'easy' },
   { level: 2, minScore: 1000, maxScore: 2499, platformWidth: 92, gapMin: 86, gapMax: 128, movingChance: 0.35, fragileChance: 0.0, movingSpeed: 1.5, difficulty: 'medium' },
@@ -90,51 +101,51 @@ function getLevelConfig(score: number): LevelConfig {
   return LEVELS.find((l) => score >= l.minScore && score <= l.maxScore) ?? LEVELS[LEVELS.length - 1];
 }
 
-function getChainMultiplier(day: number): number {
-  if (day >= 30) return 4.0;
-  if (day >= 14) return 2.5;
-  if (day >= 7) return 1.8;
-  if (day >= 3) return 1.3;
-  return 1.0;
+/** mulberry32 — small seeded PRNG, identical on client and server */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
 }
 
-function calcChainDays(): number {
-  const key = 'perkie_chain_meta';
-  const today = new Date().toISOString().slice(0, 10);
-  try {
-    const raw = localStorage.getItem(key);
-    if (!raw) {
-      localStorage.setItem(key, JSON.stringify({ date: today, days: 1 }));
-      return 1;
+/** Platforms of a run in order; the layout depends only on the seed and mode */
+function createPlatformGenerator(seed: number, mode: GameMode): () => Platform {
+  const random = seededRandom(seed);
+  const modeGapFactor = mode === 'timed' ? 1.1 : mode === 'survival' ? 1.12 : 1;
+  let index = 0;
+  let prevY = FIRST_PLATFORM_Y;
+
+  return () => {
+    if (index === 0) {
+      index++;
+      return { index: 0, x: CANVAS_W / 2 - 55, y: FIRST_PLATFORM_Y, width: 110, height: 14, type: 'normal', dx: 0, broken: false };
     }
-    const parsed = JSON.parse(raw) as { date: string; days: number };
-    if (parsed.date === today) return parsed.days;
-    const last = new Date(`${parsed.date}T00:00:00Z`).getTime();
-    const now = new Date(`${today}T00:00:00Z`).getTime();
-    const diffDays = Math.round((now - last) / (24 * 3600 * 1000));
-    const next = diffDays === 1 ? parsed.days + 1 : 1;
-    localStorage.setItem(key, JSON.stringify({ date: today, days: next }));
-    return next;
-  } catch {
-    return 1;
-  }
-}
 
-function createPlatform(y: number, score: number, multiplier: number): Platform {
-  const cfg = getLevelConfig(score);
-  const r = Math.random();
-  let type: PlatformType = 'normal';
-  if (r < cfg.fragileChance) type = 'fragile';
-  else if (r < cfg.fragileChance + cfg.movingChance) type = 'moving';
-
-  return {
-    x: Math.random() * (CANVAS_W - cfg.platformWidth),
-    y,
-    width: cfg.platformWidth,
-    height: 14,
-    type,
-    dx: type === 'moving' ? cfg.movingSpeed * multiplier * (Math.random() > 0.5 ? 1 : -1) : 0,
-    broken: false,
+    // Score the camera shows when the next platform scrolls into view
+    const score = Math.max(0, Math.floor((-prevY - CANVAS_H) * 2.2));
+    const cfg = getLevelConfig(score);
+    const difficultyMultiplier = Math.min(1 + score / 4000, 2.25);
+
+    const gap = prevY > -CANVAS_H + 105
+      ? 80 + random() * 25
+      : (cfg.gapMin + random() * (cfg.gapMax - cfg.gapMin)) * modeGapFactor * (0.95 + difficultyMultiplier * 0.08);
+    const y = prevY - gap;
+
+    const r = random();
+    let type: PlatformType = 'normal';
+    if (r < cfg.fragileChance) type = 'fragile';
+    else if (r < cfg.fragileChance + cfg.movingChance) type = 'moving';
+
+    const x = random() * (CANVAS_W - cfg.platformWidth);
+    const dx = type === 'moving' ? cfg.movingSpeed * difficultyMultiplier * (random() > 0.5 ? 1 : -1) : 0;
+
+    prevY = y;
+    return { index: index++, x, y, width: cfg.platformWidth, height: 14, type, dx, broken: false };
   };
 }
 
@@ -189,12 +200,6 @@ function drawPlayer(ctx: CanvasRenderingContext2D, player: Player, cameraY: numb
   ctx.restore();
 }
 
-async function sha256(message: string): Promise<string> {
-  const data = new TextEncoder().encode(message);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  return Array.from(new Uint8Array(hashBuffer)).map((b) => b.toString(16).padStart(2, '0')).join('');
-}
-
 export function PerkyJump({ telegramId, apiUrl, onPointsEarned, mascotSrc = '/perkie.png', loyaltyMultiplier = 1 }: PerkyJumpProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const mascotRef = useRef<HTMLImageElement | null>(null);
@@ -202,6 +207,9 @@ export function PerkyJump({ telegramId, apiUrl, onPointsEarned, mascotSrc = '/pe
   const stateRef = useRef<GameState | null>(null);
   const inputRef = useRef({ left: false, right: false, accelX: 0 });
   const fragileTouchRef = useRef<WeakSet<Platform>>(new WeakSet());
+  const nextPlatformRef = useRef<(() => Platform) | null>(null);
+  const ticketRef = useRef<RunTicket | null>(null);
+  const eventsRef = useRef<RunEvent[]>([]);
 
   const [phase, setPhase] = useState<'menu' | 'playing' | 'gameover'>('menu');
   const [selectedMode, setSelectedMode] = useState<GameMode>('classic');
@@ -211,29 +219,42 @@ export function PerkyJump({ telegramId, apiUrl, onPointsEarned, mascotSrc = '/pe
   const [heightMeters, setHeightMeters] = useState(0);
   const [coinsCollected, setCoinsCollected] = useState(0);
   const [xp, setXp] = useState(0);
-  const [chainDays] = useState(() => calcChainDays());
+  // Daily streak is tracked server-side (spins, completed orders, redemptions)
+  const [chainDays, setChainDays] = useState(0);
+  const [chainMultiplier, setChainMultiplier] = useState(1);
   const [finalScore, setFinalScore] = useState(0);
   const [submitted, setSubmitted] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  const [starting, setStarting] = useState(false);
   const [pointsAwarded, setPointsAwarded] = useState(0);
   const [loyaltyBonus, setLoyaltyBonus] = useState(0);
 
-  const chainMultiplier = getChainMultiplier(chainDays);
+  useEffect(() => {
+    if (!telegramId || !apiUrl) return;
+    fetch(`${apiUrl}/api/loyalty/streak?telegramId=${encodeURIComponent(telegramId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { streak?: { days: number; multiplier: number } } | null) => {
+        if (!data?.streak) return;
+        setChainDays(data.streak.days);
+        setChainMultiplier(data.streak.multiplier);
+      })
+      .catch(() => {});
+  }, [telegramId, apiUrl]);
 
   const submitScore = useCallback(async (finalValue: number, durationMs: number, bonusPoints: number) => {
-    if (!telegramId || !apiUrl) return;
+    const run = ticketRef.current;
+    if (!telegramId || !apiUrl || !run) return;
+    ticketRef.current = null;
     setSubmitting(true);
     try {
-      const timestamp = Date.now();
-      const hash = await sha256(`${finalValue}${CLIENT_SALT}${timestamp}`);
       const res = await fetch(`${apiUrl}/api/games/submit-score`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           telegramId,
+          ticket: run.ticket,
           score: finalValue,
-          timestamp,
-          hash,
+          events: eventsRef.current,
           gameDurationMs: durationMs,
           mode: selectedMode,
           heightMeters,
@@ -261,14 +282,35 @@ export function PerkyJump({ telegramId, apiUrl, onPointsEarned, mascotSrc = '/pe
     }
   }, [telegramId, apiUrl, selectedMode, heightMeters, coinsCollected, chainDays, chainMultiplier, onPointsEarned]);
 
-  const startGame = useCallback(() => {
-    const first: Platform = { x: CANVAS_W / 2 - 55, y: CANVAS_H - 90, width: 110, height: 14, type: 'normal', dx: 0, broken: false };
-    const platforms: Platform[] = [first];
+  const startGame = useCallback(async () => {
+    // Server issues the level seed + a single-use ticket; offline runs are just not scored
+    let run: RunTicket | null = null;
+    if (telegramId && apiUrl) {
+      setStarting(true);
+      try {
+        const res = await fetch(`${apiUrl}/api/games/perky-jump/start`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ telegramId, mode: selectedMode }),
+        });
+        if (res.ok) run = await res.json() as RunTicket;
+      } catch {
+        // play unscored
+      } finally {
+        setStarting(false);
+      }
+    }
+    ticketRef.current = run;
+    eventsRef.current = [];
+    fragileTouchRef.current = new WeakSet();
 
-    let y = first.y - 85;
-    while (y > -CANVAS_H) {
-      platforms.push(createPlatform(y, 0, 1));
-      y -= 80 + Math.random() * 25;
+    const nextPlatform = createPlatformGenerator(run?.seed ?? Math.floor(Math.random() * 0xffffffff), selectedMode);
+    nextPlatformRef.current = nextPlatform;
+
+    const first = nextPlatform();
+    const platforms: Platform[] = [first];
+    while (platforms[platforms.length - 1].y > -CANVAS_H) {
+      platforms.push(nextPlatform());
     }
 
     stateRef.current = {
@@ -292,7 +334,7 @@ export function PerkyJump({ telegramId, apiUrl, onPointsEarned, mascotSrc = '/pe
     setPointsAwarded(0);
     setLoyaltyBonus(0);
     setPhase('playing');
-  }, []);
+  }, [telegramId, apiUrl, selectedMode]);
 
   const handleGameOver = useCallback((endScore: number, endHeight: number, endCoins: number) => {
     const gs = stateRef.current;
@@ -374,9 +416,6 @@ export function PerkyJump({ telegramId, apiUrl, onPointsEarned, mascotSrc = '/pe
     gs.player.vy += GRAVITY + modeGravityBoost;
     gs.player.y += gs.player.vy;
 
-    const baseScore = Math.floor(gs.maxHeight * 2.2);
-    const difficultyMultiplier = Math.min(1 + baseScore / 4000, 2.25);
-
     for (const p of gs.platforms) {
       if (p.type === 'moving' && !p.broken) {
         const racingBoost = selectedMode === 'racing' ? 1.2 : 1;
@@ -396,6 +435,7 @@ export function PerkyJump({ telegramId, apiUrl, onPointsEarned, mascotSrc = '/pe
         if (prevFeetY <= p.y && feetY >= p.y && right > p.x + 4 && left < p.x + p.width - 4) {
           gs.player.y = p.y - PLAYER_HITBOX.height - PLAYER_HITBOX.offsetY;
           gs.player.vy = BASE_JUMP_VY;
+          eventsRef.current.push([Date.now() - gs.startTime, p.index]);
 
           if (p.type === 'fragile' && !fragileTouchRef.current.has(p)) {
             fragileTouchRef.current.add(p);
@@ -429,10 +469,8 @@ export function PerkyJump({ telegramId, apiUrl, onPointsEarned, mascotSrc = '/pe
     if (newCoins !== coinsCollected) setCoinsCollected(newCoins);
 
     const minY = Math.min(...gs.platforms.map((p) => p.y));
-    if (minY > gs.cameraY - CANVAS_H) {
-      const modeGapFactor = selectedMode === 'timed' ? 1.1 : selectedMode === 'survival' ? 1.12 : 1;
-      const gap = (newLevelCfg.gapMin + Math.random() * (newLevelCfg.gapMax - newLevelCfg.gapMin)) * modeGapFactor * (0.95 + difficultyMultiplier * 0.08);
-      gs.platforms.push(createPlatform(minY - gap, newScore, difficultyMultiplier));
+    if (minY > gs.cameraY - CANVAS_H && nextPlatformRef.current) {
+      gs.platforms.push(nextPlatformRef.current());
     }
 
     gs.platforms = gs.platforms.filter((p) => !p.broken && p.y < gs.cameraY + CANVAS_H + 240);
@@ -468,7 +506,10 @@ export function PerkyJump({ telegramId, apiUrl, onPointsEarned, mascotSrc = '/pe
       if (e.key === 'ArrowRight' || e.key.toLowerCase() === 'd') inputRef.current.right = true;
       if (e.key === 'ArrowUp' || e.key === ' ') {
         const gs = stateRef.current;
-        if (gs && gs.player.vy > -6) gs.player.vy = BASE_JUMP_VY * 0.9;
+        if (gs && !gs.gameOver && gs.player.vy > -6) {
+          gs.player.vy = BASE_JUMP_VY * 0.9;
+          eventsRef.current.push([Date.now() - gs.startTime, -1]);
+        }
       }
     };
     const onKeyUp = (e: KeyboardEvent) => {
@@ -619,8 +660,9 @@ export function PerkyJump({ telegramId, apiUrl, onPointsEarned, mascotSrc = '/pe
             className="w-full px-8 py-3 rounded-2xl font-bold text-white text-lg"
             style={{ background: 'linear-gradient(135deg, #6f3b16, #d4a373)' }}
             onClick={startGame}
+            disabled={starting}
           >
-            ☕ Почати гру
+            {starting ? 'Завантаження…' : '☕ Почати гру'}
           </button>
         </div>
       )}
@@ -0,0 +1,159 @@
+import { useMemo, useState } from 'react';
+import type { ModifierGroup, Product } from './Menu';
+
+export interface CustomizerSelection {
+  variantId?: string;
+  modifierOptionIds: string[];
+  unitPrice: number;
+  summary: string;
+}
+
+interface ProductCustomizerProps {
+  product: Product;
+  theme: {
+    bgColor: string;
+    textColor: string;
+    hintColor: string;
+    buttonColor: string;
+    buttonTextColor: string;
+    secondaryBgColor: string;
+  };
+  onClose: () => void;
+  onAdd: (selection: CustomizerSelection) => void;
+}
+
+function defaultSelection(groups: ModifierGroup[]): Record<string, string[]> {
+  return Object.fromEntries(groups.map(group => [
+    group.id,
+    group.options.filter(option => option.isDefault).slice(0, 1).map(option => option.id),
+  ]));
+}
+
+function groupHint(group: ModifierGroup): string {
+  if (group.selection === 'SINGLE') return group.required ? 'Обов\'язково' : 'Необов\'язково';
+  return group.maxSelected ? `До ${group.maxSelected}` : 'Можна кілька';
+}
+
+export function ProductCustomizer({ product, theme, onClose, onAdd }: ProductCustomizerProps) {
+  const variants = product.variants ?? [];
+  const groups = product.modifierGroups ?? [];
+  const [variantId, setVariantId] = useState<string | undefined>(variants[0]?.id);
+  const [selected, setSelected] = useState<Record<string, string[]>>(() => defaultSelection(groups));
+
+  const toggle = (group: ModifierGroup, optionId: string) => {
+    setSelected(prev => {
+      const current = prev[group.id] ?? [];
+      if (current.includes(optionId)) {
+        // A required single choice can only be switched, not cleared
+        if (group.selection === 'SINGLE' && group.required) return prev;
+        return { ...prev, [group.id]: current.filter(id => id !== optionId) };
+      }
+      if (group.selection === 'SINGLE') return { ...prev, [group.id]: [optionId] };
+      if (group.maxSelected && current.length >= group.maxSelected) return prev;
+      return { ...prev, [group.id]: [...current, optionId] };
+    });
+  };
+
+  const missingGroup = groups.find(group => group.required && (selected[group.id] ?? []).length === 0);
+
+  const { unitPrice, summary } = useMemo(() => {
+    const variant = variants.find(v => v.id === variantId);
+    const options = groups.flatMap(group => group.options.filter(option => (selected[group.id] ?? []).includes(option.id)));
+    return {
+      unitPrice: (variant?.price ?? parseFloat(product.price)) + options.reduce((sum, option) => sum + option.priceDelta, 0),
+      summary: [variant?.name, ...options.map(option => option.name)].filter(Boolean).join(', '),
+    };
+  }, [variants, groups, variantId, selected, product.price]);
+
+  const handleAdd = () => {
+    if (missingGroup) return;
+    onAdd({ variantId, modifierOptionIds: Object.values(selected).flat(), unitPrice, summary });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center" style={{ backgroundColor: 'rgba(0,0,0,0.5)' }}>
+      <div
+        className="w-full max-w-md rounded-t-3xl p-6 max-h-[85vh] overflow-y-auto animate-slide-up"
+        style={{ backgroundColor: theme.bgColor }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold" style={{ color: theme.textColor }}>
+            {product.name}
+          </h2>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-full flex items-center justify-center"
+            style={{ backgroundColor: theme.hintColor + '20', color: theme.hintColor }}
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Sizes */}
+        {variants.length > 0 && (
+          <div className="mb-4">
+            <p className="text-xs mb-2 font-medium" style={{ color: theme.hintColor }}>Розмір</p>
+            <div className="flex gap-2 flex-wrap">
+              {variants.map(variant => (
+                <button
+                  key={variant.id}
+                  onClick={() => setVariantId(variant.id)}
+                  className="px-4 py-2 rounded-xl text-sm font-medium transition-all"
+                  style={{
+                    backgroundColor: variantId === variant.id ? theme.buttonColor : theme.secondaryBgColor,
+                    color: variantId === variant.id ? theme.buttonTextColor : theme.textColor,
+                  }}
+                >
+                  {variant.name} · {variant.price} грн
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Modifier groups */}
+        {groups.map(group => (
+          <div key={group.id} className="mb-4">
+            <p className="text-xs mb-2 font-medium" style={{ color: theme.hintColor }}>
+              {group.name} <span className="font-normal">· {groupHint(group)}</span>
+            </p>
+            <div className="space-y-2">
+              {group.options.map(option => {
+                const active = (selected[group.id] ?? []).includes(option.id);
+                return (
+                  <button
+                    key={option.id}
+                    onClick={() => toggle(group, option.id)}
+                    className="w-full p-3 rounded-xl flex items-center justify-between transition-all"
+                    style={{
+                      backgroundColor: active ? theme.buttonColor + '15' : theme.secondaryBgColor,
+                      border: `2px solid ${active ? theme.buttonColor : 'transparent'}`,
+                    }}
+                  >
+                    <span className="text-sm" style={{ color: theme.textColor }}>
+                      {group.selection === 'SINGLE' ? (active ? '◉' : '○') : (active ? '☑' : '☐')} {option.name}
+                    </span>
+                    {option.priceDelta > 0 && (
+                      <span className="text-sm" style={{ color: theme.hintColor }}>+{option.priceDelta} грн</span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        {/* Add button */}
+        <button
+          onClick={handleAdd}
+          disabled={!!missingGroup}
+          className="w-full py-4 rounded-2xl font-bold text-base transition-all active:scale-[0.98] disabled:opacity-60"
+          style={{ backgroundColor: theme.buttonColor, color: theme.buttonTextColor }}
+        >
+          {missingGroup ? `Оберіть: ${missingGroup.name}` : `Додати — ${unitPrice} грн`}
+        </button>
+      </div>
+    </div>
+  );
+}
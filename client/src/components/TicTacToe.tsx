@@ -3,11 +3,18 @@
  *
  * Modes:
  *  - PvP (Local): two players on the same device
- *  - PvE (vs Перкі): player vs unbeatable minimax AI
+ *  - PvE (vs Перкі): player vs the server AI at a chosen difficulty
  *
- * Game logic runs entirely on the client.
- * After a PvE match the result is submitted to /api/games/submit-score
- * (conceptually; actual TicTacToe scoring uses the Socket.IO multiplayer path).
+ * PvP runs entirely on the client. PvE is a server game: /api/games/create
+ * opens it at the chosen difficulty and every move goes to /api/games/ai-move,
+ * which answers with Перкі's reply and pays the win by difficulty.
+ *
+ * Boards: 3×3, 4×4 or 5×5 with four in a row (BOARD_VARIANTS, mirroring the
+ * server's TTT_VARIANTS); win lines are generated for any size.
+ *
+ * Replays: a finished local game can be stepped through move by move; with
+ * `replayGameId` the move log of an online game is loaded from
+ * /api/games/:id/replay.
  */
 
 import { useState, useEffect, useCallback } from 'react';
@@ -18,6 +25,8 @@ import { useState, useEffect, useCallback } from 'react';
 
 type CellValue = 'X' | 'O' | null;
 type GameMode = 'pvp' | 'pve';
+type AiDifficulty = 'EASY' | 'MEDIUM' | 'HARD' | 'IMPOSSIBLE';
+type BoardVariant = 'CLASSIC' | 'FOUR' | 'GOMOKU_LITE';
 type GameResult = 'X' | 'O' | 'draw' | null;
 
 interface Scores {
@@ -38,197 +47,362 @@ interface Theme {
 interface TicTacToeProps {
   mode?: 'online' | 'offline';
   theme: Theme;
+  apiUrl?: string;
+  /** Required for PvE — the server game belongs to this user */
+  telegramId?: number;
+  /** Open the replay of this server game instead of a new game */
+  replayGameId?: string;
+}
+
+interface ReplayMove {
+  moveNumber: number;
+  symbol: 'X' | 'O';
+  row: number;
+  col: number;
+  createdAt: string;
+}
+
+interface BoardRules {
+  size: number;
+  /** Marks in a row that win */
+  winLength: number;
 }
 
-const WIN_LINES = [
-  [0, 1, 2], [3, 4, 5], [6, 7, 8], // rows
-  [0, 3, 6], [1, 4, 7], [2, 5, 8], // cols
-  [0, 4, 8], [2, 4, 6],             // diagonals
-] as const;
+interface Replay {
+  moves: ReplayMove[];
+  rules: BoardRules;
+  xLabel: string;
+  oLabel: string;
+}
+
+const REPLAY_STEP_MS = 800;
+
+/** Mirrors AI_LEVELS on the server */
+const AI_DIFFICULTIES: { id: AiDifficulty; label: string; points: number }[] = [
+  { id: 'EASY', label: 'Легко', points: 1 },
+  { id: 'MEDIUM', label: 'Середньо', points: 2 },
+  { id: 'HARD', label: 'Складно', points: 3 },
+  { id: 'IMPOSSIBLE', label: 'Неможливо', points: 5 },
+];
+
+/** Mirrors TTT_VARIANTS on the server */
+const BOARD_VARIANTS: ({ id: BoardVariant; label: string } & BoardRules)[] = [
+  { id: 'CLASSIC', label: '3×3', size: 3, winLength: 3 },
+  { id: 'FOUR', label: '4×4', size: 4, winLength: 4 },
+  { id: 'GOMOKU_LITE', label: '5×5 · 4 в ряд', size: 5, winLength: 4 },
+];
+
+const CLASSIC_RULES: BoardRules = { size: 3, winLength: 3 };
 
 // ---------------------------------------------------------------------------
 // Pure game logic (no React deps)
 // ---------------------------------------------------------------------------
 
-function checkWinner(board: CellValue[]): CellValue {
-  for (const [a, b, c] of WIN_LINES) {
-    if (board[a] && board[a] === board[b] && board[a] === board[c]) {
-      return board[a];
+const lineCache = new Map<string, number[][]>();
+
+/** Cell indices of every straight run of `winLength` on a size × size board */
+function winLines({ size, winLength }: BoardRules): number[][] {
+  const key = `${size}:${winLength}`;
+  const cached = lineCache.get(key);
+  if (cached) return cached;
+
+  const lines: number[][] = [];
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      for (const [dr, dc] of [[0, 1], [1, 0], [1, 1], [1, -1]]) {
+        const endR = r + dr * (winLength - 1);
+        const endC = c + dc * (winLength - 1);
+        if (endR < 0 || endR >= size || endC < 0 || endC >= size) continue;
+        lines.push(Array.from({ length: winLength }, (_, i) => (r + dr * i) * size + c + dc * i));
+      }
     }
   }
-  return null;
+  lineCache.set(key, lines);
+  return lines;
 }
 
-function getWinningLine(board: CellValue[]): readonly [number, number, number] | null {
-  for (const line of WIN_LINES) {
-    const [a, b, c] = line;
-    if (board[a] && board[a] === board[b] && board[a] === board[c]) return line;
+function getWinningLine(board: CellValue[], rules: BoardRules): number[] | null {
+  for (const line of winLines(rules)) {
+    const first = board[line[0]];
+    if (first && line.every((i) => board[i] === first)) return line;
   }
   return null;
 }
 
+function checkWinner(board: CellValue[], rules: BoardRules): CellValue {
+  const line = getWinningLine(board, rules);
+  return line ? board[line[0]] : null;
+}
+
+/** Tailwind can't build grid-cols-N at runtime */
+function gridStyle(size: number) {
+  return { gridTemplateColumns: `repeat(${size}, minmax(0, 1fr))` };
+}
+
 function isBoardFull(board: CellValue[]): boolean {
   return board.every((c) => c !== null);
 }
 
-/**
- * Minimax with alpha-beta pruning.
- * AI plays as 'O', human plays as 'X'.
- * Returns a score: positive = AI advantage, negative = human advantage.
- */
-function minimax(
-  board: CellValue[],
-  depth: number,
-  isMaximizing: boolean,
-  alpha: number,
-  beta: number,
-): number {
-  const winner = checkWinner(board);
-  if (winner === 'O') return 10 - depth;  // AI wins (prefer faster wins)
-  if (winner === 'X') return depth - 10;  // Human wins
-  if (isBoardFull(board)) return 0;       // Draw
-
-  if (isMaximizing) {
-    let best = -Infinity;
-    for (let i = 0; i < 9; i++) {
-      if (board[i] === null) {
-        board[i] = 'O';
-        best = Math.max(best, minimax(board, depth + 1, false, alpha, beta));
-        board[i] = null;
-        alpha = Math.max(alpha, best);
-        if (beta <= alpha) break; // β cut-off
-      }
-    }
-    return best;
-  } else {
-    let best = Infinity;
-    for (let i = 0; i < 9; i++) {
-      if (board[i] === null) {
-        board[i] = 'X';
-        best = Math.min(best, minimax(board, depth + 1, true, alpha, beta));
-        board[i] = null;
-        beta = Math.min(beta, best);
-        if (beta <= alpha) break; // α cut-off
-      }
-    }
-    return best;
-  }
+// ---------------------------------------------------------------------------
+// Replay viewer
+// ---------------------------------------------------------------------------
+
+function boardAfter(moves: ReplayMove[], step: number, size: number): CellValue[] {
+  const board: CellValue[] = Array(size * size).fill(null);
+  for (const m of moves.slice(0, step)) board[m.row * size + m.col] = m.symbol;
+  return board;
 }
 
-/**
- * Return the best move index for the AI ('O').
- * Unbeatable — will always win or draw.
- */
-function getBestAiMove(board: CellValue[]): number {
-  let bestScore = -Infinity;
-  let bestMove = -1;
-  for (let i = 0; i < 9; i++) {
-    if (board[i] === null) {
-      board[i] = 'O';
-      const score = minimax(board, 0, false, -Infinity, Infinity);
-      board[i] = null;
-      if (score > bestScore) {
-        bestScore = score;
-        bestMove = i;
-      }
-    }
-  }
-  return bestMove;
+function ReplayViewer({ replay, theme, onClose }: { replay: Replay; theme: Theme; onClose: () => void }) {
+  const total = replay.moves.length;
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(true);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= total) { setPlaying(false); return; }
+    const timer = setTimeout(() => setStep((s) => s + 1), REPLAY_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [playing, step, total]);
+
+  const { size } = replay.rules;
+  const board = boardAfter(replay.moves, step, size);
+  const current = step > 0 ? replay.moves[step - 1] : null;
+  const winLine = getWinningLine(board, replay.rules);
+
+  const goTo = (next: number) => { setPlaying(false); setStep(Math.max(0, Math.min(total, next))); };
+
+  const controlStyle = { backgroundColor: theme.bgColor, color: theme.textColor };
+
+  return (
+    <div className="rounded-2xl p-4" style={{ backgroundColor: theme.secondaryBgColor }}>
+      <div className="flex justify-between text-xs mb-3" style={{ color: theme.hintColor }}>
+        <span style={{ color: '#667eea' }}>X — {replay.xLabel}</span>
+        <span style={{ color: '#f59e0b' }}>O — {replay.oLabel}</span>
+      </div>
+
+      <p className="text-center text-sm font-medium mb-4" style={{ color: theme.textColor }}>
+        {current
+          ? `Хід ${step}/${total}: ${current.symbol === 'X' ? replay.xLabel : replay.oLabel} (${current.symbol}) · ${new Date(current.createdAt).toLocaleTimeString('uk-UA')}`
+          : `Повтор · ${total} ходів`}
+      </p>
+
+      <div className="grid gap-2 w-full max-w-[288px] mx-auto" style={gridStyle(size)}>
+        {board.map((cell, i) => {
+          const isLast = current !== null && current.row * size + current.col === i;
+          const inLine = winLine !== null && winLine.includes(i);
+          return (
+            <div
+              key={i}
+              className={`aspect-square w-full rounded-xl ${size > 3 ? 'text-xl' : 'text-3xl'} font-bold flex items-center justify-center`}
+              style={{
+                backgroundColor: inLine ? `${theme.buttonColor}40` : theme.bgColor,
+                color: cell === 'X' ? '#667eea' : cell === 'O' ? '#f59e0b' : theme.textColor,
+                border: isLast ? `2px solid ${theme.buttonColor}` : `2px solid ${theme.hintColor}25`,
+              }}
+            >
+              {cell ?? ''}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2 justify-center mt-5">
+        <button className="px-3 py-2 rounded-xl text-sm" style={controlStyle} onClick={() => goTo(0)} disabled={step === 0}>⏮</button>
+        <button className="px-3 py-2 rounded-xl text-sm" style={controlStyle} onClick={() => goTo(step - 1)} disabled={step === 0}>◀</button>
+        <button
+          className="px-4 py-2 rounded-xl text-sm font-medium"
+          style={{ backgroundColor: theme.buttonColor, color: theme.buttonTextColor }}
+          onClick={() => { if (step >= total) setStep(0); setPlaying((p) => !p); }}
+        >
+          {playing ? '⏸' : '▶'}
+        </button>
+        <button className="px-3 py-2 rounded-xl text-sm" style={controlStyle} onClick={() => goTo(step + 1)} disabled={step >= total}>▶</button>
+        <button className="px-3 py-2 rounded-xl text-sm" style={controlStyle} onClick={() => goTo(total)} disabled={step >= total}>⏭</button>
+      </div>
+
+      <button
+        className="mt-4 w-full py-3 rounded-xl font-medium transition-all active:scale-[0.98]"
+        style={{ backgroundColor: theme.bgColor, color: theme.textColor }}
+        onClick={onClose}
+      >
+        Закрити повтор
+      </button>
+    </div>
+  );
 }
 
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
 
-export function TicTacToe({ theme, mode = 'online' }: TicTacToeProps) {
+export function TicTacToe({ theme, mode = 'online', apiUrl, telegramId, replayGameId }: TicTacToeProps) {
   const [gameMode, setGameMode] = useState<GameMode>('pve');
+  const [variant, setVariant] = useState<BoardVariant>('CLASSIC');
+  const rules = BOARD_VARIANTS.find((v) => v.id === variant) ?? BOARD_VARIANTS[0];
+  const { size } = rules;
   const [board, setBoard] = useState<CellValue[]>(Array(9).fill(null));
   const [turn, setTurn] = useState<'X' | 'O'>('X');
   const [result, setResult] = useState<GameResult>(null);
   const [scores, setScores] = useState<Scores>({ player1: 0, player2: 0, draws: 0 });
   const [aiThinking, setAiThinking] = useState(false);
-  const [winLine, setWinLine] = useState<readonly [number, number, number] | null>(null);
+  const [winLine, setWinLine] = useState<number[] | null>(null);
+  const [moves, setMoves] = useState<ReplayMove[]>([]);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [difficulty, setDifficulty] = useState<AiDifficulty>('MEDIUM');
+  const [aiGameId, setAiGameId] = useState<string | null>(null);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [pointsWon, setPointsWon] = useState(0);
 
   // Sync with external mode prop
   useEffect(() => { setGameMode('pve'); }, [mode]);
 
-  const resetGame = useCallback(() => {
-    setBoard(Array(9).fill(null));
+  // Load an online game's move log
+  useEffect(() => {
+    if (!replayGameId || !apiUrl) return;
+    let cancelled = false;
+    fetch(`${apiUrl}/api/games/${replayGameId}/replay`)
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(String(res.status)))))
+      .then((data: {
+        moves: ReplayMove[];
+        player1: { firstName: string | null } | null;
+        player2: { firstName: string | null } | null;
+        boardSize?: number;
+        winLength?: number;
+      }) => {
+        if (cancelled) return;
+        setReplay({
+          moves: data.moves,
+          rules: data.boardSize && data.winLength
+            ? { size: data.boardSize, winLength: data.winLength }
+            : CLASSIC_RULES,
+          xLabel: data.player1?.firstName ?? 'Гравець 1',
+          oLabel: data.player2?.firstName ?? 'Перкі',
+        });
+      })
+      .catch(() => { if (!cancelled) setReplayError('Не вдалося завантажити повтор гри'); });
+    return () => { cancelled = true; };
+  }, [replayGameId, apiUrl]);
+
+  const logMove = useCallback((index: number, symbol: 'X' | 'O') => {
+    setMoves((prev) => [...prev, {
+      moveNumber: prev.length + 1,
+      symbol,
+      row: Math.floor(index / size),
+      col: index % size,
+      createdAt: new Date().toISOString(),
+    }]);
+  }, [size]);
+
+  const resetGame = useCallback((boardSize: number = size) => {
+    setBoard(Array(boardSize * boardSize).fill(null));
     setTurn('X');
     setResult(null);
     setWinLine(null);
     setAiThinking(false);
-  }, []);
+    setMoves([]);
+    setAiGameId(null);
+    setAiError(null);
+    setPointsWon(0);
+  }, [size]);
+
+  /** Show `next` and settle the game if it's over; returns true when it is */
+  const applyBoard = useCallback((next: CellValue[]): boolean => {
+    const winner = checkWinner(next, rules);
+    const full = isBoardFull(next);
+
+    setBoard(next);
+    setWinLine(getWinningLine(next, rules));
+
+    if (winner) {
+      setResult(winner);
+      setScores((prev) => ({
+        ...prev,
+        player1: winner === 'X' ? prev.player1 + 1 : prev.player1,
+        player2: winner === 'O' ? prev.player2 + 1 : prev.player2,
+      }));
+      return true;
+    }
+    if (full) {
+      setResult('draw');
+      setScores((prev) => ({ ...prev, draws: prev.draws + 1 }));
+      return true;
+    }
+    return false;
+  }, [rules]);
+
+  // PvE: the server records the player's move and answers with Перкі's
+  const playVsAi = useCallback(async (index: number) => {
+    if (!apiUrl || !telegramId) {
+      setAiError('Потрібен Telegram акаунт, щоб грати з Перкі');
+      return;
+    }
 
-  // AI makes its move after a short "thinking" delay
-  const doAiMove = useCallback((currentBoard: CellValue[]) => {
+    const previous = board;
+    const optimistic = [...board];
+    optimistic[index] = 'X';
+    setBoard(optimistic);
     setAiThinking(true);
-    setTimeout(() => {
-      const aiIdx = getBestAiMove(currentBoard);
-      if (aiIdx === -1) { setAiThinking(false); return; }
-
-      const next = [...currentBoard];
-      next[aiIdx] = 'O';
-
-      const winner = checkWinner(next);
-      const line = getWinningLine(next);
-      const full = isBoardFull(next);
-
-      setBoard(next);
-      setWinLine(line);
-
-      if (winner) {
-        setResult(winner);
-        setScores((prev) => ({
-          ...prev,
-          player1: winner === 'X' ? prev.player1 + 1 : prev.player1,
-          player2: winner === 'O' ? prev.player2 + 1 : prev.player2,
-        }));
-      } else if (full) {
-        setResult('draw');
-        setScores((prev) => ({ ...prev, draws: prev.draws + 1 }));
-      } else {
-        setTurn('X');
+    setAiError(null);
+
+    try {
+      let gameId = aiGameId;
+      if (!gameId) {
+        const res = await fetch(`${apiUrl}/api/games/create`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ telegramId: String(telegramId), mode: 'ai', difficulty, variant }),
+        });
+        if (!res.ok) throw new Error(`create ${res.status}`);
+        gameId = ((await res.json()) as { game: { id: string } }).game.id;
+        setAiGameId(gameId);
       }
+
+      const res = await fetch(`${apiUrl}/api/games/ai-move`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          gameId,
+          telegramId: String(telegramId),
+          move: { row: Math.floor(index / size), col: index % size },
+        }),
+      });
+      if (!res.ok) throw new Error(`ai-move ${res.status}`);
+      const data = (await res.json()) as {
+        move: { row: number; col: number } | null;
+        board: CellValue[][];
+        pointsAwarded: number;
+      };
+
+      logMove(index, 'X');
+      if (data.move) logMove(data.move.row * size + data.move.col, 'O');
+      setPointsWon(data.pointsAwarded);
+      applyBoard(data.board.flat());
+    } catch (err) {
+      console.error('[TicTacToe] AI move error:', err);
+      setBoard(previous);
+      setAiError('Перкі не відповідає — спробуй ще раз');
+    } finally {
       setAiThinking(false);
-    }, 450); // brief "thinking" pause for UX
-  }, []);
+    }
+  }, [apiUrl, telegramId, board, size, aiGameId, difficulty, variant, logMove, applyBoard]);
 
   const handleCellClick = useCallback(
     (index: number) => {
       if (result || board[index] !== null) return;
-      if (gameMode === 'pve' && aiThinking) return;
-      if (gameMode === 'pve' && turn === 'O') return; // AI's turn
+      if (gameMode === 'pve') {
+        if (!aiThinking) playVsAi(index);
+        return;
+      }
 
       const next = [...board];
       next[index] = turn;
+      logMove(index, turn);
 
-      const winner = checkWinner(next);
-      const line = getWinningLine(next);
-      const full = isBoardFull(next);
-
-      setBoard(next);
-      setWinLine(line);
-
-      if (winner) {
-        setResult(winner);
-        setScores((prev) => ({
-          ...prev,
-          player1: winner === 'X' ? prev.player1 + 1 : prev.player1,
-          player2: winner === 'O' ? prev.player2 + 1 : prev.player2,
-        }));
-      } else if (full) {
-        setResult('draw');
-        setScores((prev) => ({ ...prev, draws: prev.draws + 1 }));
-      } else {
-        const nextTurn: 'X' | 'O' = turn === 'X' ? 'O' : 'X';
-        setTurn(nextTurn);
-        if (gameMode === 'pve' && nextTurn === 'O') {
-          doAiMove(next);
-        }
-      }
+      if (!applyBoard(next)) setTurn(turn === 'X' ? 'O' : 'X');
     },
-    [board, turn, result, gameMode, aiThinking, doAiMove],
+    [board, turn, result, gameMode, aiThinking, playVsAi, logMove, applyBoard],
   );
 
   // Status line
@@ -236,7 +410,8 @@ export function TicTacToe({ theme, mode = 'online' }: TicTacToeProps) {
     if (result === 'draw') return 'Нічия! 🤝';
     if (result) {
       if (gameMode === 'pve') {
-        return result === 'X' ? 'Ти переміг! 🎉' : 'Перкі переміг! 🤖☕';
+        if (result === 'O') return 'Перкі переміг! 🤖☕';
+        return pointsWon > 0 ? `Ти переміг! 🎉 +${pointsWon} балів` : 'Ти переміг! 🎉';
       }
       return `${result === 'X' ? 'Гравець 1' : 'Гравець 2'} переміг! 🎉`;
     }
@@ -254,7 +429,7 @@ export function TicTacToe({ theme, mode = 'online' }: TicTacToeProps) {
   };
 
   const isCellHighlighted = (index: number) =>
-    winLine !== null && winLine.includes(index as 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8);
+    winLine !== null && winLine.includes(index);
 
   const p2Label = gameMode === 'pve' ? 'Перкі' : 'Гравець 2';
 
@@ -289,7 +464,63 @@ export function TicTacToe({ theme, mode = 'online' }: TicTacToeProps) {
         ))}
       </div>
 
-      {/* Score bar */}
+      {/* Board variant — fixed once the game has started */}
+      {!replay && (
+        <div className="flex gap-2 justify-center">
+          {BOARD_VARIANTS.map((v) => (
+            <button
+              key={v.id}
+              onClick={() => { setVariant(v.id); resetGame(v.size); }}
+              disabled={moves.length > 0 && !result}
+              className="px-3 py-1 rounded-xl text-xs font-medium transition-all disabled:opacity-50"
+              style={{
+                backgroundColor: variant === v.id ? theme.buttonColor : theme.secondaryBgColor,
+                color: variant === v.id ? theme.buttonTextColor : theme.textColor,
+              }}
+            >
+              {v.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* AI difficulty — fixed once the game has started */}
+      {gameMode === 'pve' && !replay && (
+        <div className="grid grid-cols-4 gap-2">
+          {AI_DIFFICULTIES.map((d) => (
+            <button
+              key={d.id}
+              onClick={() => { setDifficulty(d.id); resetGame(); }}
+              disabled={moves.length > 0 && !result}
+              className="px-2 py-2 rounded-xl text-xs font-medium transition-all disabled:opacity-50"
+              style={{
+                backgroundColor: difficulty === d.id ? theme.buttonColor : theme.secondaryBgColor,
+                color: difficulty === d.id ? theme.buttonTextColor : theme.textColor,
+              }}
+            >
+              <div>{d.label}</div>
+              <div style={{ opacity: 0.7 }}>+{d.points}</div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {aiError && (
+        <p className="text-center text-sm" style={{ color: '#ef4444' }}>
+          {aiError}
+        </p>
+      )}
+
+      {replayError && (
+        <p className="text-center text-sm" style={{ color: '#ef4444' }}>
+          {replayError}
+        </p>
+      )}
+
+      {replay ? (
+        <ReplayViewer replay={replay} theme={theme} onClose={() => setReplay(null)} />
+      ) : (
+      /* Score bar */
       <div
         className="rounded-2xl p-4"
         style={{ backgroundColor: theme.secondaryBgColor }}
@@ -328,13 +559,13 @@ export function TicTacToe({ theme, mode = 'online' }: TicTacToeProps) {
         </p>
 
         {/* Board */}
-        <div className="grid grid-cols-3 gap-2 w-full max-w-[288px] mx-auto">
+        <div className="grid gap-2 w-full max-w-[288px] mx-auto" style={gridStyle(size)}>
           {board.map((cell, i) => (
             <button
               key={i}
-              className="aspect-square w-full rounded-xl text-3xl font-bold flex items-center justify-center transition-all active:scale-95 disabled:cursor-default"
+              className={`aspect-square w-full rounded-xl ${size > 3 ? 'text-xl' : 'text-3xl'} font-bold flex items-center justify-center transition-all active:scale-95 disabled:cursor-default`}
               onClick={() => handleCellClick(i)}
-              disabled={!!result || cell !== null || aiThinking || (gameMode === 'pve' && turn === 'O')}
+              disabled={!!result || cell !== null || aiThinking}
               style={{
                 backgroundColor: isCellHighlighted(i)
                   ? `${theme.buttonColor}40`
@@ -351,20 +582,32 @@ export function TicTacToe({ theme, mode = 'online' }: TicTacToeProps) {
           ))}
         </div>
 
+        {/* Replay of the finished game */}
+        {result && moves.length > 0 && (
+          <button
+            className="mt-5 w-full py-3 rounded-xl font-medium transition-all active:scale-[0.98]"
+            style={{ backgroundColor: theme.bgColor, color: theme.textColor }}
+            onClick={() => setReplay({ moves, rules, xLabel: gameMode === 'pve' ? 'Ти' : 'Гравець 1', oLabel: p2Label })}
+          >
+            ▶ Переглянути повтор
+          </button>
+        )}
+
         {/* New game button */}
         <button
-          className="mt-5 w-full py-3 rounded-xl font-medium transition-all active:scale-[0.98]"
+          className={`${result && moves.length > 0 ? 'mt-3' : 'mt-5'} w-full py-3 rounded-xl font-medium transition-all active:scale-[0.98]`}
           style={{ backgroundColor: theme.buttonColor, color: theme.buttonTextColor }}
-          onClick={resetGame}
+          onClick={() => resetGame()}
         >
           Нова гра
         </button>
       </div>
+      )}
 
       {/* PvE hint */}
       {gameMode === 'pve' && (
         <p className="text-center text-xs" style={{ color: theme.hintColor }}>
-          ☕ Перкі використовує мінімакс — перемогти неможливо!
+          ☕ Чим складніше — тим більше балів за перемогу (до 10 на день)
         </p>
       )}
     </div>
@@ -0,0 +1,236 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+interface TournamentsProps {
+  theme: {
+    bgColor: string;
+    textColor: string;
+    hintColor: string;
+    buttonColor: string;
+    buttonTextColor: string;
+    secondaryBgColor: string;
+  };
+  apiUrl?: string;
+  telegramId?: number;
+}
+
+type TournamentStatus = 'REGISTRATION' | 'RUNNING' | 'FINISHED' | 'CANCELLED';
+
+interface Tournament {
+  id: string;
+  title: string;
+  bracketSize: number;
+  registrationClosesAt: string;
+  status: TournamentStatus;
+  winnerPoints: number;
+  runnerUpPoints: number;
+  winnerId: string | null;
+  location: { id: string; name: string } | null;
+  players: number;
+  registered?: boolean;
+}
+
+interface BracketPlayer {
+  id: string;
+  name: string;
+}
+
+interface BracketMatch {
+  slot: number;
+  gameId: string | null;
+  status: string;
+  player1: BracketPlayer | null;
+  player2: BracketPlayer | null;
+  winnerId: string | null;
+}
+
+interface Bracket {
+  tournament: Tournament;
+  rounds: { round: number; name: string; matches: BracketMatch[] }[];
+}
+
+const STATUS_LABEL: Record<TournamentStatus, string> = {
+  REGISTRATION: 'Реєстрація',
+  RUNNING: 'Триває',
+  FINISHED: 'Завершено',
+  CANCELLED: 'Скасовано',
+};
+
+function formatClosesAt(iso: string): string {
+  return new Date(iso).toLocaleString('uk-UA', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function Tournaments({ theme, apiUrl, telegramId }: TournamentsProps) {
+  const base = useMemo(() => `${(apiUrl || '').replace(/\/+$/, '')}/api/games/tournaments`, [apiUrl]);
+  const viewer = telegramId ? `?telegramId=${telegramId}` : '';
+
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [bracket, setBracket] = useState<Bracket | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadTournaments = useCallback(async () => {
+    try {
+      const res = await fetch(`${base}${viewer}`);
+      if (!res.ok) throw new Error('Failed to fetch tournaments');
+      const data = (await res.json()) as { tournaments?: Tournament[] };
+      setTournaments(data.tournaments || []);
+    } catch (err) {
+      console.error('[Tournaments] List fetch error:', err);
+    }
+  }, [base, viewer]);
+
+  useEffect(() => {
+    loadTournaments();
+  }, [loadTournaments]);
+
+  const openBracket = async (id: string) => {
+    try {
+      const res = await fetch(`${base}/${id}${viewer}`);
+      if (!res.ok) throw new Error('Failed to fetch bracket');
+      setBracket((await res.json()) as Bracket);
+    } catch (err) {
+      console.error('[Tournaments] Bracket fetch error:', err);
+      setMessage('Не вдалося завантажити сітку');
+    }
+  };
+
+  const toggleRegistration = async (t: Tournament) => {
+    if (!telegramId) return;
+    setBusyId(t.id);
+    setMessage(null);
+    try {
+      const res = await fetch(`${base}/${t.id}/${t.registered ? 'leave' : 'register'}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ telegramId: String(telegramId) }),
+      });
+      const data = (await res.json()) as { message?: string };
+      if (!res.ok) {
+        setMessage(data.message || 'Не вдалося оновити реєстрацію');
+        return;
+      }
+      await loadTournaments();
+    } catch (err) {
+      console.error('[Tournaments] Registration error:', err);
+      setMessage('Не вдалося оновити реєстрацію');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (tournaments.length === 0) return null;
+
+  if (bracket) {
+    return (
+      <div className="p-4 rounded-2xl" style={{ backgroundColor: theme.bgColor }}>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-bold" style={{ color: theme.textColor }}>
+            🏆 {bracket.tournament.title}
+          </h2>
+          <button
+            onClick={() => setBracket(null)}
+            className="px-3 py-1 rounded-lg text-sm font-medium"
+            style={{ backgroundColor: theme.secondaryBgColor, color: theme.textColor }}
+          >
+            Назад
+          </button>
+        </div>
+
+        {bracket.rounds.length === 0 ? (
+          <p className="text-sm" style={{ color: theme.hintColor }}>
+            Сітку буде сформовано після закриття реєстрації.
+          </p>
+        ) : (
+          <div className="flex gap-3 overflow-x-auto pb-2">
+            {bracket.rounds.map((round) => (
+              <div key={round.round} className="flex flex-col justify-around gap-2 min-w-[140px]">
+                <p className="text-xs font-semibold text-center" style={{ color: theme.hintColor }}>
+                  {round.name}
+                </p>
+                {round.matches.map((match) => (
+                  <div
+                    key={match.slot}
+                    className="rounded-lg px-2 py-1 text-xs"
+                    style={{ backgroundColor: theme.secondaryBgColor, color: theme.textColor }}
+                  >
+                    {[match.player1, match.player2].map((p, i) => (
+                      <div
+                        key={i}
+                        className="truncate"
+                        style={{
+                          fontWeight: p && p.id === match.winnerId ? 700 : 400,
+                          opacity: match.winnerId && p?.id !== match.winnerId ? 0.5 : 1,
+                        }}
+                      >
+                        {p?.name ?? (match.status === 'BYE' ? '—' : '…')}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 rounded-2xl" style={{ backgroundColor: theme.bgColor }}>
+      <h2 className="text-lg font-bold mb-2" style={{ color: theme.textColor }}>
+        🏆 Турніри
+      </h2>
+      {message && (
+        <p className="text-sm mb-2" style={{ color: theme.hintColor }}>
+          {message}
+        </p>
+      )}
+      <div className="space-y-2">
+        {tournaments.map((t) => (
+          <div key={t.id} className="rounded-xl p-3" style={{ backgroundColor: theme.secondaryBgColor }}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium truncate" style={{ color: theme.textColor }}>
+                {t.title}
+              </span>
+              <span className="text-xs whitespace-nowrap" style={{ color: theme.hintColor }}>
+                {STATUS_LABEL[t.status]}
+              </span>
+            </div>
+            <p className="text-xs mt-1" style={{ color: theme.hintColor }}>
+              {t.players}/{t.bracketSize} гравців · 🥇 {t.winnerPoints} / 🥈 {t.runnerUpPoints} балів
+              {t.location ? ` · ${t.location.name}` : ''}
+              {t.status === 'REGISTRATION' ? ` · до ${formatClosesAt(t.registrationClosesAt)}` : ''}
+            </p>
+            <div className="flex gap-2 mt-2">
+              {t.status === 'REGISTRATION' && telegramId && (
+                <button
+                  onClick={() => toggleRegistration(t)}
+                  disabled={busyId === t.id}
+                  className="flex-1 rounded-lg px-3 py-1 text-sm font-medium disabled:opacity-50"
+                  style={{
+                    backgroundColor: t.registered ? theme.bgColor : theme.buttonColor,
+                    color: t.registered ? theme.textColor : theme.buttonTextColor,
+                  }}
+                >
+                  {t.registered ? 'Скасувати участь' : 'Зареєструватися'}
+                </button>
+              )}
+              <button
+                onClick={() => openBracket(t.id)}
+                className="flex-1 rounded-lg px-3 py-1 text-sm font-medium"
+                style={{ backgroundColor: theme.bgColor, color: theme.textColor }}
+              >
+                Сітка
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
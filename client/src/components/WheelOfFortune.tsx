@@ -1,8 +1,33 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import axios from 'axios';
 import WebApp from '@twa-dev/sdk';
 
+type PrizeType = 'POINTS' | 'FREE_ITEM' | 'DISCOUNT' | 'NOTHING';
+
+export interface SpinOutcome {
+  reward: number;
+  newBalance: number;
+  prizeId: string | null;
+  prizeType: PrizeType;
+  label: string;
+  code?: string;
+  codeExpiresAt?: string;
+  /** Prize table the server drew from; the wheel is redrawn with it before spinning */
+  segments?: WheelSegment[];
+}
+
+export interface WheelSegment {
+  id: string | null;
+  label: string;
+  type: PrizeType;
+  points: number;
+  color: string;
+}
+
 interface WheelOfFortuneProps {
-  onSpin: (lat?: number, lng?: number) => Promise<{ reward: number; newBalance: number } | { error: string; message: string } | null>;
+  apiUrl: string;
+  locationId?: string;
+  onSpin: (lat?: number, lng?: number) => Promise<SpinOutcome | { error: string; message: string } | null>;
   canSpin: boolean;
   nextSpinAt?: string | null;
   theme: {
@@ -15,25 +40,75 @@ interface WheelOfFortuneProps {
   };
 }
 
-// Wheel segments with colors
-const SEGMENTS = [
-  { value: 5, color: '#FFD700', label: '5' },
-  { value: 10, color: '#FFA500', label: '10' },
-  { value: 15, color: '#FF6347', label: '15' },
-  { value: 5, color: '#FFD700', label: '5' },
-  { value: 10, color: '#FFA500', label: '10' },
-  { value: 15, color: '#FF6347', label: '15' },
-  { value: 5, color: '#FFD700', label: '5' },
-  { value: 10, color: '#FFA500', label: '10' },
+// Shown until /api/loyalty/wheel-config responds (mirrors the server's built-in table)
+const FALLBACK_SEGMENTS: WheelSegment[] = [
+  { id: null, label: '5 балів', type: 'POINTS', points: 5, color: '#FFD700' },
+  { id: null, label: '10 балів', type: 'POINTS', points: 10, color: '#FFA500' },
+  { id: null, label: '15 балів', type: 'POINTS', points: 15, color: '#FF6347' },
+  { id: null, label: 'Спробуй завтра', type: 'NOTHING', points: 0, color: '#9E9E9E' },
 ];
 
-export function WheelOfFortune({ onSpin, canSpin, nextSpinAt, theme }: WheelOfFortuneProps) {
+// The skew-based wedge rendering needs at least 4 segments; 8 looks best
+const MIN_VISUAL_SEGMENTS = 8;
+
+// Repeat the prize list until the wheel has enough wedges to draw
+function toVisualSegments(segments: WheelSegment[]): WheelSegment[] {
+  const repeated: WheelSegment[] = [];
+  while (repeated.length < MIN_VISUAL_SEGMENTS) repeated.push(...segments);
+  return repeated;
+}
+
+function segmentText(segment: WheelSegment): string {
+  if (segment.type === 'POINTS') return String(segment.points);
+  if (segment.type === 'NOTHING') return '✖';
+  return '🎁';
+}
+
+export function WheelOfFortune({ apiUrl, locationId, onSpin, canSpin, nextSpinAt, theme }: WheelOfFortuneProps) {
   const [isSpinning, setIsSpinning] = useState(false);
   const [rotation, setRotation] = useState(0);
-  const [result, setResult] = useState<number | null>(null);
+  const [result, setResult] = useState<SpinOutcome | null>(null);
   const [showResult, setShowResult] = useState(false);
   const [locationError, setLocationError] = useState<string | null>(null);
   const [isGettingLocation, setIsGettingLocation] = useState(false);
+  const [segments, setSegments] = useState<WheelSegment[]>(FALLBACK_SEGMENTS);
+
+  useEffect(() => {
+    axios
+      .get<{ segments: WheelSegment[] }>(`${apiUrl}/api/loyalty/wheel-config`, {
+        params: locationId ? { locationId } : undefined,
+      })
+      .then(({ data }) => {
+        if (data.segments?.length) setSegments(data.segments);
+      })
+      .catch(() => {});
+  }, [apiUrl, locationId]);
+
+  const visualSegments = useMemo(() => toVisualSegments(segments), [segments]);
+
+  const segmentAngle = 360 / visualSegments.length;
+
+  /**
+   * Extra rotation that brings a wedge of the won prize under the top pointer:
+   * matched by prize id, then by label. Null when `wedges` has no such prize.
+   */
+  const rotationToPrize = (outcome: SpinOutcome, wedges: WheelSegment[]): number | null => {
+    const indexes = (match: (segment: WheelSegment) => boolean) =>
+      wedges.flatMap((segment, index) => (match(segment) ? [index] : []));
+    const byId = outcome.prizeId ? indexes(segment => segment.id === outcome.prizeId) : [];
+    const pool = byId.length ? byId : indexes(segment => segment.label === outcome.label);
+    if (!pool.length) return null;
+    const index = pool[Math.floor(Math.random() * pool.length)];
+    const angle = 360 / wedges.length;
+
+    // Wedge i is centred at (i - 0.5) * angle clockwise from the top
+    const targetMod = ((((0.5 - index) * angle) % 360) + 360) % 360;
+    const currentMod = ((rotation % 360) + 360) % 360;
+    const jitter = (Math.random() - 0.5) * angle * 0.6;
+    let delta = targetMod - currentMod + jitter;
+    if (delta < 0) delta += 360;
+    return 360 * 5 + delta;
+  };
 
 
   const requestLocation = (): Promise<{ lat: number; lng: number }> => {
@@ -120,22 +195,36 @@ export function WheelOfFortune({ onSpin, canSpin, nextSpinAt, theme }: WheelOfFo
 
     setIsSpinning(true);
 
-    // Start spinning animation
-    const spinDegrees = 360 * 5 + Math.random() * 360;
-    setRotation(prev => prev + spinDegrees);
-
-    // Call API with or without coordinates
+    // Call API with or without coordinates — the server decides the prize
     const spinResult = await onSpin(location?.lat, location?.lng);
 
+    if (!spinResult || 'error' in spinResult) {
+      setIsSpinning(false);
+      if (spinResult) setLocationError(spinResult.message);
+      return;
+    }
+
+    // The spin may have used another location's table than the loaded config — draw that one
+    const drawn = spinResult.segments?.length ? spinResult.segments : segments;
+    if (drawn !== segments) setSegments(drawn);
+
+    // Spin the wheel so it stops on the prize the server drew
+    const turn = rotationToPrize(spinResult, toVisualSegments(drawn));
+    if (turn === null) {
+      // Never stop on a wedge the user didn't win — show the real prize straight away
+      console.error('[Wheel] Won prize is not on the wheel:', spinResult.prizeId, spinResult.label);
+      setIsSpinning(false);
+      setResult(spinResult);
+      setShowResult(true);
+      return;
+    }
+    setRotation(prev => prev + turn);
+
     // Wait for animation to complete
     setTimeout(() => {
       setIsSpinning(false);
-      if (spinResult && 'reward' in spinResult) {
-        setResult(spinResult.reward);
-        setShowResult(true);
-      } else if (spinResult && 'error' in spinResult) {
-        setLocationError(spinResult.message);
-      }
+      setResult(spinResult);
+      setShowResult(true);
     }, 4000);
   };
 
@@ -164,9 +253,9 @@ export function WheelOfFortune({ onSpin, canSpin, nextSpinAt, theme }: WheelOfFo
             border: `4px solid ${theme.buttonColor}`,
           }}
         >
-          {SEGMENTS.map((segment, index) => {
-            const angle = (360 / SEGMENTS.length) * index;
-            const skewAngle = 90 - (360 / SEGMENTS.length);
+          {visualSegments.map((segment, index) => {
+            const angle = segmentAngle * index;
+            const skewAngle = 90 - segmentAngle;
 
             return (
               <div
@@ -182,13 +271,13 @@ export function WheelOfFortune({ onSpin, canSpin, nextSpinAt, theme }: WheelOfFo
                 <span
                   className="absolute text-white font-bold text-lg"
                   style={{
-                    transform: `skewY(-${skewAngle}deg) rotate(${360 / SEGMENTS.length / 2}deg)`,
+                    transform: `skewY(-${skewAngle}deg) rotate(${segmentAngle / 2}deg)`,
                     left: '60%',
                     top: '20%',
                     textShadow: '1px 1px 2px rgba(0,0,0,0.5)',
                   }}
                 >
-                  {segment.label}
+                  {segmentText(segment)}
                 </span>
               </div>
             );
@@ -205,14 +294,24 @@ export function WheelOfFortune({ onSpin, canSpin, nextSpinAt, theme }: WheelOfFo
       </div>
 
       {/* Result popup */}
-      {showResult && result !== null && (
+      {showResult && result && (
         <div
           className="mb-6 p-4 rounded-2xl text-center animate-bounce"
           style={{ backgroundColor: '#FFD700' }}
         >
           <p className="text-2xl font-bold text-amber-900">
-            +{result} балів!
+            {result.prizeType === 'POINTS' ? `+${result.reward} балів!` : result.label}
           </p>
+          {result.code && (
+            <p className="mt-2 text-sm text-amber-900">
+              🎟 Код: <span className="font-bold tracking-widest">{result.code}</span>
+              {result.codeExpiresAt && (
+                <span className="block text-xs">
+                  Дійсний до {new Date(result.codeExpiresAt).toLocaleString('uk-UA', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}
+                </span>
+              )}
+            </p>
+          )}
         </div>
       )}
 
@@ -259,7 +358,7 @@ export function WheelOfFortune({ onSpin, canSpin, nextSpinAt, theme }: WheelOfFo
         </h3>
         <ul className="text-sm space-y-1" style={{ color: theme.hintColor }}>
           <li>• Крутіть колесо раз на добу</li>
-          <li>• Виграйте 5, 10 або 15 балів</li>
+          <li>• Призи: {segments.filter(seg => seg.type !== 'NOTHING').map(seg => seg.label).join(', ')}</li>
           <li>• <strong>Будьте поруч з кав'ярнею</strong> (до 100м)</li>
           <li>• Бали можна обміняти на знижки</li>
         </ul>
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { applyPointsChange } from '../src/modules/loyalty/points.service.js';
 
 const prisma = new PrismaClient();
 
@@ -8,14 +9,23 @@ const POINTS_TO_SET = 100;
 async function main(): Promise<void> {
   console.log(`Setting ${POINTS_TO_SET} points for user ${OWNER_TELEGRAM_ID}...`);
 
-  const user = await prisma.user.update({
-    where: { telegramId: OWNER_TELEGRAM_ID },
-    data: { points: POINTS_TO_SET },
-    select: {
-      telegramId: true,
-      firstName: true,
-      points: true,
-    },
+  const user = await prisma.$transaction(async (tx) => {
+    const current = await tx.user.findUniqueOrThrow({
+      where: { telegramId: OWNER_TELEGRAM_ID },
+      select: { id: true, telegramId: true, firstName: true, points: true },
+    });
+
+    const delta = POINTS_TO_SET - current.points;
+    if (delta === 0) return current;
+
+    const { balanceAfter } = await applyPointsChange(tx, {
+      userId: current.id,
+      delta,
+      source: 'ADMIN',
+      reason: 'set-points script',
+    });
+
+    return { ...current, points: balanceAfter };
   });
 
   console.log(`✅ Done! User ${user.firstName || user.telegramId} now has ${user.points} points.`);
@@ -1,4 +1,5 @@
 import { ProductType } from '@prisma/client';
+import type { LocationMenuSeed } from '../modules/products/locationMenu.service.js';
 
 export interface LocationSeed {
   slug: string;
@@ -133,6 +134,29 @@ export const seedProducts = [
   { name: 'Термочашка "Coffee Lover"', description: 'Термочашка з фірмовим дизайном', volume: '350 мл', price: 450, category: 'Мерч', type: 'MERCH' as ProductType, imageUrl: null },
 ];
 
+// Mark Mall kiosk serves its own menu (M / L cups) — see locationMenu.service.ts
+export const seedMarkMallMenu: LocationMenuSeed[] = [
+  { name: 'Еспресо', volume: 'M', price: 35 },
+  { name: 'Еспресо з молоком', volume: 'M', price: 40 },
+  { name: 'Допіо / 2 Рістрето', volume: 'M', price: 50 },
+  { name: 'Рістрето', volume: 'M', price: 35 },
+  { name: 'Лунго', volume: 'M', price: 35 },
+  { name: 'Американо', volume: 'M', price: 35 },
+  { name: 'Американо', volume: 'L', price: 50 },
+  { name: 'Американо з молоком', volume: 'M', price: 55 },
+  { name: 'Американо з молоком', volume: 'L', price: 65 },
+  { name: 'Гаряча вода', volume: 'L', price: 20 },
+  { name: 'Лате', volume: 'M', price: 60 },
+  { name: 'Лате', volume: 'L', price: 70 },
+  { name: 'Капучино', volume: 'M', price: 65 },
+  { name: 'Капучино', volume: 'L', price: 75 },
+  { name: 'Флет Уайт', volume: 'M', price: 70 },
+  { name: 'Мокачино', volume: 'M', price: 75 },
+  { name: 'Какао', volume: 'M', price: 60 },
+  { name: 'Какао', volume: 'L', price: 70 },
+  { name: 'Молочна пінка', volume: 'M', price: 40 },
+  { name: 'Тепле молоко', volume: 'L', price: 40 },
+];
 
 export interface TrackSeed {
   title: string;
@@ -3,9 +3,9 @@
  *
  * Module layout:
  *   modules/auth/       — Telegram initData validation + JWT tokens
- *   modules/loyalty/    — Wheel of Fortune, points, redemption codes
+ *   modules/loyalty/    — Wheel of Fortune, points ledger, tiers, rewards catalog, redemption codes
  *   modules/orders/     — Cart, orders, state machine
- *   modules/games/      — TIC_TAC_TOE (online + AI), PERKY_JUMP
+ *   modules/games/      — Game registry: TIC_TAC_TOE (online + AI), PERKY_JUMP, COFFEE_CATCHER; leaderboards
  *   modules/products/   — Menu, categories
  *   modules/admin/      — Admin panel API, code verification, stats
  *   modules/referral/   — Referral links & stats
@@ -17,20 +17,34 @@ import Fastify from 'fastify';
 import cors from '@fastify/cors';
 import rateLimit from '@fastify/rate-limit';
 import socketio from 'fastify-socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
 import { PrismaClient } from '@prisma/client';
-import { redis } from './shared/redis.js';
-import { seedProducts, seedLocations, seedTracks } from './data/seedData.js';
+import { isInMemoryRedis, redis } from './shared/redis.js';
+import { startJobWorker } from './shared/jobs.js';
+import { seedProducts, seedLocations, seedTracks, seedMarkMallMenu } from './data/seedData.js';
 
 // ── Module routes ────────────────────────────────────────────────────────────
 import { authRoutes } from './modules/auth/auth.routes.js';
 import { loyaltyRoutes } from './modules/loyalty/loyalty.routes.js';
 import { gameRoutes } from './modules/games/games.routes.js';
 import { setupGameSockets } from './modules/games/games.sockets.js';
+import { awardWeeklyLeaderboards } from './modules/games/leaderboard.service.js';
+import { startDueTournaments } from './modules/games/tournament.service.js';
+import { abandonStaleSessions } from './modules/games/games.service.js';
 import { productRoutes } from './modules/products/products.routes.js';
 import { orderRoutes as orderModuleRoutes } from './modules/orders/orders.routes.js';
+import { registerAutoCancelJob } from './modules/orders/autoCancel.service.js';
+import { registerOrderStatusJobs } from './modules/orders/orderStatus.service.js';
 import { adminModuleRoutes } from './modules/admin/admin.routes.js';
 import { referralRoutes } from './modules/referral/referral.routes.js';
 import { radioRoutes } from './modules/radio/radio.routes.js';
+import { backfillOpeningBalances, backfillEarnBatches } from './modules/loyalty/points.service.js';
+import { mergeSizeVariants, seedDefaultModifierGroups } from './modules/products/modifiers.service.js';
+import { seedLocationMenu } from './modules/products/locationMenu.service.js';
+import { runPointsExpiry } from './modules/loyalty/expiry.service.js';
+import { seedDefaultPrizeTable } from './modules/loyalty/wheel.service.js';
+import { refreshStaleTiers } from './modules/loyalty/tier.service.js';
+import { seedDefaultRewards } from './modules/loyalty/reward.service.js';
 
 // ── Legacy routes (kept during migration) ────────────────────────────────────
 import { orderRoutes as legacyOrderRoutes } from './routes/orders.js';
@@ -166,6 +180,20 @@ async function autoSeedProducts(): Promise<void> {
     console.log('[AutoSeed] Seeding products...');
     await prisma.product.createMany({ data: seedProducts });
   }
+
+  if (await seedLocationMenu(prisma, 'mark-mall', seedMarkMallMenu)) {
+    console.log('[AutoSeed] Seeded Mark Mall menu');
+  }
+
+  // Sizes seeded (or added) as separate rows become variants of one product
+  const merged = await mergeSizeVariants(prisma);
+  if (merged > 0) {
+    console.log(`[AutoSeed] Merged sizes of ${merged} products into variants`);
+  }
+
+  if (await seedDefaultModifierGroups(prisma)) {
+    console.log('[AutoSeed] Seeded default product modifiers');
+  }
 }
 
 
@@ -177,6 +205,65 @@ async function autoSeedTracks(): Promise<void> {
   }
 }
 
+async function autoSeedWheelPrizes(): Promise<void> {
+  if (await seedDefaultPrizeTable(prisma)) {
+    console.log('[AutoSeed] Seeded default Wheel of Fortune prize table');
+  }
+}
+
+async function autoSeedRewards(): Promise<void> {
+  if (await seedDefaultRewards(prisma)) {
+    console.log('[AutoSeed] Seeded default rewards catalog');
+  }
+}
+
+async function backfillPointsLedger(): Promise<void> {
+  const count = await backfillOpeningBalances(prisma);
+  if (count > 0) {
+    console.log(`[Points] Opening balances written for ${count} users`);
+  }
+
+  const batches = await backfillEarnBatches(prisma);
+  if (batches > 0) {
+    console.log(`[Points] Earn batches reconstructed for ${batches} users`);
+  }
+}
+
+async function expirePoints(): Promise<void> {
+  const result = await runPointsExpiry(prisma);
+  if (result.warned > 0 || result.expiredUsers > 0) {
+    console.log(`[Points] Expiry: ${result.warned} warnings, ${result.expiredPoints} points expired for ${result.expiredUsers} users`);
+  }
+}
+
+async function refreshLoyaltyTiers(): Promise<void> {
+  const changed = await refreshStaleTiers(prisma);
+  if (changed > 0) {
+    console.log(`[Tiers] ${changed} users changed tier`);
+  }
+}
+
+async function payWeeklyLeaderboards(): Promise<void> {
+  const awarded = await awardWeeklyLeaderboards(prisma);
+  if (awarded > 0) {
+    console.log(`[Leaderboard] Weekly prizes credited to ${awarded} players`);
+  }
+}
+
+async function openTournaments(): Promise<void> {
+  const started = await startDueTournaments(prisma, app.io);
+  if (started > 0) {
+    console.log(`[Tournament] Started ${started} tournament(s)`);
+  }
+}
+
+async function sweepStaleGames(): Promise<void> {
+  const abandoned = await abandonStaleSessions(prisma, app.io);
+  if (abandoned > 0) {
+    console.log(`[Games] Abandoned ${abandoned} stale session(s)`);
+  }
+}
+
 async function connectRedis(): Promise<void> {
   try {
     if (typeof redis.connect === 'function' && (redis as unknown as { status?: string }).status !== 'ready') {
@@ -187,6 +274,13 @@ async function connectRedis(): Promise<void> {
   }
 }
 
+/** Share Socket.IO rooms between server instances — needs a real Redis for pub/sub */
+function attachSocketAdapter(io: NonNullable<typeof app.io>): void {
+  if (isInMemoryRedis) return;
+  io.adapter(createAdapter(redis.duplicate(), redis.duplicate()));
+  console.log('[Socket.IO] Redis adapter enabled');
+}
+
 async function start(): Promise<void> {
   try {
     await app.ready();
@@ -200,14 +294,55 @@ async function start(): Promise<void> {
     }
     // Connect Redis BEFORE server starts to ensure locks & idempotency work from first request
     await connectRedis();
+    if (app.io) attachSocketAdapter(app.io);
 
     await app.listen({ port: Number(process.env.PORT) || 3000, host: '0.0.0.0' });
 
+    // Delayed jobs (order auto-cancel, status side effects) live in Postgres — pick up whatever came due while we were down
+    registerAutoCancelJob();
+    registerOrderStatusJobs();
+    startJobWorker(prisma);
+
     // Post-start tasks run in background (non-critical)
     ensureOwnerExists().catch((e) => app.log.error(e, '[startup] owner setup failed'));
-    autoSeedLocations().catch((e) => app.log.error(e, '[startup] location seed failed'));
-    autoSeedProducts().catch((e) => app.log.error(e, '[startup] product seed failed'));
+    // Products after locations: a location's own menu needs its row
+    autoSeedLocations()
+      .catch((e) => app.log.error(e, '[startup] location seed failed'))
+      .then(() => autoSeedProducts())
+      .catch((e) => app.log.error(e, '[startup] product seed failed'));
     autoSeedTracks().catch((e) => app.log.error(e, '[startup] tracks seed failed'));
+    autoSeedWheelPrizes().catch((e) => app.log.error(e, '[startup] wheel prizes seed failed'));
+    autoSeedRewards().catch((e) => app.log.error(e, '[startup] rewards seed failed'));
+    backfillPointsLedger()
+      .then(() => expirePoints())
+      .catch((e) => app.log.error(e, '[startup] points ledger backfill failed'));
+    setInterval(() => {
+      expirePoints().catch((e) => app.log.error(e, '[points] expiry job failed'));
+    }, 60 * 60 * 1000).unref();
+
+    // Tiers drop as activity leaves the 90-day window — re-check every 6 hours
+    refreshLoyaltyTiers().catch((e) => app.log.error(e, '[startup] tier refresh failed'));
+    setInterval(() => {
+      refreshLoyaltyTiers().catch((e) => app.log.error(e, '[tiers] periodic refresh failed'));
+    }, 6 * 60 * 60 * 1000).unref();
+
+    // Last week's top 3 are paid on the first run after Monday 00:00 Kyiv
+    payWeeklyLeaderboards().catch((e) => app.log.error(e, '[startup] leaderboard prizes failed'));
+    setInterval(() => {
+      payWeeklyLeaderboards().catch((e) => app.log.error(e, '[leaderboard] weekly prizes failed'));
+    }, 60 * 60 * 1000).unref();
+
+    // Brackets are drawn on the first run after registration closes
+    openTournaments().catch((e) => app.log.error(e, '[startup] tournament start failed'));
+    setInterval(() => {
+      openTournaments().catch((e) => app.log.error(e, '[tournament] start job failed'));
+    }, 60 * 1000).unref();
+
+    // Matches cut off by a restart and unsubmitted runs would stay PLAYING forever
+    sweepStaleGames().catch((e) => app.log.error(e, '[startup] stale game sweep failed'));
+    setInterval(() => {
+      sweepStaleGames().catch((e) => app.log.error(e, '[games] stale game sweep failed'));
+    }, 5 * 60 * 1000).unref();
   } catch (err) {
     app.log.error(err);
     process.exit(1);
@@ -5,6 +5,10 @@
  *
  * Admin endpoints (ADMIN | OWNER):
  *   GET    /api/admin/orders          — Active order queue
+ *   GET    /api/admin/locations/ordering — Online ordering state per location (bot)
+ *   PATCH  /api/admin/locations/:id/ordering — Pause/resume ordering, set slot capacity
+ *   GET    /api/admin/locations/:id/menu — Drinks of a location with availability and prices
+ *   PATCH  /api/admin/locations/:id/products/:productId — Stop-list toggle; price override (Owner)
  *   POST   /api/admin/verify-code     — Validate & confirm redemption code (4-digit)
  *   GET    /api/admin/check-role      — Check user role (legacy, no JWT)
  *
@@ -15,13 +19,50 @@
  *   GET    /api/admin/export-users    — Export all users
  *   GET    /api/admin/all-users       — Get all users for broadcast
  *   POST   /api/admin/add-points      — God mode: add points to owner
+ *   GET    /api/admin/points-audit    — Compare cached balance with the points ledger
+ *   POST   /api/admin/points-rebuild  — Rebuild cached balance(s) from the ledger
+ *   GET    /api/admin/wheel-tables    — Wheel of Fortune prize tables (all versions)
+ *   POST   /api/admin/wheel-tables    — Publish a new prize table version
+ *   PATCH  /api/admin/wheel-tables/:id — Activate/deactivate or reschedule a table
+ *   GET    /api/admin/earn-rates      — Order accrual rates (points per hryvnia)
+ *   PUT    /api/admin/earn-rates      — Set default or per-category earn rate
+ *   DELETE /api/admin/earn-rates/:id  — Remove a per-category override
+ *   GET    /api/admin/order-timeouts  — Auto-cancel timeouts by location / hours
+ *   POST   /api/admin/order-timeouts  — Add a timeout rule
+ *   DELETE /api/admin/order-timeouts/:id — Remove a timeout rule
+ *   GET    /api/admin/rewards         — Rewards catalog (including inactive)
+ *   POST   /api/admin/rewards         — Create a reward
+ *   PATCH  /api/admin/rewards/:id     — Update a reward (cost, limits, window, products)
+ *
+ * Tournaments (ADMIN | OWNER):
+ *   GET    /api/admin/tournaments     — All tournaments with player counts
+ *   POST   /api/admin/tournaments     — Create a tournament (sign-up window + bracket size)
+ *   POST   /api/admin/tournaments/:id/cancel — Cancel before it finishes
  */
 
 import type { FastifyInstance, FastifyPluginOptions, FastifyRequest } from 'fastify';
+import { Prisma } from '@prisma/client';
 import { z } from 'zod';
 import { requireAuth, requireAdmin, requireOwner, type JwtPayload } from '../../shared/jwt.js';
 import { sendTelegramMessage } from '../../shared/utils/telegram.js';
-import { redis } from '../../shared/redis.js';
+import { redis, withRedisLock } from '../../shared/redis.js';
+import {
+  applyPointsChange,
+  auditUserBalance,
+  rebuildUserBalance,
+} from '../loyalty/points.service.js';
+import { getEarnRates } from '../loyalty/accrual.service.js';
+import { describeReward } from '../loyalty/reward.service.js';
+import { DEFAULT_AUTO_CANCEL_MINUTES } from '../orders/autoCancel.service.js';
+import { isOrderingPaused } from '../orders/pickupSlots.service.js';
+import {
+  effectivePrice,
+  effectiveVariantPrice,
+  locationPriceSelect,
+  locationProductsWhere,
+} from '../products/locationMenu.service.js';
+import { recordStreakActivity } from '../loyalty/streak.service.js';
+import { TOURNAMENT_BRACKET_SIZES } from '../games/tournament.service.js';
 
 const OWNER_TELEGRAM_ID = process.env.OWNER_TELEGRAM_ID || '7363233852';
 const OWNER_CHAT_ID = process.env.OWNER_CHAT_ID || OWNER_TELEGRAM_ID;
@@ -49,6 +90,118 @@ const addPointsSchema = z.object({
   targetTelegramId: z.union([z.number(), z.string()]).transform(String).optional(),
 });
 
+const pointsAuditSchema = z.object({
+  userId: z.string().min(3).optional(),
+  targetTelegramId: z.union([z.number(), z.string()]).transform(String).optional(),
+});
+
+const wheelPrizeSchema = z.object({
+  label: z.string().min(1).max(40),
+  type: z.enum(['POINTS', 'FREE_ITEM', 'DISCOUNT', 'NOTHING']),
+  points: z.number().int().min(0).max(1000).default(0),
+  weight: z.number().int().min(0).max(10000),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/).default('#FFD700'),
+  payload: z.record(z.unknown()).optional(),
+  validHours: z.number().int().min(1).max(24 * 30).default(24),
+}).refine((p) => p.type !== 'POINTS' || p.points > 0, {
+  message: 'POINTS prize requires points > 0',
+});
+
+const createWheelTableSchema = z.object({
+  name: z.string().min(1).max(100),
+  locationId: z.string().min(1).nullable().default(null),
+  activeFrom: z.string().datetime().optional(),
+  activeUntil: z.string().datetime().optional(),
+  prizes: z.array(wheelPrizeSchema).min(2).max(12),
+}).refine((t) => t.prizes.some((p) => p.weight > 0), {
+  message: 'At least one prize must have weight > 0',
+});
+
+const updateWheelTableSchema = z.object({
+  isActive: z.boolean().optional(),
+  activeFrom: z.string().datetime().nullable().optional(),
+  activeUntil: z.string().datetime().nullable().optional(),
+});
+
+const earnRateSchema = z.object({
+  category: z.string().min(1).max(50).nullable().default(null),
+  pointsPerUah: z.number().min(0).max(10),
+});
+
+const orderTimeoutSchema = z.object({
+  locationId: z.string().min(1).nullable().default(null),
+  startHour: z.number().int().min(0).max(23).nullable().default(null),
+  endHour: z.number().int().min(0).max(24).nullable().default(null),
+  minutes: z.number().int().min(1).max(60),
+}).refine((r) => (r.startHour === null) === (r.endHour === null) && (r.startHour === null || r.startHour !== r.endHour), {
+  message: 'startHour and endHour go together and must differ',
+});
+
+const locationOrderingSchema = z.object({
+  /** 0 resumes ordering right away */
+  pauseMinutes: z.number().int().min(0).max(24 * 60).optional(),
+  slotCapacity: z.number().int().min(1).max(50).optional(),
+});
+
+const locationProductSchema = z.object({
+  isAvailable: z.boolean().optional(),
+  /** null goes back to the catalogue price */
+  price: z.number().int().min(1).max(100_000).nullable().optional(),
+  variantPrices: z.array(z.object({
+    variantId: z.string().min(1),
+    price: z.number().int().min(1).max(100_000).nullable(),
+  })).max(20).optional(),
+});
+
+const rewardFields = {
+  name: z.string().min(1).max(100),
+  description: z.string().max(300).nullable(),
+  pointsCost: z.number().int().min(1).max(100000),
+  productIds: z.array(z.string().min(1)).max(50),
+  categories: z.array(z.string().min(1).max(50)).max(20),
+  stockLimit: z.number().int().min(0).nullable(),
+  perUserLimit: z.number().int().min(1).nullable(),
+  perUserPeriodDays: z.number().int().min(1).max(365).nullable(),
+  availableFrom: z.string().datetime().nullable(),
+  availableUntil: z.string().datetime().nullable(),
+  codeValidMinutes: z.number().int().min(1).max(24 * 60),
+  isActive: z.boolean(),
+  sortOrder: z.number().int(),
+};
+
+const createRewardSchema = z.object({
+  ...rewardFields,
+  description: rewardFields.description.default(null),
+  productIds: rewardFields.productIds.default([]),
+  categories: rewardFields.categories.default([]),
+  stockLimit: rewardFields.stockLimit.default(null),
+  perUserLimit: rewardFields.perUserLimit.default(null),
+  perUserPeriodDays: rewardFields.perUserPeriodDays.default(null),
+  availableFrom: rewardFields.availableFrom.default(null),
+  availableUntil: rewardFields.availableUntil.default(null),
+  codeValidMinutes: rewardFields.codeValidMinutes.default(15),
+  isActive: rewardFields.isActive.default(true),
+  sortOrder: rewardFields.sortOrder.default(0),
+});
+
+const updateRewardSchema = z.object(rewardFields).partial();
+
+const createTournamentSchema = z.object({
+  title: z.string().min(1).max(100),
+  bracketSize: z.number().int().refine(
+    (n) => (TOURNAMENT_BRACKET_SIZES as readonly number[]).includes(n),
+    `Розмір сітки: ${TOURNAMENT_BRACKET_SIZES.join(', ')}`,
+  ),
+  registrationOpensAt: z.string().datetime().optional(),
+  registrationClosesAt: z.string().datetime(),
+  locationId: z.string().nullable().default(null),
+  winnerPoints: z.number().int().min(0).default(100),
+  runnerUpPoints: z.number().int().min(0).default(30),
+}).refine(
+  (t) => !t.registrationOpensAt || new Date(t.registrationOpensAt) < new Date(t.registrationClosesAt),
+  { message: 'Реєстрація має відкриватися раніше, ніж закривається', path: ['registrationClosesAt'] },
+);
+
 // ── Helpers ────────────────────────────────────────────────────────────────
 
 async function notifyChat(chatId: string, text: string, parseMode = 'HTML', replyMarkup?: object): Promise<void> {
@@ -133,6 +286,8 @@ export async function adminModuleRoutes(
           user: {
             select: { id: true, telegramId: true, firstName: true, username: true },
           },
+          wheelPrize: { select: { label: true, type: true } },
+          reward: { include: { products: { select: { id: true, name: true } } } },
         },
       });
 
@@ -170,18 +325,36 @@ export async function adminModuleRoutes(
       // Clear Redis cache
       await redis.del(`redeem:${body.code}`);
 
+      recordStreakActivity(app.prisma, redemptionCode.user.id).catch((err) => app.log.error({ err }, 'Streak update failed'));
+
       app.log.info(`[Code Verified] code: ${body.code}, user: ${redemptionCode.user.telegramId}, verifiedBy: ${admin.telegramId}`);
 
+      // What the barista hands over: a wheel prize or a catalog reward bought with points
+      const handOver = redemptionCode.wheelPrize?.label
+        ?? (redemptionCode.reward ? describeReward(redemptionCode.reward) : 'Безкоштовний напій');
+      const chargeLine = redemptionCode.wheelPrize
+        ? '🎡 Виграш на Колесі Фортуни'
+        : `📉 Списано: ${redemptionCode.pointsSpent} балів`;
+
       // Notify Owner Chat
       const timeStr = now.toLocaleString('uk-UA', { timeZone: 'Europe/Kyiv' });
       notifyChat(
         OWNER_CHAT_ID,
-        `🔔 <b>Нова видача кави!</b>\n\n👤 Адмін: ${admin.telegramId}\n🎫 Код: <code>${body.code}</code>\n📉 Списано: ${redemptionCode.pointsSpent} балів\n🕒 Час: ${timeStr}`,
+        `🔔 <b>Нова видача: ${handOver}</b>\n\n👤 Адмін: ${admin.telegramId}\n🎫 Код: <code>${body.code}</code>\n${chargeLine}\n🕒 Час: ${timeStr}`,
       ).catch(() => {});
 
       return reply.send({
         success: true,
-        message: `Код підтверджено! Списано ${redemptionCode.pointsSpent} балів. Видайте напій.`,
+        message: redemptionCode.wheelPrize
+          ? `Код підтверджено! Видайте: ${handOver}.`
+          : `Код підтверджено! Списано ${redemptionCode.pointsSpent} балів. Видайте: ${handOver}.`,
+        reward: {
+          label: handOver,
+          type: redemptionCode.wheelPrize?.type ?? 'REWARD',
+          rewardId: redemptionCode.rewardId,
+          products: redemptionCode.reward?.products ?? [],
+          categories: redemptionCode.reward?.categories ?? [],
+        },
         user: {
           firstName: redemptionCode.user.firstName,
           username: redemptionCode.user.username,
@@ -425,13 +598,24 @@ export async function adminModuleRoutes(
 
       const ownerSelfUpdate = !body.userId && !targetTelegramId;
 
-      if (ownerSelfUpdate) {
-        const user = await app.prisma.user.update({
-          where: { id: admin.userId },
-          data: { points: { increment: body.points } },
-          select: { id: true, telegramId: true, firstName: true, points: true },
+      const creditPoints = (targetUserId: string) =>
+        app.prisma.$transaction(async (tx) => {
+          await applyPointsChange(tx, {
+            userId: targetUserId,
+            delta: body.points,
+            source: 'ADMIN',
+            reason: 'Нарахування власником',
+            actorId: admin.userId,
+          });
+          return tx.user.findUniqueOrThrow({
+            where: { id: targetUserId },
+            select: { id: true, telegramId: true, firstName: true, points: true },
+          });
         });
 
+      if (ownerSelfUpdate) {
+        const user = await creditPoints(admin.userId);
+
         return reply.send({ success: true, added: body.points, user, mode: 'self', newBalance: user.points });
       }
 
@@ -446,11 +630,7 @@ export async function adminModuleRoutes(
         return reply.status(404).send({ error: 'USER_NOT_FOUND' });
       }
 
-      const user = await app.prisma.user.update({
-        where: { id: target.id },
-        data: { points: { increment: body.points } },
-        select: { id: true, telegramId: true, firstName: true, points: true },
-      });
+      const user = await creditPoints(target.id);
 
       return reply.send({
         success: true,
@@ -467,4 +647,781 @@ export async function adminModuleRoutes(
       return reply.status(500).send({ error: 'Failed to add points' });
     }
   });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // GET /api/admin/points-audit — Cached balance vs ledger (Owner only)
+  // Without a target: lists every user whose balance drifted from the ledger.
+  // ────────────────────────────────────────────────────────────────────────
+  app.get('/points-audit', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || admin.role !== 'OWNER') {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const query = pointsAuditSchema.parse(request.query);
+
+      if (query.userId || query.targetTelegramId) {
+        const target = await app.prisma.user.findUnique({
+          where: query.userId ? { id: query.userId } : { telegramId: query.targetTelegramId! },
+          select: { id: true },
+        });
+        if (!target) return reply.status(404).send({ error: 'USER_NOT_FOUND' });
+
+        const [audit, transactions] = await Promise.all([
+          auditUserBalance(app.prisma, target.id),
+          app.prisma.pointsTransaction.findMany({
+            where: { userId: target.id },
+            orderBy: { createdAt: 'desc' },
+            take: 100,
+            include: { actor: { select: { telegramId: true, firstName: true } } },
+          }),
+        ]);
+
+        return reply.send({ audit, transactions });
+      }
+
+      const [users, sums] = await Promise.all([
+        app.prisma.user.findMany({ select: { id: true, telegramId: true, points: true } }),
+        app.prisma.pointsTransaction.groupBy({ by: ['userId'], _sum: { delta: true } }),
+      ]);
+
+      const ledgerByUser = new Map(sums.map((row) => [row.userId, row._sum.delta ?? 0]));
+      const mismatches = users
+        .map((u) => ({
+          userId: u.id,
+          telegramId: u.telegramId,
+          cachedBalance: u.points,
+          ledgerBalance: ledgerByUser.get(u.id) ?? 0,
+        }))
+        .filter((u) => u.cachedBalance !== u.ledgerBalance);
+
+      return reply.send({ checkedUsers: users.length, mismatches });
+    } catch (error) {
+      app.log.error({ err: error }, 'Points audit error');
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
+      }
+      return reply.status(500).send({ error: 'Failed to audit points' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // POST /api/admin/points-rebuild — Re-project User.points from the ledger (Owner only)
+  // ────────────────────────────────────────────────────────────────────────
+  app.post('/points-rebuild', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || admin.role !== 'OWNER') {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const body = pointsAuditSchema.parse(request.body ?? {});
+
+      const targets = body.userId || body.targetTelegramId
+        ? await app.prisma.user.findMany({
+            where: body.userId ? { id: body.userId } : { telegramId: body.targetTelegramId! },
+            select: { id: true },
+          })
+        : await app.prisma.user.findMany({ select: { id: true } });
+
+      if (targets.length === 0) {
+        return reply.status(404).send({ error: 'USER_NOT_FOUND' });
+      }
+
+      const fixed = [];
+      for (const target of targets) {
+        const before = await auditUserBalance(app.prisma, target.id);
+        if (!before || before.consistent) continue;
+        const after = await rebuildUserBalance(app.prisma, target.id);
+        fixed.push({ userId: target.id, before: before.cachedBalance, after: after?.cachedBalance });
+      }
+
+      app.log.info(`[Points Rebuild] by ${admin.telegramId}: ${fixed.length}/${targets.length} balances fixed`);
+
+      return reply.send({ success: true, checkedUsers: targets.length, fixed });
+    } catch (error) {
+      app.log.error({ err: error }, 'Points rebuild error');
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
+      }
+      return reply.status(500).send({ error: 'Failed to rebuild points' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // GET /api/admin/wheel-tables — All prize table versions (Admin/Owner)
+  // ────────────────────────────────────────────────────────────────────────
+  app.get('/wheel-tables', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || (admin.role !== 'ADMIN' && admin.role !== 'OWNER')) {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const tables = await app.prisma.wheelPrizeTable.findMany({
+        include: {
+          location: { select: { name: true, slug: true } },
+          prizes: { orderBy: { sortOrder: 'asc' } },
+        },
+        orderBy: [{ locationId: 'asc' }, { version: 'desc' }],
+      });
+
+      return reply.send({ tables });
+    } catch (error) {
+      app.log.error({ err: error }, 'Wheel tables error');
+      return reply.status(500).send({ error: 'Failed to get wheel tables' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // POST /api/admin/wheel-tables — Publish new prize table version (Owner only)
+  // Previous versions stay in place for history; the highest active one wins.
+  // ────────────────────────────────────────────────────────────────────────
+  app.post('/wheel-tables', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || admin.role !== 'OWNER') {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const body = createWheelTableSchema.parse(request.body);
+
+      if (body.locationId) {
+        const location = await app.prisma.location.findUnique({ where: { id: body.locationId }, select: { id: true } });
+        if (!location) return reply.status(404).send({ error: 'LOCATION_NOT_FOUND' });
+      }
+
+      // Versions are numbered per location; the lock also covers the default
+      // table, whose null locationId the unique index can't catch
+      const table = await withRedisLock(`wheel:publish:${body.locationId ?? 'default'}`, async () => {
+        const latest = await app.prisma.wheelPrizeTable.findFirst({
+          where: { locationId: body.locationId },
+          orderBy: { version: 'desc' },
+          select: { version: true },
+        });
+
+        return app.prisma.wheelPrizeTable.create({
+          data: {
+            name: body.name,
+            version: (latest?.version ?? 0) + 1,
+            locationId: body.locationId,
+            activeFrom: body.activeFrom ? new Date(body.activeFrom) : null,
+            activeUntil: body.activeUntil ? new Date(body.activeUntil) : null,
+            createdById: admin.userId,
+            prizes: {
+              create: body.prizes.map((p, index) => ({
+                label: p.label,
+                type: p.type,
+                points: p.type === 'POINTS' ? p.points : 0,
+                weight: p.weight,
+                color: p.color,
+                payload: p.payload as Prisma.InputJsonValue | undefined,
+                validHours: p.validHours,
+                sortOrder: index,
+              })),
+            },
+          },
+          include: { prizes: { orderBy: { sortOrder: 'asc' } } },
+        });
+      }, { ttlSeconds: 10 });
+
+      app.log.info(`[Wheel] Table "${table.name}" v${table.version} published by ${admin.telegramId}`);
+
+      return reply.status(201).send({ table });
+    } catch (error) {
+      app.log.error({ err: error }, 'Create wheel table error');
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
+      }
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return reply.status(409).send({ error: 'VERSION_CONFLICT', message: 'Таблицю щойно опублікували — оновіть список і спробуйте ще раз' });
+      }
+      return reply.status(500).send({ error: 'Failed to create wheel table' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // PATCH /api/admin/wheel-tables/:id — Toggle / reschedule a table (Owner only)
+  // ────────────────────────────────────────────────────────────────────────
+  app.patch<{ Params: { id: string } }>('/wheel-tables/:id', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || admin.role !== 'OWNER') {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const body = updateWheelTableSchema.parse(request.body);
+
+      const existing = await app.prisma.wheelPrizeTable.findUnique({ where: { id: request.params.id }, select: { id: true } });
+      if (!existing) return reply.status(404).send({ error: 'TABLE_NOT_FOUND' });
+
+      const table = await app.prisma.wheelPrizeTable.update({
+        where: { id: request.params.id },
+        data: {
+          ...(body.isActive !== undefined ? { isActive: body.isActive } : {}),
+          ...(body.activeFrom !== undefined ? { activeFrom: body.activeFrom ? new Date(body.activeFrom) : null } : {}),
+          ...(body.activeUntil !== undefined ? { activeUntil: body.activeUntil ? new Date(body.activeUntil) : null } : {}),
+        },
+        include: { prizes: { orderBy: { sortOrder: 'asc' } } },
+      });
+
+      return reply.send({ table });
+    } catch (error) {
+      app.log.error({ err: error }, 'Update wheel table error');
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
+      }
+      return reply.status(500).send({ error: 'Failed to update wheel table' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // GET /api/admin/earn-rates — Order accrual rates (Admin/Owner)
+  // ────────────────────────────────────────────────────────────────────────
+  app.get('/earn-rates', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || (admin.role !== 'ADMIN' && admin.role !== 'OWNER')) {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const [rows, effective] = await Promise.all([
+        app.prisma.orderEarnRate.findMany({ orderBy: { category: 'asc' } }),
+        getEarnRates(app.prisma),
+      ]);
+
+      return reply.send({ rates: rows, effective });
+    } catch (error) {
+      app.log.error({ err: error }, 'Earn rates error');
+      return reply.status(500).send({ error: 'Failed to get earn rates' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // PUT /api/admin/earn-rates — Set default (category: null) or category rate (Owner only)
+  // ────────────────────────────────────────────────────────────────────────
+  app.put('/earn-rates', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || admin.role !== 'OWNER') {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const body = earnRateSchema.parse(request.body);
+
+      // category is nullable, so the default row can't be addressed via upsert
+      const existing = await app.prisma.orderEarnRate.findFirst({
+        where: { category: body.category },
+        select: { id: true },
+      });
+
+      const rate = existing
+        ? await app.prisma.orderEarnRate.update({
+            where: { id: existing.id },
+            data: { pointsPerUah: body.pointsPerUah, updatedById: admin.userId },
+          })
+        : await app.prisma.orderEarnRate.create({
+            data: { category: body.category, pointsPerUah: body.pointsPerUah, updatedById: admin.userId },
+          });
+
+      app.log.info(`[Accrual] Earn rate ${body.category ?? 'default'} = ${body.pointsPerUah} set by ${admin.telegramId}`);
+
+      return reply.send({ rate });
+    } catch (error) {
+      app.log.error({ err: error }, 'Set earn rate error');
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
+      }
+      return reply.status(500).send({ error: 'Failed to set earn rate' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // DELETE /api/admin/earn-rates/:id — Remove an earn rate row (Owner only)
+  // ────────────────────────────────────────────────────────────────────────
+  app.delete<{ Params: { id: string } }>('/earn-rates/:id', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || admin.role !== 'OWNER') {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const { count } = await app.prisma.orderEarnRate.deleteMany({ where: { id: request.params.id } });
+      if (count === 0) return reply.status(404).send({ error: 'RATE_NOT_FOUND' });
+
+      return reply.send({ success: true });
+    } catch (error) {
+      app.log.error({ err: error }, 'Delete earn rate error');
+      return reply.status(500).send({ error: 'Failed to delete earn rate' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // GET /api/admin/locations/ordering — Ordering state of orderable locations (Admin/Owner)
+  // ────────────────────────────────────────────────────────────────────────
+  app.get('/locations/ordering', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || (admin.role !== 'ADMIN' && admin.role !== 'OWNER')) {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const now = new Date();
+      const locations = await app.prisma.location.findMany({
+        where: { hasOrdering: true, isActive: true },
+        select: { id: true, name: true, slotCapacity: true, orderingPausedUntil: true },
+        orderBy: { name: 'asc' },
+      });
+
+      return reply.send({
+        locations: locations.map((l) => ({ ...l, paused: isOrderingPaused(l, now) })),
+      });
+    } catch (error) {
+      app.log.error({ err: error }, 'Location ordering state error');
+      return reply.status(500).send({ error: 'Failed to get ordering state' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // PATCH /api/admin/locations/:id/ordering — Pause during a rush / set capacity (Admin/Owner)
+  // A pause ends by itself after pauseMinutes.
+  // ────────────────────────────────────────────────────────────────────────
+  app.patch<{ Params: { id: string } }>('/locations/:id/ordering', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || (admin.role !== 'ADMIN' && admin.role !== 'OWNER')) {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const body = locationOrderingSchema.parse(request.body);
+      const data: Prisma.LocationUpdateManyMutationInput = {};
+      if (body.pauseMinutes !== undefined) {
+        data.orderingPausedUntil = body.pauseMinutes > 0 ? new Date(Date.now() + body.pauseMinutes * 60 * 1000) : null;
+      }
+      if (body.slotCapacity !== undefined) data.slotCapacity = body.slotCapacity;
+
+      const { count } = await app.prisma.location.updateMany({ where: { id: request.params.id }, data });
+      if (count === 0) return reply.status(404).send({ error: 'LOCATION_NOT_FOUND' });
+
+      const location = await app.prisma.location.findUniqueOrThrow({
+        where: { id: request.params.id },
+        select: { id: true, name: true, slotCapacity: true, orderingPausedUntil: true },
+      });
+
+      const state = body.pauseMinutes === undefined ? 'unchanged' : body.pauseMinutes > 0 ? `paused ${body.pauseMinutes} min` : 'resumed';
+      app.log.info(`[Ordering] ${location.name}: ${state}, capacity ${location.slotCapacity} by ${admin.telegramId}`);
+
+      return reply.send({ location: { ...location, paused: isOrderingPaused(location) } });
+    } catch (error) {
+      app.log.error({ err: error }, 'Location ordering update error');
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
+      }
+      return reply.status(500).send({ error: 'Failed to update ordering state' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // GET /api/admin/locations/:id/menu — Drinks served there, stop-listed included (Admin/Owner)
+  // ────────────────────────────────────────────────────────────────────────
+  app.get<{ Params: { id: string } }>('/locations/:id/menu', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || (admin.role !== 'ADMIN' && admin.role !== 'OWNER')) {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const location = await app.prisma.location.findUnique({
+        where: { id: request.params.id },
+        select: { id: true, name: true, hasOwnMenu: true },
+      });
+      if (!location) return reply.status(404).send({ error: 'LOCATION_NOT_FOUND' });
+
+      const products = await app.prisma.product.findMany({
+        where: { ...locationProductsWhere(location, { includeHidden: true }), type: 'MENU' },
+        select: {
+          id: true,
+          name: true,
+          category: true,
+          price: true,
+          locationLinks: { where: { locationId: location.id }, select: { isAvailable: true, price: true } },
+          variants: {
+            where: { isActive: true },
+            orderBy: [{ sortOrder: 'asc' }, { price: 'asc' }],
+            select: { id: true, name: true, price: true, locationPrices: locationPriceSelect(location.id) },
+          },
+        },
+        orderBy: [{ category: 'asc' }, { name: 'asc' }],
+      });
+
+      return reply.send({
+        location,
+        products: products.map(({ locationLinks, variants, ...p }) => ({
+          ...p,
+          isAvailable: locationLinks[0]?.isAvailable ?? true,
+          basePrice: p.price,
+          price: effectivePrice({ ...p, locationLinks }),
+          variants: variants.map(({ locationPrices, ...v }) => ({
+            ...v,
+            basePrice: v.price,
+            price: effectiveVariantPrice({ ...v, locationPrices }),
+          })),
+        })),
+      });
+    } catch (error) {
+      app.log.error({ err: error }, 'Location menu error');
+      return reply.status(500).send({ error: 'Failed to get location menu' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // PATCH /api/admin/locations/:id/products/:productId — Per-location availability and prices
+  // Admins toggle the stop-list; price overrides are Owner only.
+  // ────────────────────────────────────────────────────────────────────────
+  app.patch<{ Params: { id: string; productId: string } }>('/locations/:id/products/:productId', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || (admin.role !== 'ADMIN' && admin.role !== 'OWNER')) {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const body = locationProductSchema.parse(request.body);
+      const changesPrices = body.price !== undefined || body.variantPrices !== undefined;
+      if (changesPrices && admin.role !== 'OWNER') {
+        return reply.status(403).send({ error: 'FORBIDDEN', message: 'Ціни змінює тільки власник' });
+      }
+
+      const { id: locationId, productId } = request.params;
+      const [location, product] = await Promise.all([
+        app.prisma.location.findUnique({ where: { id: locationId }, select: { id: true, name: true, hasOwnMenu: true } }),
+        app.prisma.product.findUnique({ where: { id: productId }, include: { variants: { select: { id: true } } } }),
+      ]);
+      if (!location) return reply.status(404).send({ error: 'LOCATION_NOT_FOUND' });
+      if (!product) return reply.status(404).send({ error: 'PRODUCT_NOT_FOUND' });
+      if (product.type !== 'MENU') {
+        return reply.status(400).send({ error: 'NOT_A_MENU_PRODUCT', message: 'Мерч і зерно однакові для всіх локацій' });
+      }
+
+      // A link would move a common drink onto an own-menu location (and off every other one)
+      const onMenu = await app.prisma.product.count({
+        where: { ...locationProductsWhere(location, { includeHidden: true }), id: productId },
+      });
+      if (onMenu === 0) {
+        return reply.status(400).send({ error: 'NOT_ON_LOCATION_MENU', message: `Цього напою немає в меню «${location.name}»` });
+      }
+
+      const variantIds = new Set(product.variants.map((v) => v.id));
+      if (body.variantPrices?.some((v) => !variantIds.has(v.variantId))) {
+        return reply.status(400).send({ error: 'INVALID_VARIANT' });
+      }
+
+      const data = {
+        ...(body.isAvailable !== undefined && { isAvailable: body.isAvailable }),
+        ...(body.price !== undefined && { price: body.price }),
+        updatedById: admin.userId,
+      };
+
+      const link = await app.prisma.$transaction(async (tx) => {
+        for (const { variantId, price } of body.variantPrices ?? []) {
+          if (price === null) {
+            await tx.locationVariantPrice.deleteMany({ where: { locationId, variantId } });
+          } else {
+            await tx.locationVariantPrice.upsert({
+              where: { locationId_variantId: { locationId, variantId } },
+              create: { locationId, variantId, price },
+              update: { price },
+            });
+          }
+        }
+        return tx.locationProduct.upsert({
+          where: { locationId_productId: { locationId, productId } },
+          create: { locationId, productId, ...data },
+          update: data,
+        });
+      });
+
+      app.log.info(`[Menu] ${location.name}: ${product.name} ${link.isAvailable ? 'available' : 'stop-listed'}, price ${link.price ?? 'catalogue'} by ${admin.telegramId}`);
+
+      return reply.send({ locationProduct: link });
+    } catch (error) {
+      app.log.error({ err: error }, 'Location product update error');
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
+      }
+      return reply.status(500).send({ error: 'Failed to update location product' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // GET /api/admin/order-timeouts — Order auto-cancel rules (Admin/Owner)
+  // ────────────────────────────────────────────────────────────────────────
+  app.get('/order-timeouts', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || (admin.role !== 'ADMIN' && admin.role !== 'OWNER')) {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const rules = await app.prisma.orderTimeoutRule.findMany({
+        include: { location: { select: { name: true, slug: true } } },
+        orderBy: [{ locationId: 'asc' }, { startHour: 'asc' }],
+      });
+
+      return reply.send({ rules, defaultMinutes: DEFAULT_AUTO_CANCEL_MINUTES });
+    } catch (error) {
+      app.log.error({ err: error }, 'Order timeouts error');
+      return reply.status(500).send({ error: 'Failed to get order timeouts' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // POST /api/admin/order-timeouts — Add an auto-cancel rule (Owner only)
+  // Hours are Kyiv time, end exclusive; 22→6 wraps past midnight.
+  // ────────────────────────────────────────────────────────────────────────
+  app.post('/order-timeouts', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || admin.role !== 'OWNER') {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const body = orderTimeoutSchema.parse(request.body);
+
+      if (body.locationId) {
+        const location = await app.prisma.location.findUnique({ where: { id: body.locationId }, select: { id: true } });
+        if (!location) return reply.status(404).send({ error: 'LOCATION_NOT_FOUND' });
+      }
+
+      const rule = await app.prisma.orderTimeoutRule.create({
+        data: { ...body, updatedById: admin.userId },
+      });
+
+      const hours = rule.startHour === null ? 'all day' : `${rule.startHour}–${rule.endHour}`;
+      app.log.info(`[AutoCancel] ${rule.minutes} min for ${rule.locationId ?? 'all locations'} (${hours}) set by ${admin.telegramId}`);
+
+      return reply.status(201).send({ rule });
+    } catch (error) {
+      app.log.error({ err: error }, 'Create order timeout error');
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
+      }
+      return reply.status(500).send({ error: 'Failed to create order timeout' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // DELETE /api/admin/order-timeouts/:id — Remove an auto-cancel rule (Owner only)
+  // ────────────────────────────────────────────────────────────────────────
+  app.delete<{ Params: { id: string } }>('/order-timeouts/:id', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || admin.role !== 'OWNER') {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const { count } = await app.prisma.orderTimeoutRule.deleteMany({ where: { id: request.params.id } });
+      if (count === 0) return reply.status(404).send({ error: 'RULE_NOT_FOUND' });
+
+      return reply.send({ success: true });
+    } catch (error) {
+      app.log.error({ err: error }, 'Delete order timeout error');
+      return reply.status(500).send({ error: 'Failed to delete order timeout' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // GET /api/admin/rewards — Full rewards catalog (Admin/Owner)
+  // ────────────────────────────────────────────────────────────────────────
+  app.get('/rewards', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || (admin.role !== 'ADMIN' && admin.role !== 'OWNER')) {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const rewards = await app.prisma.reward.findMany({
+        include: {
+          products: { select: { id: true, name: true } },
+          _count: { select: { redemptionCodes: true } },
+        },
+        orderBy: [{ sortOrder: 'asc' }, { pointsCost: 'asc' }],
+      });
+
+      return reply.send({ rewards });
+    } catch (error) {
+      app.log.error({ err: error }, 'Rewards list error');
+      return reply.status(500).send({ error: 'Failed to get rewards' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // POST /api/admin/rewards — Create a reward (Owner only)
+  // ────────────────────────────────────────────────────────────────────────
+  app.post('/rewards', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || admin.role !== 'OWNER') {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const { productIds, availableFrom, availableUntil, ...body } = createRewardSchema.parse(request.body);
+
+      const reward = await app.prisma.reward.create({
+        data: {
+          ...body,
+          availableFrom: availableFrom ? new Date(availableFrom) : null,
+          availableUntil: availableUntil ? new Date(availableUntil) : null,
+          products: { connect: productIds.map((id) => ({ id })) },
+        },
+        include: { products: { select: { id: true, name: true } } },
+      });
+
+      app.log.info(`[Rewards] "${reward.name}" (${reward.pointsCost} балів) created by ${admin.telegramId}`);
+
+      return reply.status(201).send({ reward });
+    } catch (error) {
+      app.log.error({ err: error }, 'Create reward error');
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
+      }
+      return reply.status(500).send({ error: 'Failed to create reward' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // PATCH /api/admin/rewards/:id — Update a reward (Owner only)
+  // ────────────────────────────────────────────────────────────────────────
+  app.patch<{ Params: { id: string } }>('/rewards/:id', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || admin.role !== 'OWNER') {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const { productIds, availableFrom, availableUntil, ...body } = updateRewardSchema.parse(request.body);
+
+      const existing = await app.prisma.reward.findUnique({ where: { id: request.params.id }, select: { id: true } });
+      if (!existing) return reply.status(404).send({ error: 'REWARD_NOT_FOUND' });
+
+      const reward = await app.prisma.reward.update({
+        where: { id: request.params.id },
+        data: {
+          ...body,
+          ...(availableFrom !== undefined ? { availableFrom: availableFrom ? new Date(availableFrom) : null } : {}),
+          ...(availableUntil !== undefined ? { availableUntil: availableUntil ? new Date(availableUntil) : null } : {}),
+          ...(productIds !== undefined ? { products: { set: productIds.map((id) => ({ id })) } } : {}),
+        },
+        include: { products: { select: { id: true, name: true } } },
+      });
+
+      return reply.send({ reward });
+    } catch (error) {
+      app.log.error({ err: error }, 'Update reward error');
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
+      }
+      return reply.status(500).send({ error: 'Failed to update reward' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // GET /api/admin/tournaments — All tournaments (Admin/Owner)
+  // ────────────────────────────────────────────────────────────────────────
+  app.get('/tournaments', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || (admin.role !== 'ADMIN' && admin.role !== 'OWNER')) {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const tournaments = await app.prisma.tournament.findMany({
+        include: {
+          location: { select: { id: true, name: true } },
+          _count: { select: { entries: true } },
+        },
+        orderBy: { registrationClosesAt: 'desc' },
+        take: 50,
+      });
+
+      return reply.send({ tournaments });
+    } catch (error) {
+      app.log.error({ err: error }, 'Tournaments list error');
+      return reply.status(500).send({ error: 'Failed to get tournaments' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // POST /api/admin/tournaments — Create a tournament (Admin/Owner)
+  // ────────────────────────────────────────────────────────────────────────
+  app.post('/tournaments', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || (admin.role !== 'ADMIN' && admin.role !== 'OWNER')) {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const { registrationOpensAt, registrationClosesAt, ...body } = createTournamentSchema.parse(request.body);
+
+      if (new Date(registrationClosesAt) <= new Date()) {
+        return reply.status(400).send({ error: 'INVALID_WINDOW', message: 'Реєстрація має закриватися в майбутньому' });
+      }
+      if (body.locationId) {
+        const location = await app.prisma.location.findUnique({ where: { id: body.locationId }, select: { id: true } });
+        if (!location) return reply.status(404).send({ error: 'LOCATION_NOT_FOUND' });
+      }
+
+      const tournament = await app.prisma.tournament.create({
+        data: {
+          ...body,
+          registrationOpensAt: registrationOpensAt ? new Date(registrationOpensAt) : new Date(),
+          registrationClosesAt: new Date(registrationClosesAt),
+          createdById: admin.userId,
+        },
+      });
+
+      app.log.info(`[Tournament] "${tournament.title}" (${tournament.bracketSize} players) created by ${admin.telegramId}`);
+
+      return reply.status(201).send({ tournament });
+    } catch (error) {
+      app.log.error({ err: error }, 'Create tournament error');
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
+      }
+      return reply.status(500).send({ error: 'Failed to create tournament' });
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────
+  // POST /api/admin/tournaments/:id/cancel — Cancel a tournament (Admin/Owner)
+  // ────────────────────────────────────────────────────────────────────────
+  app.post<{ Params: { id: string } }>('/tournaments/:id/cancel', async (request, reply) => {
+    try {
+      const admin = await resolveAdmin(request, app.prisma);
+      if (!admin || (admin.role !== 'ADMIN' && admin.role !== 'OWNER')) {
+        return reply.status(403).send({ error: 'FORBIDDEN' });
+      }
+
+      const { count } = await app.prisma.$transaction(async (tx) => {
+        const result = await tx.tournament.updateMany({
+          where: { id: request.params.id, status: { in: ['REGISTRATION', 'RUNNING'] } },
+          data: { status: 'CANCELLED' },
+        });
+        if (result.count > 0) {
+          // Unplayed bracket matches can't be finished any more
+          await tx.gameSession.updateMany({
+            where: { tournamentId: request.params.id, status: { in: ['WAITING', 'PLAYING'] } },
+            data: { status: 'ABANDONED' },
+          });
+        }
+        return result;
+      });
+      if (count === 0) return reply.status(409).send({ error: 'TOURNAMENT_NOT_ACTIVE' });
+
+      return reply.send({ success: true });
+    } catch (error) {
+      app.log.error({ err: error }, 'Cancel tournament error');
+      return reply.status(500).send({ error: 'Failed to cancel tournament' });
+    }
+  });
 }
@@ -19,6 +19,8 @@ import {
   requireAuth,
   type JwtPayload,
 } from '../../shared/jwt.js';
+import { applyPointsChange } from '../loyalty/points.service.js';
+import { getTierProgress } from '../loyalty/tier.service.js';
 
 const BOT_TOKEN = process.env.BOT_TOKEN ?? '';
 
@@ -145,41 +147,56 @@ export async function authRoutes(
       const OWNER_TELEGRAM_ID = '7363233852';
       const isOwner = telegramId === OWNER_TELEGRAM_ID;
 
-      // Upsert user
-      const user = await app.prisma.user.upsert({
-        where: { telegramId },
-        create: {
-          telegramId,
-          firstName: telegramUser?.first_name,
-          lastName: telegramUser?.last_name,
-          username: telegramUser?.username,
-          languageCode: telegramUser?.language_code ?? 'uk',
-          referredById: validReferrerUserId,
-          points: validReferrerUserId ? 5 : 0, // +5 bonus for referral
-          role: isOwner ? 'OWNER' : 'USER',
-        },
-        update: {
-          firstName: telegramUser?.first_name,
-          lastName: telegramUser?.last_name,
-          username: telegramUser?.username,
-          lastActiveAt: new Date(),
-          ...(isOwner ? { role: 'OWNER' } : {}),
-        },
-        select: {
-          id: true,
-          telegramId: true,
-          firstName: true,
-          lastName: true,
-          username: true,
-          role: true,
-          points: true,
-          totalSpins: true,
-          lastSpinDate: true,
-          referralCode: true,
-          referredById: true,
-          referralBonusPaid: true,
-          createdAt: true,
-        },
+      // Upsert user (+ referral welcome bonus in the same transaction)
+      const user = await app.prisma.$transaction(async (tx) => {
+        const upserted = await tx.user.upsert({
+          where: { telegramId },
+          create: {
+            telegramId,
+            firstName: telegramUser?.first_name,
+            lastName: telegramUser?.last_name,
+            username: telegramUser?.username,
+            languageCode: telegramUser?.language_code ?? 'uk',
+            referredById: validReferrerUserId,
+            role: isOwner ? 'OWNER' : 'USER',
+          },
+          update: {
+            firstName: telegramUser?.first_name,
+            lastName: telegramUser?.last_name,
+            username: telegramUser?.username,
+            lastActiveAt: new Date(),
+            ...(isOwner ? { role: 'OWNER' } : {}),
+          },
+          select: {
+            id: true,
+            telegramId: true,
+            firstName: true,
+            lastName: true,
+            username: true,
+            role: true,
+            points: true,
+            totalSpins: true,
+            lastSpinDate: true,
+            referralCode: true,
+            referredById: true,
+            referralBonusPaid: true,
+            createdAt: true,
+          },
+        });
+
+        if (isNewUser && validReferrerUserId) {
+          // +5 bonus for referral
+          const { balanceAfter } = await applyPointsChange(tx, {
+            userId: upserted.id,
+            delta: 5,
+            source: 'REFERRAL',
+            reason: 'Реєстрація за запрошенням',
+            actorId: validReferrerUserId,
+          });
+          return { ...upserted, points: balanceAfter };
+        }
+
+        return upserted;
       });
 
       // Generate tokens
@@ -270,7 +287,9 @@ export async function authRoutes(
         return reply.status(404).send({ error: 'USER_NOT_FOUND' });
       }
 
-      return reply.send({ user });
+      const tier = await getTierProgress(app.prisma, userId);
+
+      return reply.send({ user: { ...user, tier } });
     } catch (error) {
       app.log.error({ err: error }, 'Get me error');
       return reply.status(500).send({ error: 'FAILED_TO_GET_USER' });
@@ -0,0 +1,113 @@
+/**
+ * Coffee Catcher — score bounds for the 60-second catching game
+ *
+ * The client spawns one item every SPAWN_INTERVAL_MS for GAME_DURATION
+ * seconds; items fall for at least MIN_FALL_MS before they reach the cup.
+ * A good catch scores its points × combo, and the combo grows by one per
+ * consecutive good catch, so the best possible run is every item golden and
+ * caught in a row. A submitted result outside these bounds is rejected.
+ *
+ * Constants mirror client/src/components/PerkyCoffeeCatcher.tsx — keep both in sync.
+ *
+ * Points: score / 200, max 5 pts/day.
+ */
+
+import { z } from 'zod';
+import type { GameDefinition } from './registry.js';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+const GAME_DURATION = 60;
+const SPAWN_INTERVAL_MS = 800;
+const TICK_INTERVAL_MS = 40;
+/** Fastest item (speed 2.6 %/tick) from spawn (y -5) to the cup zone (y 82) */
+const MIN_FALL_MS = Math.ceil(87 / 2.6) * TICK_INTERVAL_MS;
+const MAX_ITEM_POINTS = 25;
+
+/** Slack for timer drift between the client intervals and the server clock */
+const TIME_TOLERANCE_MS = 1500;
+
+/** Game score → loyalty points */
+const SCORE_PER_POINT = 200;
+/** Maximum points from Coffee Catcher per day */
+const COFFEE_CATCHER_MAX_DAILY_POINTS = 5;
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface CoffeeCatcherResult {
+  score: number;
+  beansCollected: number;
+  maxCombo: number;
+  durationMs: number;
+}
+
+export type CoffeeCatcherCheck =
+  | { ok: true }
+  | { ok: false; error: 'IMPLAUSIBLE_RUN'; message: string };
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Most items that can reach the cup within `durationMs` */
+export function maxCatches(durationMs: number): number {
+  if (durationMs < MIN_FALL_MS) return 0;
+  return Math.floor((durationMs - MIN_FALL_MS) / SPAWN_INTERVAL_MS) + 1;
+}
+
+/** Best score for `catches` good catches in a single combo run (combo 2, 3, …) */
+export function maxScoreFor(catches: number): number {
+  const comboSum = ((catches + 1) * (catches + 2)) / 2 - 1;
+  return MAX_ITEM_POINTS * comboSum;
+}
+
+function implausible(message: string): CoffeeCatcherCheck {
+  return { ok: false, error: 'IMPLAUSIBLE_RUN', message };
+}
+
+/**
+ * `elapsedMs` is server time since the run was started.
+ */
+export function checkCoffeeCatcherResult(result: CoffeeCatcherResult, elapsedMs: number): CoffeeCatcherCheck {
+  if (result.durationMs > GAME_DURATION * 1000 + TIME_TOLERANCE_MS) return implausible('Run longer than the game');
+  if (result.durationMs > elapsedMs + TIME_TOLERANCE_MS) return implausible('Run longer than the session');
+
+  const catches = maxCatches(result.durationMs + TIME_TOLERANCE_MS);
+  if (result.beansCollected > catches) return implausible(`${result.beansCollected} catches, at most ${catches} possible`);
+  if (result.maxCombo > result.beansCollected + 1) return implausible('Combo above catches');
+  if (result.score > maxScoreFor(result.beansCollected)) return implausible(`Score ${result.score} above reachable`);
+
+  return { ok: true };
+}
+
+// ── Definition ───────────────────────────────────────────────────────────────
+
+const startCatcherSchema = z.object({
+  telegramId: z.union([z.number(), z.string()]).transform(String).optional(),
+});
+
+const submitCatcherSchema = z.object({
+  telegramId: z.union([z.number(), z.string()]).transform(String).optional(),
+  sessionId: z.string().min(1),
+  score: z.number().int(),
+  beansCollected: z.number().int().nonnegative(),
+  maxCombo: z.number().int().positive(),
+  durationMs: z.number().int().nonnegative(),
+});
+
+export const coffeeCatcherGame: GameDefinition = {
+  type: 'COFFEE_CATCHER',
+  label: 'Coffee Catcher',
+  leaderboardScoring: 'best',
+  dailyPointCap: COFFEE_CATCHER_MAX_DAILY_POINTS,
+  pointsFor: (score) => Math.floor(score / SCORE_PER_POINT),
+  tierBonus: true,
+  run: {
+    paths: { start: '/coffee-catcher/start', submit: '/coffee-catcher/submit' },
+    startSchema: startCatcherSchema,
+    submitSchema: submitCatcherSchema,
+    sessionIdOf: (body: z.infer<typeof submitCatcherSchema>) => body.sessionId,
+    validate: (body: z.infer<typeof submitCatcherSchema>, elapsedMs) => {
+      const check = checkCoffeeCatcherResult(body, elapsedMs);
+      return check.ok ? { ok: true, durationMs: body.durationMs } : check;
+    },
+  },
+};
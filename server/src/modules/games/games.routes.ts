@@ -1,63 +1,91 @@
 /**
  * Games Module — HTTP Routes (v2.0)
  *
- * POST /api/games/create             — Create TIC_TAC_TOE session (online or vs AI)
+ * POST /api/games/create             — Create TIC_TAC_TOE session (online or vs AI; board variant, AI difficulty)
  * POST /api/games/join               — Join TIC_TAC_TOE session
  * GET  /api/games/:id                — Get game state
- * POST /api/games/ai-move            — Request AI move (minimax)
- * POST /api/games/submit-score       — Submit PERKY_JUMP score (with anti-cheat)
+ * GET  /api/games/:id/replay         — TIC_TAC_TOE move log (player, cell, symbol, time)
+ * POST /api/games/ai-move            — Player's move (optional) + AI reply in an AI game
+ * POST /api/games/perky-jump/start  — Start PERKY_JUMP run (signed ticket + level seed)
+ * POST /api/games/submit-score       — Submit PERKY_JUMP score + event log (with anti-cheat)
+ * POST /api/games/coffee-catcher/start  — Start COFFEE_CATCHER run
+ * POST /api/games/coffee-catcher/submit — Submit COFFEE_CATCHER result (bounds-checked)
  * POST /api/games/perkie-jump/save   — Legacy save endpoint (backward compat)
  * GET  /api/games/daily-limits       — Get daily game limits for user
+ * GET  /api/games/leaderboard        — Top players per game (day / week / all) + own rank
+ * GET  /api/games/tournaments        — Open, running and recent tournaments
+ * GET  /api/games/tournaments/:id    — Tournament bracket
+ * POST /api/games/tournaments/:id/register — Sign up during the registration window
+ * POST /api/games/tournaments/:id/leave    — Withdraw before the draw
+ *
+ * Run start/submit routes are registered from the game registry (GameDefinition.run);
+ * validation, points and caps come from each game's module.
  */
 
-import type { FastifyInstance, FastifyPluginOptions, FastifyRequest } from 'fastify';
+import type { FastifyInstance, FastifyPluginOptions, FastifyReply, FastifyRequest } from 'fastify';
+import { AiDifficulty, GameType } from '@prisma/client';
 import { z } from 'zod';
-import { computeScoreHash } from '../../shared/middleware/telegramAuth.js';
-import { getKyivDateString } from '../../shared/utils/timezone.js';
-import type { JwtPayload } from '../../shared/jwt.js';
+import { getKyivDateString, getKyivDayStart } from '../../shared/utils/timezone.js';
+import { verifyAccessToken, type JwtPayload } from '../../shared/jwt.js';
+import { getLeaderboard, LEADERBOARD_PERIODS } from './leaderboard.service.js';
+import { recordGameResult } from './games.service.js';
+import { getBracket, leaveTournament, registerForTournament } from './tournament.service.js';
+import { getGame, listGames, type GameDefinition, type GameRun } from './registry.js';
+import {
+  aiLevelOf,
+  checkWinner,
+  DEFAULT_AI_DIFFICULTY,
+  emptyBoard,
+  findBestMove,
+  isBoardFull,
+  isMoveConflict,
+  recordMove,
+  TTT_VARIANTS,
+  type CellValue,
+  type TttVariant,
+} from './ticTacToe.service.js';
 
 const BOT_USERNAME = process.env.BOT_USERNAME ?? 'perkup_ua_bot';
 
-/** Maximum realistic score per second of gameplay */
-const MAX_SCORE_PER_SECOND = 10;
-/** Maximum age of a submitted score timestamp (5 minutes) */
-const MAX_SCORE_AGE_MS = 5 * 60 * 1000;
-/** Maximum points from Perky Jump per day */
-const MAX_GAME_POINTS_PER_DAY = 5;
-/** Maximum scoring games per day */
-const MAX_SCORING_GAMES_PER_DAY = 5;
-/** Points per TIC_TAC_TOE win */
-const TTT_WIN_POINTS = 2;
-/** Max TTT win points per day */
-const TTT_MAX_DAILY_POINTS = 10;
-
 // ── Schemas ────────────────────────────────────────────────────────────────
 
 const createGameSchema = z.object({
   telegramId: z.union([z.number(), z.string()]).transform(String).optional(),
   mode: z.enum(['online', 'ai']).default('online'),
+  difficulty: z.nativeEnum(AiDifficulty).default(DEFAULT_AI_DIFFICULTY),
+  variant: z.enum(Object.keys(TTT_VARIANTS) as [TttVariant, ...TttVariant[]]).default('CLASSIC'),
 });
 
 const joinGameSchema = z.object({
-  telegramId: z.union([z.number(), z.string()]).transform(String).optional(),
   gameId: z.string().min(1),
 });
 
 const aiMoveSchema = z.object({
   gameId: z.string().min(1),
+  telegramId: z.union([z.number(), z.string()]).transform(String).optional(),
+  /** The player's X — omitted to only ask for the AI's reply */
+  move: z.object({
+    row: z.number().int().min(0),
+    col: z.number().int().min(0),
+  }).optional(),
+});
+
+const viewerQuerySchema = z.object({
+  telegramId: z.string().optional(),
 });
 
-const submitScoreSchema = z.object({
+const tournamentActionSchema = z.object({
   telegramId: z.union([z.number(), z.string()]).transform(String).optional(),
-  score: z.number().int().nonnegative(),
-  timestamp: z.number().int().positive(),
-  hash: z.string().length(64),
-  gameDurationMs: z.number().int().positive().optional(),
 });
 
-// ── Helpers ────────────────────────────────────────────────────────────────
+const leaderboardQuerySchema = z.object({
+  game: z.nativeEnum(GameType),
+  period: z.enum(LEADERBOARD_PERIODS).default('week'),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  telegramId: z.string().optional(),
+});
 
-type CellValue = 'X' | 'O' | null;
+// ── Helpers ────────────────────────────────────────────────────────────────
 
 /** Resolve userId from JWT or telegramId */
 async function resolveUser(request: FastifyRequest, prisma: FastifyInstance['prisma']) {
@@ -74,119 +102,137 @@ async function resolveUser(request: FastifyRequest, prisma: FastifyInstance['pri
   return null;
 }
 
-function checkWinner(board: CellValue[][]): CellValue {
-  const lines: [number, number][][] = [
-    [[0,0],[0,1],[0,2]], [[1,0],[1,1],[1,2]], [[2,0],[2,1],[2,2]],
-    [[0,0],[1,0],[2,0]], [[0,1],[1,1],[2,1]], [[0,2],[1,2],[2,2]],
-    [[0,0],[1,1],[2,2]], [[0,2],[1,1],[2,0]],
-  ];
-  for (const [[r1,c1],[r2,c2],[r3,c3]] of lines) {
-    const a = board[r1][c1];
-    if (a && a === board[r2][c2] && a === board[r3][c3]) return a;
+/** Optional viewer of a GET endpoint — Bearer token, else the telegramId query param */
+async function resolveViewerId(
+  request: FastifyRequest,
+  prisma: FastifyInstance['prisma'],
+  telegramId?: string,
+): Promise<string | undefined> {
+  const authHeader = request.headers.authorization;
+  if (authHeader?.startsWith('Bearer ')) {
+    const userId = verifyAccessToken(authHeader.slice(7))?.userId;
+    if (userId) return userId;
   }
-  return null;
+  if (telegramId) {
+    const user = await prisma.user.findUnique({ where: { telegramId }, select: { id: true } });
+    return user?.id;
+  }
+  return undefined;
 }
 
-function isBoardFull(board: CellValue[][]): boolean {
-  return board.every(row => row.every(cell => cell !== null));
-}
+/**
+ * POST <run.paths.start> — open a single-use PLAYING session. Earlier
+ * unfinished runs of the same game become unusable.
+ */
+function startRunHandler(app: FastifyInstance, game: GameDefinition, run: GameRun) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = run.startSchema.parse(request.body ?? {});
+      const user = await resolveUser(request, app.prisma);
+      if (!user) return reply.status(404).send({ error: 'User not found' });
 
-// ── Minimax AI ─────────────────────────────────────────────────────────────
-
-function minimax(
-  board: CellValue[][],
-  depth: number,
-  isMaximizing: boolean,
-  aiSymbol: CellValue,
-  playerSymbol: CellValue,
-): number {
-  const winner = checkWinner(board);
-  if (winner === aiSymbol) return 10 - depth;
-  if (winner === playerSymbol) return depth - 10;
-  if (isBoardFull(board)) return 0;
-
-  if (isMaximizing) {
-    let best = -Infinity;
-    for (let r = 0; r < 3; r++) {
-      for (let c = 0; c < 3; c++) {
-        if (board[r][c] === null) {
-          board[r][c] = aiSymbol;
-          best = Math.max(best, minimax(board, depth + 1, false, aiSymbol, playerSymbol));
-          board[r][c] = null;
-        }
-      }
-    }
-    return best;
-  } else {
-    let best = Infinity;
-    for (let r = 0; r < 3; r++) {
-      for (let c = 0; c < 3; c++) {
-        if (board[r][c] === null) {
-          board[r][c] = playerSymbol;
-          best = Math.min(best, minimax(board, depth + 1, true, aiSymbol, playerSymbol));
-          board[r][c] = null;
-        }
-      }
+      // Only one run at a time
+      await app.prisma.gameSession.updateMany({
+        where: { player1Id: user.id, type: game.type, status: 'PLAYING' },
+        data: { status: 'ABANDONED' },
+      });
+
+      const session = await app.prisma.gameSession.create({
+        data: { type: game.type, player1Id: user.id, status: 'PLAYING' },
+      });
+
+      const extra = run.onStart?.({ id: session.id, userId: user.id }, body) ?? {};
+      return reply.send({ sessionId: session.id, ...extra });
+    } catch (error) {
+      app.log.error({ err: error }, `Start ${game.type} run error`);
+      if (error instanceof z.ZodError) return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
+      return reply.status(500).send({ error: 'Failed to start run' });
     }
-    return best;
-  }
+  };
 }
 
-function findBestMove(board: CellValue[][], aiSymbol: CellValue, playerSymbol: CellValue): { row: number; col: number } | null {
-  let bestScore = -Infinity;
-  let bestMove: { row: number; col: number } | null = null;
-
-  for (let r = 0; r < 3; r++) {
-    for (let c = 0; c < 3; c++) {
-      if (board[r][c] === null) {
-        board[r][c] = aiSymbol;
-        const score = minimax(board, 0, false, aiSymbol, playerSymbol);
-        board[r][c] = null;
-        if (score > bestScore) {
-          bestScore = score;
-          bestMove = { row: r, col: c };
-        }
+/**
+ * POST <run.paths.submit> — validate the result with the game's validator,
+ * claim the session once, then record the score and points.
+ */
+function submitRunHandler(app: FastifyInstance, game: GameDefinition, run: GameRun) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = run.submitSchema.parse(request.body);
+      const user = await resolveUser(request, app.prisma);
+      if (!user) return reply.status(404).send({ error: 'User not found' });
+
+      // 1. Session owner (signed ticket where the game uses one)
+      const sessionId = run.sessionIdOf(body, user.id);
+      if (!sessionId) {
+        return reply.status(400).send({ error: 'InvalidTicket', message: 'Game ticket is invalid or expired' });
+      }
+      const session = await app.prisma.gameSession.findUnique({ where: { id: sessionId } });
+      if (!session || session.player1Id !== user.id || session.type !== game.type) {
+        return reply.status(404).send({ error: 'SessionNotFound', message: 'Game session not found' });
       }
-    }
-  }
 
-  return bestMove;
-}
+      // 2. Game-specific score validation
+      const verdict = run.validate(body, Date.now() - session.createdAt.getTime());
 
-/** Get Kyiv day start as UTC Date */
-function kyivDayStart(): Date {
-  const kyivDateStr = getKyivDateString();
-  const [y, m, d] = kyivDateStr.split('-').map(Number);
-  return new Date(Date.UTC(y, m - 1, d, 0, 0, 0));
-}
+      // 3. Single use — claim the PLAYING session
+      const claimed = await app.prisma.gameSession.updateMany({
+        where: { id: session.id, status: 'PLAYING' },
+        data: {
+          status: verdict.ok ? 'FINISHED' : 'ABANDONED',
+          score: body.score,
+          ...(run.securityHash ? { securityHash: run.securityHash(body) } : {}),
+        },
+      });
+      if (claimed.count === 0) {
+        return reply.status(409).send({ error: 'SessionUsed', message: 'Game session was already submitted' });
+      }
 
-/** Update DailyGameLimit and return remaining points budget */
-async function updateDailyLimit(
-  prisma: FastifyInstance['prisma'],
-  userId: string,
-  gameType: 'TIC_TAC_TOE' | 'PERKY_JUMP',
-  pointsToAdd: number,
-): Promise<{ pointsAwarded: number; pointsEarnedToday: number }> {
-  const todayKyiv = getKyivDateString();
-  const maxDaily = gameType === 'TIC_TAC_TOE' ? TTT_MAX_DAILY_POINTS : MAX_GAME_POINTS_PER_DAY;
-
-  const limit = await prisma.dailyGameLimit.upsert({
-    where: { userId_gameType_date: { userId, gameType, date: todayKyiv } },
-    update: {},
-    create: { userId, gameType, date: todayKyiv, pointsEarned: 0 },
-  });
+      if (!verdict.ok) {
+        app.log.warn({ userId: user.id, score: body.score, reason: verdict.message }, `Implausible ${game.label} run`);
+        return reply.status(400).send({ error: 'ImplausibleRun', message: 'Score verification failed' });
+      }
 
-  const remaining = Math.max(0, maxDaily - limit.pointsEarned);
-  const actualPoints = Math.min(pointsToAdd, remaining);
+      // 4. Scoring runs left today (this run is already FINISHED)
+      let todaySessions = 0;
+      if (game.dailyScoringRuns !== undefined) {
+        todaySessions = await app.prisma.gameSession.count({
+          where: {
+            player1Id: user.id,
+            type: game.type,
+            status: 'FINISHED',
+            createdAt: { gte: getKyivDayStart(getKyivDateString()) },
+            id: { not: session.id },
+          },
+        });
+      }
+      const canEarnPoints = game.dailyScoringRuns === undefined || todaySessions < game.dailyScoringRuns;
+
+      // 5. GameScore + points within the daily cap + leaderboards
+      const { pointsAwarded, rawPoints } = await recordGameResult(app.prisma, game, {
+        userId: user.id,
+        score: body.score,
+        sessionId: session.id,
+        durationMs: verdict.durationMs,
+        earnsPoints: canEarnPoints,
+      });
 
-  if (actualPoints > 0) {
-    await prisma.dailyGameLimit.update({
-      where: { id: limit.id },
-      data: { pointsEarned: { increment: actualPoints } },
-    });
-  }
+      app.log.info({ userId: user.id, score: body.score, pointsAwarded, todaySessions }, `${game.label} score submitted`);
 
-  return { pointsAwarded: actualPoints, pointsEarnedToday: limit.pointsEarned + actualPoints };
+      return reply.send({
+        success: true,
+        pointsAwarded,
+        ...(game.dailyScoringRuns !== undefined
+          ? { scoringGamesLeft: Math.max(0, game.dailyScoringRuns - todaySessions - 1) }
+          : {}),
+        limitReached: !canEarnPoints || (rawPoints > 0 && pointsAwarded === 0),
+      });
+    } catch (error) {
+      app.log.error({ err: error }, `Submit ${game.type} score error`);
+      if (error instanceof z.ZodError) return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
+      return reply.status(500).send({ error: 'Failed to submit score' });
+    }
+  };
 }
 
 // ── Route Plugin ───────────────────────────────────────────────────────────
@@ -204,17 +250,25 @@ export async function gameRoutes(
       if (!user) return reply.status(404).send({ error: 'User not found' });
 
       const isAI = body.mode === 'ai';
+      const { size, winLength } = TTT_VARIANTS[body.variant];
 
       const game = await app.prisma.gameSession.create({
         data: {
           player1Id: user.id,
           type: 'TIC_TAC_TOE',
-          boardState: [[null, null, null], [null, null, null], [null, null, null]],
+          boardState: emptyBoard(size),
+          boardSize: size,
+          winLength,
           currentTurn: user.id,
           status: isAI ? 'PLAYING' : 'WAITING',
+          matchSource: isAI ? 'AI' : 'INVITE',
           // AI games: player2 is null, but status is PLAYING
+          aiDifficulty: isAI ? body.difficulty : null,
+        },
+        select: {
+          id: true, status: true, type: true, currentTurn: true,
+          boardSize: true, winLength: true, aiDifficulty: true, createdAt: true,
         },
-        select: { id: true, status: true, type: true, currentTurn: true, createdAt: true },
       });
 
       const response: Record<string, unknown> = { game };
@@ -241,11 +295,12 @@ export async function gameRoutes(
       if (!game) return reply.status(404).send({ error: 'Game not found' });
       if (game.status !== 'WAITING') return reply.status(400).send({ error: 'Game already started or finished' });
       if (game.player1Id === user.id) return reply.status(400).send({ error: 'Cannot join your own game' });
+      if (game.tournamentId) return reply.status(400).send({ error: 'Tournament matches are paired by the bracket' });
 
       const updatedGame = await app.prisma.gameSession.update({
         where: { id: body.gameId },
         data: { player2Id: user.id, status: 'PLAYING' },
-        select: { id: true, player1Id: true, player2Id: true, status: true, boardState: true, currentTurn: true, type: true },
+        select: { id: true, player1Id: true, player2Id: true, status: true, boardState: true, boardSize: true, winLength: true, currentTurn: true, type: true },
       });
 
       if (app.io) app.io.to(`game:${game.id}`).emit('game:started', updatedGame);
@@ -276,62 +331,132 @@ export async function gameRoutes(
     }
   });
 
-  // ── POST /api/games/ai-move — Minimax AI move for TIC_TAC_TOE ──────────
+  // ── GET /api/games/:id/replay — Ordered move log ────────────────────────
+  app.get<{ Params: { id: string } }>('/:id/replay', async (request, reply) => {
+    try {
+      const game = await app.prisma.gameSession.findUnique({
+        where: { id: request.params.id },
+        include: {
+          player1: { select: { id: true, firstName: true } },
+          player2: { select: { id: true, firstName: true } },
+          moves: {
+            orderBy: { moveNumber: 'asc' },
+            select: { moveNumber: true, playerId: true, symbol: true, row: true, col: true, createdAt: true },
+          },
+        },
+      });
+      if (!game || game.type !== 'TIC_TAC_TOE') return reply.status(404).send({ error: 'Game not found' });
+
+      return reply.send({
+        gameId: game.id,
+        status: game.status,
+        matchSource: game.matchSource,
+        boardSize: game.boardSize,
+        winLength: game.winLength,
+        winnerId: game.winnerId,
+        player1: game.player1,
+        player2: game.player2,
+        createdAt: game.createdAt,
+        moves: game.moves,
+      });
+    } catch (error) {
+      app.log.error({ err: error }, 'Get replay error');
+      return reply.status(500).send({ error: 'Failed to get replay' });
+    }
+  });
+
+  // ── POST /api/games/ai-move — Player move + AI reply for TIC_TAC_TOE ──
   app.post('/ai-move', async (request, reply) => {
     try {
       const body = aiMoveSchema.parse(request.body);
       const game = await app.prisma.gameSession.findUnique({ where: { id: body.gameId } });
 
-      if (!game || game.status !== 'PLAYING') {
+      if (!game || game.type !== 'TIC_TAC_TOE' || game.status !== 'PLAYING') {
         return reply.status(400).send({ error: 'Game not active' });
       }
+      if (game.player2Id !== null) return reply.status(400).send({ error: 'Not an AI game' });
 
       const board = game.boardState as CellValue[][];
+      const level = aiLevelOf(game.aiDifficulty);
+      let playerMove: { row: number; col: number } | null = null;
+      let afterPlayer: CellValue[][] | null = null;
+
+      // The player is always 'X' (player1), the AI always 'O'
+      if (body.move) {
+        const user = await resolveUser(request, app.prisma);
+        if (!user || user.id !== game.player1Id) return reply.status(403).send({ error: 'Not a player in this game' });
+
+        const filled = board.flat().filter(c => c !== null).length;
+        if (filled % 2 !== 0) return reply.status(409).send({ error: 'Not your turn' });
+        if (body.move.row >= board.length || body.move.col >= board.length) {
+          return reply.status(400).send({ error: 'Invalid position' });
+        }
+        if (board[body.move.row][body.move.col] !== null) return reply.status(400).send({ error: 'Cell already taken' });
 
-      // AI is always 'O' (player2)
-      const aiSymbol: CellValue = 'O';
-      const playerSymbol: CellValue = 'X';
-
-      const move = findBestMove(board, aiSymbol, playerSymbol);
-      if (!move) return reply.status(400).send({ error: 'No valid moves available' });
+        playerMove = body.move;
+        board[playerMove.row][playerMove.col] = 'X';
+        afterPlayer = board.map(row => [...row]);
+      } else if (board.flat().filter(c => c !== null).length % 2 === 0) {
+        return reply.status(409).send({ error: 'Waiting for the player' });
+      }
 
-      board[move.row][move.col] = aiSymbol;
+      // The player's move may already end the game
+      const move = checkWinner(board, game.winLength) || isBoardFull(board)
+        ? null
+        : findBestMove(board, 'O', 'X', game.aiDifficulty, game.winLength);
+      if (!playerMove && !move) return reply.status(400).send({ error: 'No valid moves available' });
+      if (move) board[move.row][move.col] = 'O';
 
-      const winner = checkWinner(board);
+      const winner = checkWinner(board, game.winLength);
       const full = isBoardFull(board);
       const status: 'PLAYING' | 'FINISHED' = (winner || full) ? 'FINISHED' : 'PLAYING';
 
       const winnerId = winner === 'X' ? game.player1Id : winner === 'O' ? 'AI' : null;
 
-      const updatedGame = await app.prisma.gameSession.update({
-        where: { id: body.gameId },
-        data: {
-          boardState: board,
-          status,
-          currentTurn: game.player1Id,
-          ...(status === 'FINISHED' && winner === 'X' ? { winnerId: game.player1Id } : {}),
-        },
-      });
+      try {
+        await app.prisma.$transaction(async (tx) => {
+          if (playerMove && afterPlayer) {
+            await recordMove(tx, game.id, afterPlayer, { playerId: game.player1Id, symbol: 'X', ...playerMove });
+          }
+          if (move) {
+            await recordMove(tx, game.id, board, { playerId: null, symbol: 'O', row: move.row, col: move.col });
+          }
+          await tx.gameSession.update({
+            where: { id: body.gameId },
+            data: {
+              boardState: board,
+              status,
+              currentTurn: status === 'FINISHED' ? null : game.player1Id,
+              ...(status === 'FINISHED' && winner === 'X' ? { winnerId: game.player1Id } : {}),
+            },
+          });
+        });
+      } catch (error) {
+        if (isMoveConflict(error)) return reply.status(409).send({ error: 'Move already made' });
+        throw error;
+      }
 
-      // Award points if player won vs AI
+      // A win against the AI pays by difficulty
+      let pointsAwarded = 0;
       if (status === 'FINISHED' && winner === 'X') {
-        const { pointsAwarded } = await updateDailyLimit(
-          app.prisma, game.player1Id, 'TIC_TAC_TOE', TTT_WIN_POINTS,
-        );
-        if (pointsAwarded > 0) {
-          await app.prisma.user.update({
-            where: { id: game.player1Id },
-            data: { points: { increment: pointsAwarded } },
-          });
-        }
+        ({ pointsAwarded } = await recordGameResult(app.prisma, getGame('TIC_TAC_TOE'), {
+          userId: game.player1Id,
+          score: 1,
+          sessionId: game.id,
+          points: level.winPoints,
+          reason: 'Перемога в хрестики-нулики проти AI',
+        }));
       }
 
       return reply.send({
+        playerMove,
         move,
         board,
         status,
         winnerId,
         isFinished: status === 'FINISHED',
+        difficulty: game.aiDifficulty,
+        pointsAwarded,
       });
     } catch (error) {
       app.log.error({ err: error }, 'AI move error');
@@ -340,133 +465,145 @@ export async function gameRoutes(
     }
   });
 
-  // ── POST /api/games/submit-score — PERKY_JUMP with anti-cheat ──────────
-  app.post('/submit-score', async (request, reply) => {
+  // ── Single-player runs — start/submit per registered game ──────────────
+  for (const game of listGames()) {
+    if (!game.run) continue;
+    app.post(game.run.paths.start, startRunHandler(app, game, game.run));
+    app.post(game.run.paths.submit, submitRunHandler(app, game, game.run));
+  }
+
+  // ── GET /api/games/daily-limits — User's daily game limits ──────────────
+  app.get('/daily-limits', async (request, reply) => {
     try {
-      const body = submitScoreSchema.parse(request.body);
       const user = await resolveUser(request, app.prisma);
-      if (!user) return reply.status(404).send({ error: 'User not found' });
+      if (!user) return reply.status(401).send({ error: 'UNAUTHORIZED' });
 
-      // 1. Hash check
-      const expectedHash = computeScoreHash(body.score, body.timestamp);
-      if (expectedHash !== body.hash) {
-        app.log.warn({ userId: user.id, score: body.score }, 'Score hash mismatch');
-        return reply.status(400).send({ error: 'InvalidHash', message: 'Score verification failed' });
-      }
+      const todayKyiv = getKyivDateString();
+      const limits = await app.prisma.dailyGameLimit.findMany({
+        where: { userId: user.id, date: todayKyiv },
+      });
 
-      // 2. Timestamp freshness
-      const ageMs = Date.now() - body.timestamp;
-      if (ageMs < 0 || ageMs > MAX_SCORE_AGE_MS) {
-        return reply.status(400).send({ error: 'ExpiredScore', message: 'Score timestamp is too old or in the future' });
+      const result: Record<string, { pointsEarned: number; maxPoints: number }> = {};
+      for (const game of listGames()) {
+        result[game.type] = { pointsEarned: 0, maxPoints: game.dailyPointCap };
       }
 
-      // 3. Realism check
-      if (body.gameDurationMs !== undefined && body.gameDurationMs > 0) {
-        const durationSec = body.gameDurationMs / 1000;
-        const scoreRate = body.score / durationSec;
-        if (scoreRate > MAX_SCORE_PER_SECOND) {
-          app.log.warn({ userId: user.id, score: body.score, durationSec, scoreRate }, 'Unrealistic score rate');
-          return reply.status(400).send({ error: 'UnrealisticScore', message: 'Score rate is not plausible' });
+      for (const limit of limits) {
+        if (result[limit.gameType]) {
+          result[limit.gameType].pointsEarned = limit.pointsEarned;
         }
       }
 
-      // 4. Daily game limit check
-      const todayKyiv = getKyivDateString();
-      const dayStart = kyivDayStart();
-
-      const todaySessions = await app.prisma.gameSession.count({
-        where: {
-          player1Id: user.id,
-          type: 'PERKY_JUMP',
-          status: 'FINISHED',
-          createdAt: { gte: dayStart },
-        },
-      });
+      return reply.send({ date: todayKyiv, limits: result });
+    } catch (error) {
+      app.log.error({ err: error }, 'Daily limits error');
+      return reply.status(500).send({ error: 'Failed to get daily limits' });
+    }
+  });
 
-      const canEarnPoints = todaySessions < MAX_SCORING_GAMES_PER_DAY;
-      const rawPoints = Math.min(Math.floor(body.score / 100), MAX_GAME_POINTS_PER_DAY);
+  // ── GET /api/games/leaderboard — Top players + own rank ─────────────────
+  app.get('/leaderboard', async (request, reply) => {
+    try {
+      const query = leaderboardQuerySchema.parse(request.query);
+      const userId = await resolveViewerId(request, app.prisma, query.telegramId);
 
-      // 5. Persist game session
-      const session = await app.prisma.gameSession.create({
-        data: {
-          type: 'PERKY_JUMP',
-          player1Id: user.id,
-          status: 'FINISHED',
-          score: body.score,
-          securityHash: body.hash,
-        },
-      });
+      const leaderboard = await getLeaderboard(app.prisma, query.game, query.period, query.limit, userId);
+      return reply.send(leaderboard);
+    } catch (error) {
+      app.log.error({ err: error }, 'Leaderboard error');
+      if (error instanceof z.ZodError) return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
+      return reply.status(500).send({ error: 'Failed to get leaderboard' });
+    }
+  });
 
-      // 6. Record GameScore
-      let pointsAwarded = 0;
-      if (canEarnPoints && rawPoints > 0) {
-        const result = await updateDailyLimit(app.prisma, user.id, 'PERKY_JUMP', rawPoints);
-        pointsAwarded = result.pointsAwarded;
-      }
+  // ── GET /api/games/tournaments — Open, running and recent tournaments ───
+  app.get('/tournaments', async (request, reply) => {
+    try {
+      const query = viewerQuerySchema.parse(request.query);
+      const userId = await resolveViewerId(request, app.prisma, query.telegramId);
 
-      await app.prisma.gameScore.create({
-        data: {
-          userId: user.id,
-          gameType: 'PERKY_JUMP',
-          score: body.score,
-          pointsEarned: pointsAwarded,
-          duration: body.gameDurationMs ? Math.floor(body.gameDurationMs / 1000) : null,
-          sessionId: session.id,
+      const tournaments = await app.prisma.tournament.findMany({
+        where: {
+          OR: [
+            { status: { in: ['REGISTRATION', 'RUNNING'] } },
+            { status: 'FINISHED', updatedAt: { gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) } },
+          ],
+        },
+        include: {
+          location: { select: { id: true, name: true } },
+          _count: { select: { entries: true } },
+          ...(userId ? { entries: { where: { userId }, select: { id: true } } } : {}),
         },
+        orderBy: { registrationClosesAt: 'asc' },
       });
 
-      // 7. Award points
-      if (pointsAwarded > 0) {
-        await app.prisma.user.update({
-          where: { id: user.id },
-          data: { points: { increment: pointsAwarded } },
-        });
-      }
-
-      app.log.info(
-        { userId: user.id, score: body.score, pointsAwarded, todaySessions },
-        'Perky Jump score submitted',
-      );
-
       return reply.send({
-        success: true,
-        pointsAwarded,
-        scoringGamesLeft: Math.max(0, MAX_SCORING_GAMES_PER_DAY - todaySessions - 1),
-        limitReached: !canEarnPoints,
+        tournaments: tournaments.map(({ _count, entries, ...t }) => ({
+          ...t,
+          players: _count.entries,
+          registered: (entries?.length ?? 0) > 0,
+        })),
       });
     } catch (error) {
-      app.log.error({ err: error }, 'Submit score error');
+      app.log.error({ err: error }, 'List tournaments error');
       if (error instanceof z.ZodError) return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
-      return reply.status(500).send({ error: 'Failed to submit score' });
+      return reply.status(500).send({ error: 'Failed to get tournaments' });
     }
   });
 
-  // ── GET /api/games/daily-limits — User's daily game limits ──────────────
-  app.get('/daily-limits', async (request, reply) => {
+  // ── GET /api/games/tournaments/:id — Bracket ────────────────────────────
+  app.get<{ Params: { id: string } }>('/tournaments/:id', async (request, reply) => {
     try {
-      const user = await resolveUser(request, app.prisma);
-      if (!user) return reply.status(401).send({ error: 'UNAUTHORIZED' });
+      const query = viewerQuerySchema.parse(request.query);
+      const userId = await resolveViewerId(request, app.prisma, query.telegramId);
 
-      const todayKyiv = getKyivDateString();
-      const limits = await app.prisma.dailyGameLimit.findMany({
-        where: { userId: user.id, date: todayKyiv },
-      });
+      const bracket = await getBracket(app.prisma, request.params.id, userId);
+      if (!bracket) return reply.status(404).send({ error: 'TOURNAMENT_NOT_FOUND', message: 'Турнір не знайдено' });
+      return reply.send(bracket);
+    } catch (error) {
+      app.log.error({ err: error }, 'Get tournament error');
+      if (error instanceof z.ZodError) return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
+      return reply.status(500).send({ error: 'Failed to get tournament' });
+    }
+  });
 
-      const result: Record<string, { pointsEarned: number; maxPoints: number }> = {
-        TIC_TAC_TOE: { pointsEarned: 0, maxPoints: TTT_MAX_DAILY_POINTS },
-        PERKY_JUMP: { pointsEarned: 0, maxPoints: MAX_GAME_POINTS_PER_DAY },
-      };
+  // ── POST /api/games/tournaments/:id/register — Sign up ──────────────────
+  app.post<{ Params: { id: string } }>('/tournaments/:id/register', async (request, reply) => {
+    try {
+      tournamentActionSchema.parse(request.body ?? {});
+      const user = await resolveUser(request, app.prisma);
+      if (!user) return reply.status(404).send({ error: 'User not found' });
 
-      for (const limit of limits) {
-        if (result[limit.gameType]) {
-          result[limit.gameType].pointsEarned = limit.pointsEarned;
-        }
+      const result = await registerForTournament(app.prisma, request.params.id, user.id);
+      if (!result.ok) {
+        const status = result.error === 'TOURNAMENT_NOT_FOUND' ? 404 : result.error === 'ALREADY_REGISTERED' ? 409 : 400;
+        return reply.status(status).send({ error: result.error, message: result.message });
       }
+      return reply.send({ success: true, players: result.players });
+    } catch (error) {
+      app.log.error({ err: error }, 'Tournament register error');
+      if (error instanceof z.ZodError) return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
+      return reply.status(500).send({ error: 'Failed to register' });
+    }
+  });
 
-      return reply.send({ date: todayKyiv, limits: result });
+  // ── POST /api/games/tournaments/:id/leave — Withdraw before the draw ────
+  app.post<{ Params: { id: string } }>('/tournaments/:id/leave', async (request, reply) => {
+    try {
+      tournamentActionSchema.parse(request.body ?? {});
+      const user = await resolveUser(request, app.prisma);
+      if (!user) return reply.status(404).send({ error: 'User not found' });
+
+      const result = await leaveTournament(app.prisma, request.params.id, user.id);
+      if (!result.ok) {
+        return reply.status(result.error === 'TOURNAMENT_NOT_FOUND' ? 404 : 400).send({ error: result.error, message: result.message });
+      }
+      return reply.send({ success: true });
     } catch (error) {
-      app.log.error({ err: error }, 'Daily limits error');
-      return reply.status(500).send({ error: 'Failed to get daily limits' });
+      app.log.error({ err: error }, 'Tournament leave error');
+      if (error instanceof z.ZodError) return reply.status(400).send({ error: 'Invalid request data', details: error.errors });
+      return reply.status(500).send({ error: 'Failed to leave tournament' });
     }
   });
+
 }
@@ -0,0 +1,145 @@
+/**
+ * Games Module — results, daily point caps and session cleanup shared by every game
+ *
+ * Caps and the points formula come from the game's GameDefinition, so this
+ * file never branches on GameType.
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+import type { Server as SocketIOServer } from 'socket.io';
+import { getKyivDateString } from '../../shared/utils/timezone.js';
+import { applyPointsChange } from '../loyalty/points.service.js';
+import { applyTierMultiplier } from '../loyalty/tier.service.js';
+import { recordLeaderboardScore } from './leaderboard.service.js';
+import { onTournamentMatchFinished } from './tournament.service.js';
+import type { GameDefinition, GameResult } from './registry.js';
+
+/** Update DailyGameLimit and return the points that still fit today's cap */
+export async function updateDailyLimit(
+  prisma: Prisma.TransactionClient,
+  userId: string,
+  game: GameDefinition,
+  pointsToAdd: number,
+): Promise<{ pointsAwarded: number; pointsEarnedToday: number }> {
+  const todayKyiv = getKyivDateString();
+
+  const limit = await prisma.dailyGameLimit.upsert({
+    where: { userId_gameType_date: { userId, gameType: game.type, date: todayKyiv } },
+    update: {},
+    create: { userId, gameType: game.type, date: todayKyiv, pointsEarned: 0 },
+  });
+
+  const remaining = Math.max(0, game.dailyPointCap - limit.pointsEarned);
+  const actualPoints = Math.min(pointsToAdd, remaining);
+
+  if (actualPoints > 0) {
+    await prisma.dailyGameLimit.update({
+      where: { id: limit.id },
+      data: { pointsEarned: { increment: actualPoints } },
+    });
+  }
+
+  return { pointsAwarded: actualPoints, pointsEarnedToday: limit.pointsEarned + actualPoints };
+}
+
+/**
+ * Store a finished game: GameScore and the points ledger entry in one
+ * transaction, then the leaderboards. Returns the points credited and the
+ * uncapped points the score was worth.
+ */
+export async function recordGameResult(
+  prisma: PrismaClient,
+  game: GameDefinition,
+  result: GameResult,
+): Promise<{ pointsAwarded: number; rawPoints: number }> {
+  const rawPoints = result.earnsPoints === false ? 0 : Math.max(0, result.points ?? game.pointsFor(result.score));
+
+  const pointsAwarded = await prisma.$transaction(async (tx) => {
+    let awarded = 0;
+    if (rawPoints > 0) {
+      const capped = await updateDailyLimit(tx, result.userId, game, rawPoints);
+      awarded = capped.pointsAwarded;
+      // Daily cap applies to base points; the tier bonus comes on top
+      if (game.tierBonus && awarded > 0) {
+        const user = await tx.user.findUniqueOrThrow({ where: { id: result.userId }, select: { tier: true } });
+        awarded = applyTierMultiplier(awarded, user.tier, 'game');
+      }
+    }
+
+    await tx.gameScore.create({
+      data: {
+        userId: result.userId,
+        gameType: game.type,
+        score: result.score,
+        pointsEarned: awarded,
+        ...(result.durationMs !== undefined ? { duration: Math.floor(result.durationMs / 1000) } : {}),
+        sessionId: result.sessionId,
+      },
+    });
+
+    if (awarded > 0) {
+      await applyPointsChange(tx, {
+        userId: result.userId,
+        delta: awarded,
+        source: 'GAME',
+        reason: result.reason ?? `${game.label}: ${result.score} очок`,
+        referenceId: result.sessionId,
+      });
+    }
+
+    return awarded;
+  });
+
+  recordLeaderboardScore(game.type, result.userId, result.score).catch((err) => {
+    console.error(`[Game] Leaderboard update failed (${game.type}):`, err);
+  });
+
+  return { pointsAwarded, rawPoints };
+}
+
+/** No move (or submit) for this long — the session is dead */
+const STALE_PLAYING_MS = 60 * 60 * 1000;
+/** Invite links nobody opened */
+const STALE_WAITING_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Close sessions nobody will finish — e.g. matches cut off by a restart or
+ * runs never submitted — as ABANDONED without a winner.
+ *
+ * Tournament matches are the exception: a stalled one goes to the player who
+ * was waiting for the other's move, so the bracket can move on. WAITING
+ * bracket slots are left alone; they fill as the other branch finishes.
+ */
+export async function abandonStaleSessions(prisma: PrismaClient, io?: SocketIOServer, now: Date = new Date()): Promise<number> {
+  const playingBefore = new Date(now.getTime() - STALE_PLAYING_MS);
+  const waitingBefore = new Date(now.getTime() - STALE_WAITING_MS);
+
+  const { count } = await prisma.gameSession.updateMany({
+    where: {
+      tournamentId: null,
+      OR: [
+        { status: 'PLAYING', updatedAt: { lt: playingBefore } },
+        { status: 'WAITING', updatedAt: { lt: waitingBefore } },
+      ],
+    },
+    data: { status: 'ABANDONED' },
+  });
+
+  const stalledMatches = await prisma.gameSession.findMany({
+    where: { tournamentId: { not: null }, status: 'PLAYING', updatedAt: { lt: playingBefore } },
+    select: { id: true, player1Id: true, player2Id: true, currentTurn: true },
+  });
+  for (const match of stalledMatches) {
+    const winnerId = match.currentTurn === match.player1Id ? match.player2Id : match.player1Id;
+    const closed = await prisma.gameSession.updateMany({
+      where: { id: match.id, status: 'PLAYING' },
+      data: { status: 'ABANDONED', winnerId },
+    });
+    if (closed.count > 0) {
+      io?.to(`game:${match.id}`).emit('game:abandoned', { disconnectedPlayerId: match.currentTurn, winnerId });
+      await onTournamentMatchFinished(prisma, io, match.id);
+    }
+  }
+
+  return count + stalledMatches.length;
+}
@@ -0,0 +1,330 @@
+/**
+ * Game Leaderboards — daily / weekly / all-time boards per game
+ *
+ * Boards live in Redis sorted sets (lb:<game>:<period>:<key>) and are fed by
+ * recordLeaderboardScore() after every GameScore insert. A board missing in
+ * Redis (first read, flushed cache) is rebuilt from GameScore. With the
+ * in-memory redis fallback every read goes straight to Prisma.
+ *
+ * Scoring comes from each game's definition (leaderboardScoring): best single
+ * score, or the sum of scores — Tic-Tac-Toe stores 1 per win.
+ * Periods follow the Kyiv calendar; weeks start on Monday.
+ *
+ * Weekly prizes: awardWeeklyLeaderboards() pays LEADERBOARD_PRIZE_POINTS to
+ * last week's top 3 once (LeaderboardAward rows are unique per game/week/rank).
+ */
+
+import { randomUUID } from 'crypto';
+import { Prisma, type GameType, type PrismaClient } from '@prisma/client';
+import { redis, isInMemoryRedis } from '../../shared/redis.js';
+import { sendTelegramMessage } from '../../shared/utils/telegram.js';
+import {
+  getKyivDateString,
+  getKyivDayStart,
+  getKyivWeekStartString,
+  shiftKyivDateString,
+} from '../../shared/utils/timezone.js';
+import { applyPointsChange } from '../loyalty/points.service.js';
+import { getGame, listGames } from './registry.js';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+export const LEADERBOARD_PERIODS = ['day', 'week', 'all'] as const;
+export type LeaderboardPeriod = (typeof LEADERBOARD_PERIODS)[number];
+
+/** Redis TTL per period — a bit longer than the period itself */
+const PERIOD_TTL_SECONDS: Record<LeaderboardPeriod, number | null> = {
+  day: 3 * 24 * 60 * 60,
+  week: 15 * 24 * 60 * 60,
+  all: null,
+};
+
+/** Points for 1st, 2nd, 3rd place of the weekly board */
+const PRIZE_POINTS = (process.env.LEADERBOARD_PRIZE_POINTS ?? '50,30,15')
+  .split(',')
+  .map((p) => Math.max(0, Math.floor(Number(p) || 0)));
+
+const LEADERBOARD_CHAT_ID = process.env.LEADERBOARD_CHAT_ID;
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  name: string;
+  score: number;
+}
+
+export interface Leaderboard {
+  game: GameType;
+  period: LeaderboardPeriod;
+  /** Kyiv date the period starts on (null for all-time) */
+  periodStart: string | null;
+  entries: LeaderboardEntry[];
+  /** The requesting user's place, also when outside the top */
+  me: { rank: number; score: number } | null;
+}
+
+interface PeriodWindow {
+  key: string;
+  start: string | null;
+  since: Date | null;
+  until: Date | null;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function periodWindow(period: LeaderboardPeriod, now: Date = new Date()): PeriodWindow {
+  const today = getKyivDateString(now);
+  if (period === 'day') return { key: `day:${today}`, start: today, since: getKyivDayStart(today), until: null };
+  if (period === 'week') {
+    const monday = getKyivWeekStartString(today);
+    return { key: `week:${monday}`, start: monday, since: getKyivDayStart(monday), until: null };
+  }
+  return { key: 'all', start: null, since: null, until: null };
+}
+
+function boardKey(game: GameType, window: PeriodWindow): string {
+  return `lb:${game}:${window.key}`;
+}
+
+function displayName(user: { firstName: string | null; username: string | null } | undefined): string {
+  return user?.firstName ?? user?.username ?? 'Гравець';
+}
+
+function scoresWhere(game: GameType, since: Date | null, until: Date | null): Prisma.GameScoreWhereInput {
+  return {
+    gameType: game,
+    ...(since || until ? { createdAt: { ...(since ? { gte: since } : {}), ...(until ? { lt: until } : {}) } } : {}),
+  };
+}
+
+/**
+ * Per-user board scores from GameScore, best first.
+ */
+async function aggregateScores(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  game: GameType,
+  since: Date | null,
+  until: Date | null,
+  take?: number,
+): Promise<{ userId: string; score: number }[]> {
+  const where = scoresWhere(game, since, until);
+
+  if (getGame(game).leaderboardScoring === 'best') {
+    const rows = await prisma.gameScore.groupBy({
+      by: ['userId'],
+      where,
+      _max: { score: true },
+      orderBy: { _max: { score: 'desc' } },
+      ...(take ? { take } : {}),
+    });
+    return rows.map((r) => ({ userId: r.userId, score: r._max.score ?? 0 }));
+  }
+
+  const rows = await prisma.gameScore.groupBy({
+    by: ['userId'],
+    where,
+    _sum: { score: true },
+    orderBy: { _sum: { score: 'desc' } },
+    ...(take ? { take } : {}),
+  });
+  return rows.map((r) => ({ userId: r.userId, score: r._sum.score ?? 0 }));
+}
+
+async function rankFromDatabase(
+  prisma: PrismaClient,
+  game: GameType,
+  window: PeriodWindow,
+  userId: string,
+): Promise<{ rank: number; score: number } | null> {
+  const where = { ...scoresWhere(game, window.since, window.until), userId };
+
+  let score: number | null;
+  let better: number;
+  if (getGame(game).leaderboardScoring === 'best') {
+    score = (await prisma.gameScore.aggregate({ where, _max: { score: true } }))._max.score;
+    if (score === null) return null;
+    better = (await prisma.gameScore.groupBy({
+      by: ['userId'],
+      where: scoresWhere(game, window.since, window.until),
+      having: { score: { _max: { gt: score } } },
+    })).length;
+  } else {
+    score = (await prisma.gameScore.aggregate({ where, _sum: { score: true } }))._sum.score;
+    if (score === null) return null;
+    better = (await prisma.gameScore.groupBy({
+      by: ['userId'],
+      where: scoresWhere(game, window.since, window.until),
+      having: { score: { _sum: { gt: score } } },
+    })).length;
+  }
+
+  return { rank: better + 1, score };
+}
+
+/**
+ * Load a board from GameScore into its sorted set. A marker key records that
+ * the set is complete, so an empty board isn't rebuilt on every read.
+ *
+ * The set is built under a temporary key and renamed over the live one
+ * together with the marker, so readers never see a half-built board and a
+ * score recorded meanwhile isn't wiped by a DEL on the live key.
+ */
+async function ensureRedisBoard(prisma: PrismaClient, game: GameType, window: PeriodWindow, period: LeaderboardPeriod): Promise<string> {
+  const key = boardKey(game, window);
+  if (await redis.exists(`${key}:ready`)) return key;
+
+  const rows = await aggregateScores(prisma, game, window.since, window.until);
+  const ttl = PERIOD_TTL_SECONDS[period];
+
+  const commit = redis.multi();
+  if (rows.length > 0) {
+    const building = `${key}:building:${randomUUID()}`;
+    await redis.zadd(building, ...rows.flatMap((r) => [r.score, r.userId]));
+    // A TTL survives RENAME; it also cleans up after a crash before the commit
+    await redis.expire(building, ttl ?? 60);
+    commit.rename(building, key);
+    if (!ttl) commit.persist(key);
+  } else {
+    commit.del(key);
+  }
+  if (ttl) commit.set(`${key}:ready`, '1', 'EX', ttl);
+  else commit.set(`${key}:ready`, '1');
+  await commit.exec();
+
+  return key;
+}
+
+// ── Core ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Push a new GameScore into the Redis boards. Call after the score is committed.
+ */
+export async function recordLeaderboardScore(game: GameType, userId: string, score: number): Promise<void> {
+  if (isInMemoryRedis || score <= 0) return;
+
+  for (const period of LEADERBOARD_PERIODS) {
+    const key = boardKey(game, periodWindow(period));
+    if (getGame(game).leaderboardScoring === 'best') await redis.zadd(key, 'GT', score, userId);
+    else await redis.zincrby(key, score, userId);
+
+    const ttl = PERIOD_TTL_SECONDS[period];
+    if (ttl) await redis.expire(key, ttl);
+  }
+}
+
+export async function getLeaderboard(
+  prisma: PrismaClient,
+  game: GameType,
+  period: LeaderboardPeriod,
+  limit: number,
+  userId?: string,
+): Promise<Leaderboard> {
+  const window = periodWindow(period);
+
+  let top: { userId: string; score: number }[];
+  let me: { rank: number; score: number } | null = null;
+
+  if (isInMemoryRedis) {
+    top = await aggregateScores(prisma, game, window.since, window.until, limit);
+    if (userId) me = await rankFromDatabase(prisma, game, window, userId);
+  } else {
+    const key = await ensureRedisBoard(prisma, game, window, period);
+    const flat = await redis.zrevrange(key, 0, limit - 1, 'WITHSCORES');
+    top = [];
+    for (let i = 0; i < flat.length; i += 2) top.push({ userId: flat[i], score: Number(flat[i + 1]) });
+
+    if (userId) {
+      const [rank, score] = await Promise.all([redis.zrevrank(key, userId), redis.zscore(key, userId)]);
+      if (rank !== null && score !== null) me = { rank: rank + 1, score: Number(score) };
+    }
+  }
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: top.map((t) => t.userId) } },
+    select: { id: true, firstName: true, username: true },
+  });
+  const byId = new Map(users.map((u) => [u.id, u]));
+
+  return {
+    game,
+    period,
+    periodStart: window.start,
+    entries: top.map((t, i) => ({ rank: i + 1, userId: t.userId, name: displayName(byId.get(t.userId)), score: t.score })),
+    me,
+  };
+}
+
+/**
+ * Pay last week's top 3 of every game. Safe to run often — each week is paid once.
+ * Returns the number of prizes credited.
+ */
+export async function awardWeeklyLeaderboards(prisma: PrismaClient, now: Date = new Date()): Promise<number> {
+  const thisWeek = getKyivWeekStartString(getKyivDateString(now));
+  const lastWeek = shiftKyivDateString(thisWeek, -7);
+  let awarded = 0;
+
+  for (const { type: game } of listGames()) {
+    const alreadyPaid = await prisma.leaderboardAward.count({ where: { gameType: game, weekStart: lastWeek } });
+    if (alreadyPaid > 0) continue;
+
+    const top = await aggregateScores(prisma, game, getKyivDayStart(lastWeek), getKyivDayStart(thisWeek), MEDALS.length);
+    if (top.length === 0) continue;
+
+    let winners: { userId: string; score: number; rank: number; points: number; telegramId: string; name: string }[];
+    try {
+      winners = await prisma.$transaction(async (tx) => {
+        const result = [];
+        for (const [i, entry] of top.entries()) {
+          const points = PRIZE_POINTS[i] ?? 0;
+          await tx.leaderboardAward.create({
+            data: { gameType: game, weekStart: lastWeek, rank: i + 1, userId: entry.userId, score: entry.score, points },
+          });
+          if (points > 0) {
+            await applyPointsChange(tx, {
+              userId: entry.userId,
+              delta: points,
+              source: 'LEADERBOARD',
+              reason: `${getGame(game).label}: ${i + 1} місце за тиждень`,
+              referenceId: `${game}:${lastWeek}`,
+            });
+          }
+          const user = await tx.user.findUniqueOrThrow({
+            where: { id: entry.userId },
+            select: { telegramId: true, firstName: true, username: true },
+          });
+          result.push({ ...entry, rank: i + 1, points, telegramId: user.telegramId, name: displayName(user) });
+        }
+        return result;
+      });
+    } catch (err) {
+      // Another instance paid this week first
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') continue;
+      throw err;
+    }
+
+    awarded += winners.filter((w) => w.points > 0).length;
+
+    for (const w of winners) {
+      if (w.points <= 0) continue;
+      sendTelegramMessage(
+        Number(w.telegramId),
+        `${MEDALS[w.rank - 1]} *${w.rank} місце в ${getGame(game).label} за тиждень!*\n\n` +
+        `Твій результат: *${w.score}*\nНагорода: *+${w.points} балів*`,
+      ).catch(() => {});
+    }
+
+    if (LEADERBOARD_CHAT_ID) {
+      const lines = winners.map((w) => `${MEDALS[w.rank - 1]} ${w.name} — ${w.score}${w.points > 0 ? ` (+${w.points} балів)` : ''}`);
+      sendTelegramMessage(
+        LEADERBOARD_CHAT_ID,
+        `🏆 *${getGame(game).label} — переможці тижня*\n\n${lines.join('\n')}`,
+      ).catch(() => {});
+    }
+  }
+
+  return awarded;
+}
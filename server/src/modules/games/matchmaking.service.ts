@@ -0,0 +1,248 @@
+/**
+ * Tic-Tac-Toe Matchmaking — Redis-backed queue for online games
+ *
+ * Socket events:
+ *  - matchmaking:join  { locationId? } → matchmaking:waiting, later matchmaking:found
+ *  - matchmaking:leave                 → matchmaking:left
+ *
+ * A waiting player at the same location is preferred, then whoever has
+ * waited longest. After MATCHMAKING_TIMEOUT_MS without a partner the player
+ * gets a game against the minimax AI instead.
+ *
+ * The queue is one JSON list in Redis guarded by a short lock, so it survives
+ * restarts and is shared by every server instance. Players are notified via
+ * their user:<id> room; the sweeper on each instance handles timeouts,
+ * including entries left over from before a restart.
+ */
+
+import type { MatchSource, PrismaClient } from '@prisma/client';
+import type { Server as SocketIOServer } from 'socket.io';
+import { redis, withRedisLock } from '../../shared/redis.js';
+import type { RealtimeContext } from './registry.js';
+import { DEFAULT_AI_DIFFICULTY, emptyBoard } from './ticTacToe.service.js';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+const QUEUE_KEY = 'matchmaking:ttt:queue';
+const LOCK_KEY = 'matchmaking:ttt:lock';
+
+/** Wait for a human opponent before falling back to the AI */
+const MATCHMAKING_TIMEOUT_MS = 20_000;
+const SWEEP_INTERVAL_MS = 2_000;
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+interface QueueEntry {
+  userId: string;
+  locationId: string | null;
+  joinedAt: number;
+}
+
+// ── Queue storage ────────────────────────────────────────────────────────────
+
+async function readQueue(): Promise<QueueEntry[]> {
+  const raw = await redis.get(QUEUE_KEY);
+  return raw ? (JSON.parse(raw) as QueueEntry[]) : [];
+}
+
+async function writeQueue(queue: QueueEntry[]): Promise<void> {
+  if (queue.length === 0) await redis.del(QUEUE_KEY);
+  else await redis.set(QUEUE_KEY, JSON.stringify(queue));
+}
+
+function withQueueLock<T>(fn: () => Promise<T>): Promise<T> {
+  return withRedisLock(LOCK_KEY, fn);
+}
+
+async function isOnline(io: SocketIOServer, userId: string): Promise<boolean> {
+  return (await io.in(`user:${userId}`).fetchSockets()).length > 0;
+}
+
+// ── Matches ──────────────────────────────────────────────────────────────────
+
+/** The player who waited longer moves first as X */
+async function startMatch(
+  io: SocketIOServer,
+  prisma: PrismaClient,
+  waiting: QueueEntry,
+  joining: QueueEntry,
+): Promise<void> {
+  const local = joining.locationId !== null && waiting.locationId === joining.locationId;
+  const source: MatchSource = local ? 'MATCHMAKING_LOCAL' : 'MATCHMAKING';
+
+  const game = await prisma.gameSession.create({
+    data: {
+      type: 'TIC_TAC_TOE',
+      player1Id: waiting.userId,
+      player2Id: joining.userId,
+      boardState: emptyBoard(),
+      currentTurn: waiting.userId,
+      status: 'PLAYING',
+      matchSource: source,
+      matchLocationId: local ? joining.locationId : null,
+    },
+    include: {
+      player1: { select: { id: true, firstName: true, telegramId: true } },
+      player2: { select: { id: true, firstName: true, telegramId: true } },
+    },
+  });
+
+  for (const userId of [waiting.userId, joining.userId]) {
+    io.in(`user:${userId}`).socketsJoin(`game:${game.id}`);
+  }
+  io.to(`game:${game.id}`).emit('matchmaking:found', {
+    gameId: game.id,
+    vsAi: false,
+    matchSource: source,
+    currentTurn: game.currentTurn,
+    player1: game.player1,
+    player2: game.player2,
+  });
+
+  console.log(`[Matchmaking] ${waiting.userId} vs ${joining.userId} (${source}) → game ${game.id}`);
+}
+
+async function startAiFallback(io: SocketIOServer, prisma: PrismaClient, entry: QueueEntry): Promise<void> {
+  const game = await prisma.gameSession.create({
+    data: {
+      type: 'TIC_TAC_TOE',
+      player1Id: entry.userId,
+      boardState: emptyBoard(),
+      currentTurn: entry.userId,
+      status: 'PLAYING',
+      matchSource: 'MATCHMAKING_AI',
+      aiDifficulty: DEFAULT_AI_DIFFICULTY,
+    },
+  });
+
+  io.in(`user:${entry.userId}`).socketsJoin(`game:${game.id}`);
+  io.to(`user:${entry.userId}`).emit('matchmaking:found', {
+    gameId: game.id,
+    vsAi: true,
+    matchSource: 'MATCHMAKING_AI',
+    aiDifficulty: game.aiDifficulty,
+    currentTurn: game.currentTurn,
+  });
+
+  console.log(`[Matchmaking] ${entry.userId} waited ${MATCHMAKING_TIMEOUT_MS / 1000}s → AI game ${game.id}`);
+}
+
+// ── Core ─────────────────────────────────────────────────────────────────────
+
+function entryKey(entry: QueueEntry): string {
+  return `${entry.userId}:${entry.joinedAt}`;
+}
+
+/** Same-location players first, then everyone else; each part oldest first */
+function orderCandidates(queue: QueueEntry[], locationId: string | null): QueueEntry[] {
+  return locationId
+    ? [...queue.filter((e) => e.locationId === locationId), ...queue.filter((e) => e.locationId !== locationId)]
+    : queue;
+}
+
+/**
+ * Pair `userId` with a waiting player or put them in the queue.
+ * Offline entries met along the way are dropped.
+ *
+ * Presence checks go across instances and can take as long as the lock's TTL,
+ * so they run on a snapshot outside the lock; the pairing is then committed
+ * against a fresh read under the lock.
+ */
+async function joinQueue(io: SocketIOServer, prisma: PrismaClient, userId: string, locationId: string | null): Promise<boolean> {
+  const joining: QueueEntry = { userId, locationId, joinedAt: Date.now() };
+
+  const snapshot = (await readQueue()).filter((e) => e.userId !== userId);
+  const online = new Set<string>();
+  const offline = new Set<string>();
+  await Promise.all(snapshot.map(async (entry) => {
+    (await isOnline(io, entry.userId) ? online : offline).add(entryKey(entry));
+  }));
+
+  const partner = await withQueueLock(async () => {
+    const queue = (await readQueue()).filter((e) => e.userId !== userId);
+    // Entries that joined after the snapshot weren't checked; they wait for the next player
+    const found = orderCandidates(queue, locationId).find((e) => online.has(entryKey(e))) ?? null;
+
+    const rest = queue.filter((e) => e !== found && !offline.has(entryKey(e)));
+    await writeQueue(found ? rest : [...rest, joining]);
+    return found;
+  });
+
+  if (partner) await startMatch(io, prisma, partner, joining);
+  return partner !== null;
+}
+
+async function leaveQueue(userId: string): Promise<void> {
+  await withQueueLock(async () => {
+    const queue = await readQueue();
+    const rest = queue.filter((e) => e.userId !== userId);
+    if (rest.length !== queue.length) await writeQueue(rest);
+  });
+}
+
+/** Move players who waited too long to an AI game; drop the ones who went offline */
+async function sweepQueue(io: SocketIOServer, prisma: PrismaClient): Promise<void> {
+  const now = Date.now();
+
+  const expired = await withQueueLock(async () => {
+    const queue = await readQueue();
+    const timedOut = queue.filter((e) => now - e.joinedAt >= MATCHMAKING_TIMEOUT_MS);
+    if (timedOut.length > 0) await writeQueue(queue.filter((e) => !timedOut.includes(e)));
+    return timedOut;
+  });
+
+  for (const entry of expired) {
+    if (await isOnline(io, entry.userId)) await startAiFallback(io, prisma, entry);
+  }
+}
+
+// ── Socket handlers ──────────────────────────────────────────────────────────
+
+export function registerMatchmakingHandlers({ io, socket, prisma }: RealtimeContext): void {
+  socket.on('matchmaking:join', async (data?: { locationId?: string }) => {
+    const userId = socket.data.userId as string | undefined;
+    if (!userId) {
+      socket.emit('matchmaking:error', { message: 'Authentication required' });
+      return;
+    }
+
+    try {
+      const matched = await joinQueue(io, prisma, userId, data?.locationId ?? null);
+      if (!matched) socket.emit('matchmaking:waiting', { timeoutMs: MATCHMAKING_TIMEOUT_MS });
+    } catch (err) {
+      console.error('[Matchmaking] Join error:', err);
+      socket.emit('matchmaking:error', { message: 'Matchmaking unavailable, try again' });
+    }
+  });
+
+  socket.on('matchmaking:leave', async () => {
+    const userId = socket.data.userId as string | undefined;
+    if (!userId) return;
+
+    try {
+      await leaveQueue(userId);
+      socket.emit('matchmaking:left');
+    } catch (err) {
+      console.error('[Matchmaking] Leave error:', err);
+    }
+  });
+
+  socket.on('disconnect', async () => {
+    const userId = socket.data.userId as string | undefined;
+    if (!userId) return;
+
+    try {
+      // Still queued from another tab/device
+      if (await isOnline(io, userId)) return;
+      await leaveQueue(userId);
+    } catch (err) {
+      console.error('[Matchmaking] Disconnect error:', err);
+    }
+  });
+}
+
+export function startMatchmakingSweeper(io: SocketIOServer, prisma: PrismaClient): void {
+  setInterval(() => {
+    sweepQueue(io, prisma).catch((err) => console.error('[Matchmaking] Sweep error:', err));
+  }, SWEEP_INTERVAL_MS).unref();
+}
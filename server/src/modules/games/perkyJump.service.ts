@@ -0,0 +1,334 @@
+/**
+ * Perky Jump — server-side anti-cheat
+ *
+ * 1. POST /api/games/perky-jump/start creates a PLAYING GameSession and
+ *    returns a signed single-use ticket with a random seed.
+ * 2. The client builds the level from that seed (same generator as below)
+ *    and logs every landing: [msSinceStart, platformIndex], or
+ *    [msSinceStart, -1] for a mid-air jump.
+ * 3. On submit the server regenerates the platforms and checks that every
+ *    landing is physically reachable from the previous one, fragile
+ *    platforms aren't reused after they break, and the claimed score fits
+ *    the highest platform reached.
+ *
+ * Physics constants and LEVELS mirror client/src/components/PerkyJump.tsx —
+ * keep both in sync.
+ *
+ * Points: score / 100, max 5 pts/day, only the first 5 finished runs a day earn.
+ */
+
+import { createHash, randomInt } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { z } from 'zod';
+import type { GameDefinition } from './registry.js';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+const TICKET_SECRET =
+  process.env.GAME_TICKET_SECRET || process.env.JWT_SECRET || 'perkup-dev-game-ticket-secret-change-in-production';
+const TICKET_EXPIRY = '30m';
+
+const CANVAS_W = 390;
+const CANVAS_H = 650;
+const GRAVITY = 0.38;
+/** Highest gravity any mode applies (timed mode after 30 s) */
+const MAX_GRAVITY = GRAVITY + 0.08;
+const BASE_JUMP_VY = -12.8;
+const AIR_JUMP_VY = BASE_JUMP_VY * 0.9;
+/** Air jump is allowed once the player slows below this upward speed */
+const AIR_JUMP_MIN_VY = -6;
+/** Player top → feet distance when standing on a platform (hitbox offset + height) */
+const PLAYER_STAND_OFFSET = 47;
+/** Camera keeps the player at this screen height */
+const CAMERA_TARGET_Y = CANVAS_H * 0.62;
+const SCORE_PER_PX = 2.2;
+
+/** Physics runs once per animation frame — allow for 144 Hz screens */
+const MAX_FPS = 144;
+const FRAGILE_BREAK_MS = 2000;
+const TIMED_MODE_MS = 60_000;
+
+/** Slack for timer jitter and rounding */
+const TIME_TOLERANCE_MS = 500;
+const FRAME_JITTER_MS = 50;
+const RISE_TOLERANCE_PX = 12;
+const SCORE_TOLERANCE = 50;
+
+export const MAX_RUN_PLATFORMS = 10_000;
+/** Longest accepted event log (landings + air jumps) */
+const MAX_RUN_EVENTS = 20_000;
+
+/** Maximum points from Perky Jump per day */
+const MAX_GAME_POINTS_PER_DAY = 5;
+/** Maximum scoring games per day */
+const MAX_SCORING_GAMES_PER_DAY = 5;
+
+export const PERKY_JUMP_MODES = ['classic', 'timed', 'survival', 'racing'] as const;
+export type PerkyJumpMode = (typeof PERKY_JUMP_MODES)[number];
+
+type PlatformType = 'normal' | 'moving' | 'fragile';
+
+interface LevelConfig {
+  level: number;
+  minScore: number;
+  maxScore: number;
+  platformWidth: number;
+  gapMin: number;
+  gapMax: number;
+  movingChance: number;
+  fragileChance: number;
+  movingSpeed: number;
+}
+
+export const LEVELS: LevelConfig[] = [
+  { level: 1, minScore: 0,    maxScore: 999,                     platformWidth: 110, gapMin: 72,  gapMax: 102, movingChance: 0.0,  fragileChance: 0.0,  movingSpeed: 0 },
+  { level: 2, minScore: 1000, maxScore: 2499,                    platformWidth: 92,  gapMin: 86,  gapMax: 128, movingChance: 0.35, fragileChance: 0.0,  movingSpeed: 1.5 },
+  { level: 3, minScore: 2500, maxScore: 4999,                    platformWidth: 78,  gapMin: 98,  gapMax: 146, movingChance: 0.42, fragileChance: 0.3,  movingSpeed: 1.95 },
+  { level: 4, minScore: 5000, maxScore: Number.MAX_SAFE_INTEGER, platformWidth: 66,  gapMin: 112, gapMax: 170, movingChance: 0.62, fragileChance: 0.25, movingSpeed: 2.7 },
+];
+
+const FIRST_PLATFORM_Y = CANVAS_H - 90;
+const INITIAL_GAP_MIN = 80;
+const INITIAL_GAP_SPREAD = 25;
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface GameTicket {
+  sessionId: string;
+  userId: string;
+  seed: number;
+  mode: PerkyJumpMode;
+  /** Issue time, ms */
+  issuedAt: number;
+}
+
+export interface GeneratedPlatform {
+  index: number;
+  x: number;
+  y: number;
+  width: number;
+  type: PlatformType;
+  dx: number;
+}
+
+/** [msSinceStart, platformIndex] — platformIndex -1 is a mid-air jump */
+export type RunEvent = [number, number];
+
+export type RunCheckResult =
+  | { ok: true; maxScore: number; durationMs: number }
+  | { ok: false; error: 'IMPLAUSIBLE_RUN'; message: string };
+
+// ── Tickets ──────────────────────────────────────────────────────────────────
+
+export function issueGameTicket(sessionId: string, userId: string, mode: PerkyJumpMode): { ticket: string; seed: number } {
+  const seed = randomInt(0, 0xffffffff);
+  const ticket = jwt.sign({ sid: sessionId, uid: userId, seed, mode }, TICKET_SECRET, { expiresIn: TICKET_EXPIRY });
+  return { ticket, seed };
+}
+
+/**
+ * Decode a ticket. Returns null if the signature is wrong or it expired.
+ * Single use is enforced by the caller claiming the PLAYING session.
+ */
+export function verifyGameTicket(ticket: string): GameTicket | null {
+  try {
+    const payload = jwt.verify(ticket, TICKET_SECRET) as { sid: string; uid: string; seed: number; mode: PerkyJumpMode; iat: number };
+    return { sessionId: payload.sid, userId: payload.uid, seed: payload.seed, mode: payload.mode, issuedAt: payload.iat * 1000 };
+  } catch {
+    return null;
+  }
+}
+
+// ── Level generation ─────────────────────────────────────────────────────────
+
+/** mulberry32 — small seeded PRNG, identical on client and server */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function getLevelConfig(score: number): LevelConfig {
+  return LEVELS.find((l) => score >= l.minScore && score <= l.maxScore) ?? LEVELS[LEVELS.length - 1];
+}
+
+/**
+ * Platforms of a run in order. Each platform's level config depends only on
+ * the height of the one below it, so the layout is a pure function of the seed.
+ */
+export function createPlatformGenerator(seed: number, mode: PerkyJumpMode): () => GeneratedPlatform {
+  const random = seededRandom(seed);
+  const modeGapFactor = mode === 'timed' ? 1.1 : mode === 'survival' ? 1.12 : 1;
+  let index = 0;
+  let prevY = FIRST_PLATFORM_Y;
+
+  return () => {
+    if (index === 0) {
+      index++;
+      return { index: 0, x: CANVAS_W / 2 - 55, y: FIRST_PLATFORM_Y, width: 110, type: 'normal', dx: 0 };
+    }
+
+    // Score the camera shows when the next platform scrolls into view
+    const score = Math.max(0, Math.floor((-prevY - CANVAS_H) * SCORE_PER_PX));
+    const cfg = getLevelConfig(score);
+    const difficultyMultiplier = Math.min(1 + score / 4000, 2.25);
+
+    const gap = prevY > -CANVAS_H + INITIAL_GAP_MIN + INITIAL_GAP_SPREAD
+      ? INITIAL_GAP_MIN + random() * INITIAL_GAP_SPREAD
+      : (cfg.gapMin + random() * (cfg.gapMax - cfg.gapMin)) * modeGapFactor * (0.95 + difficultyMultiplier * 0.08);
+    const y = prevY - gap;
+
+    const r = random();
+    let type: PlatformType = 'normal';
+    if (r < cfg.fragileChance) type = 'fragile';
+    else if (r < cfg.fragileChance + cfg.movingChance) type = 'moving';
+
+    const x = random() * (CANVAS_W - cfg.platformWidth);
+    const dx = type === 'moving' ? cfg.movingSpeed * difficultyMultiplier * (random() > 0.5 ? 1 : -1) : 0;
+
+    prevY = y;
+    return { index: index++, x, y, width: cfg.platformWidth, type, dx };
+  };
+}
+
+// ── Plausibility check ───────────────────────────────────────────────────────
+
+/** Highest rise above the take-off point for a jump plus `airJumps` mid-air boosts */
+function maxRise(airJumps: number): number {
+  const jumpRise = (BASE_JUMP_VY * BASE_JUMP_VY) / (2 * GRAVITY);
+  const airJumpRise = (AIR_JUMP_VY * AIR_JUMP_VY) / (2 * GRAVITY);
+  return jumpRise + airJumps * airJumpRise;
+}
+
+/** Shortest possible time from take-off to landing `rise` px higher (no air jumps) */
+function minFlightMs(rise: number): number {
+  const v = -BASE_JUMP_VY;
+  const g = rise < (v * v) / (2 * MAX_GRAVITY) ? MAX_GRAVITY : GRAVITY;
+  const frames = (v + Math.sqrt(Math.max(0, v * v - 2 * g * rise))) / g;
+  return (frames / MAX_FPS) * 1000;
+}
+
+/** Time an air jump needs to slow down enough to allow the next one */
+const AIR_JUMP_MIN_MS = (((AIR_JUMP_MIN_VY - AIR_JUMP_VY) / MAX_GRAVITY) / MAX_FPS) * 1000;
+
+function implausible(message: string): RunCheckResult {
+  return { ok: false, error: 'IMPLAUSIBLE_RUN', message };
+}
+
+/**
+ * Check a submitted event log against the level generated from the ticket seed.
+ * `elapsedMs` is server time since the ticket was issued.
+ */
+export function checkRun(ticket: GameTicket, events: RunEvent[], score: number, elapsedMs: number): RunCheckResult {
+  const maxIndex = events.reduce((max, [, index]) => Math.max(max, index), 0);
+  if (maxIndex >= MAX_RUN_PLATFORMS) return implausible('Platform index out of range');
+
+  const next = createPlatformGenerator(ticket.seed, ticket.mode);
+  const platforms: GeneratedPlatform[] = [];
+  while (platforms.length <= maxIndex) platforms.push(next());
+
+  const durationLimit = ticket.mode === 'timed' ? Math.min(elapsedMs, TIMED_MODE_MS) : elapsedMs;
+  const fragileFirstTouch = new Map<number, number>();
+
+  let lastT = 0;
+  let lastAirJumpT = -Infinity;
+  let takeoffY = platforms[0].y;
+  let takeoffT = 0;
+  let airJumps = 0;
+  let topY = takeoffY;
+
+  for (const [t, index] of events) {
+    if (t < lastT) return implausible('Events out of order');
+    if (t > durationLimit + TIME_TOLERANCE_MS) return implausible('Event after the run ended');
+    lastT = t;
+
+    if (index < 0) {
+      if (t - lastAirJumpT < AIR_JUMP_MIN_MS - FRAME_JITTER_MS) return implausible('Air jumps too frequent');
+      lastAirJumpT = t;
+      airJumps++;
+      continue;
+    }
+
+    const platform = platforms[index];
+    const rise = takeoffY - platform.y;
+    if (rise > maxRise(airJumps) + RISE_TOLERANCE_PX) {
+      return implausible(`Platform ${index} out of jump reach`);
+    }
+    if (airJumps === 0 && t - takeoffT < minFlightMs(rise) - FRAME_JITTER_MS) {
+      return implausible(`Landing on platform ${index} too fast`);
+    }
+
+    if (platform.type === 'fragile') {
+      const firstTouch = fragileFirstTouch.get(index);
+      if (firstTouch === undefined) fragileFirstTouch.set(index, t);
+      else if (t - firstTouch > FRAGILE_BREAK_MS + TIME_TOLERANCE_MS) return implausible(`Platform ${index} was already broken`);
+    }
+
+    takeoffY = platform.y;
+    takeoffT = t;
+    airJumps = 0;
+    topY = Math.min(topY, platform.y);
+  }
+
+  // Score is the camera height; the camera follows the player's apex above the highest platform
+  const apexY = topY - PLAYER_STAND_OFFSET - maxRise(airJumps);
+  const maxScore = Math.max(0, Math.floor((CAMERA_TARGET_Y - apexY) * SCORE_PER_PX));
+
+  if (score > maxScore + SCORE_TOLERANCE) {
+    return implausible(`Score ${score} above reachable ${maxScore}`);
+  }
+
+  return { ok: true, maxScore, durationMs: Math.max(lastT, 1) };
+}
+
+// ── Definition ───────────────────────────────────────────────────────────────
+
+const startRunSchema = z.object({
+  telegramId: z.union([z.number(), z.string()]).transform(String).optional(),
+  mode: z.enum(PERKY_JUMP_MODES).default('classic'),
+});
+
+const submitScoreSchema = z.object({
+  telegramId: z.union([z.number(), z.string()]).transform(String).optional(),
+  ticket: z.string().min(1),
+  score: z.number().int().nonnegative(),
+  events: z.array(z.tuple([z.number().int().nonnegative(), z.number().int().min(-1)])).max(MAX_RUN_EVENTS),
+  gameDurationMs: z.number().int().positive().optional(),
+});
+
+export const perkyJumpGame: GameDefinition = {
+  type: 'PERKY_JUMP',
+  label: 'Perky Jump',
+  leaderboardScoring: 'best',
+  dailyPointCap: MAX_GAME_POINTS_PER_DAY,
+  dailyScoringRuns: MAX_SCORING_GAMES_PER_DAY,
+  pointsFor: (score) => Math.min(Math.floor(score / 100), MAX_GAME_POINTS_PER_DAY),
+  tierBonus: true,
+  run: {
+    paths: { start: '/perky-jump/start', submit: '/submit-score' },
+    startSchema: startRunSchema,
+    submitSchema: submitScoreSchema,
+    onStart: (session, body: z.infer<typeof startRunSchema>) => ({
+      ...issueGameTicket(session.id, session.userId, body.mode),
+      mode: body.mode,
+    }),
+    sessionIdOf: (body: z.infer<typeof submitScoreSchema>, userId) => {
+      const ticket = verifyGameTicket(body.ticket);
+      return ticket && ticket.userId === userId ? ticket.sessionId : null;
+    },
+    validate: (body: z.infer<typeof submitScoreSchema>, elapsedMs) => {
+      // sessionIdOf already accepted the ticket
+      const ticket = verifyGameTicket(body.ticket)!;
+      const check = checkRun(ticket, body.events, body.score, elapsedMs);
+      if (!check.ok) return check;
+      return { ok: true, durationMs: Math.min(body.gameDurationMs ?? check.durationMs, elapsedMs) };
+    },
+    securityHash: (body: z.infer<typeof submitScoreSchema>) =>
+      createHash('sha256').update(JSON.stringify(body.events)).digest('hex'),
+  },
+};
@@ -0,0 +1,97 @@
+/**
+ * Game Registry — one GameDefinition per GameType
+ *
+ * Each game module declares its rules (label, leaderboard scoring, daily
+ * caps), its points formula and either a single-player run (start/submit with
+ * a score validator) or Socket.IO handlers, or both. games.routes.ts,
+ * games.sockets.ts and the leaderboards only go through getGame()/listGames().
+ *
+ * Adding a game: extend the GameType enum, write a module exporting its
+ * GameDefinition and list it in GAMES — the compiler flags a missing entry.
+ */
+
+import type { GameType, PrismaClient } from '@prisma/client';
+import type { Server as SocketIOServer, Socket } from 'socket.io';
+import type { z } from 'zod';
+import { ticTacToeGame } from './ticTacToe.service.js';
+import { perkyJumpGame } from './perkyJump.service.js';
+import { coffeeCatcherGame } from './coffeeCatcher.service.js';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type RunVerdict =
+  | { ok: true; durationMs: number }
+  | { ok: false; error: 'IMPLAUSIBLE_RUN'; message: string };
+
+/** A finished game to store as GameScore, pay out and rank */
+export interface GameResult {
+  userId: string;
+  score: number;
+  sessionId: string;
+  durationMs?: number;
+  /** Points for this result instead of pointsFor(score), e.g. by AI difficulty */
+  points?: number;
+  /** Ledger reason, defaults to "<label>: <score> очок" */
+  reason?: string;
+  /** false once the user is out of scoring runs for today */
+  earnsPoints?: boolean;
+}
+
+export interface RealtimeContext {
+  io: SocketIOServer;
+  socket: Socket;
+  prisma: PrismaClient;
+  /** GameScore + points within the daily cap + leaderboards */
+  recordResult(result: GameResult): Promise<{ pointsAwarded: number }>;
+}
+
+/** Single-player run: POST start opens a PLAYING session, POST submit closes it once */
+export interface GameRun<TStart = unknown, TSubmit extends { score: number } = { score: number }> {
+  paths: { start: string; submit: string };
+  startSchema: z.ZodType<TStart, z.ZodTypeDef, unknown>;
+  submitSchema: z.ZodType<TSubmit, z.ZodTypeDef, unknown>;
+  /** Extra fields for the start response, e.g. a signed ticket */
+  onStart?(session: { id: string; userId: string }, body: TStart): Record<string, unknown>;
+  /** Session a submit belongs to — null when its ticket doesn't check out */
+  sessionIdOf(body: TSubmit, userId: string): string | null;
+  /** Score validator; `elapsedMs` is server time since the run started */
+  validate(body: TSubmit, elapsedMs: number): RunVerdict;
+  /** Stored on the session for later review */
+  securityHash?(body: TSubmit): string;
+}
+
+export interface GameDefinition {
+  type: GameType;
+  label: string;
+  /** Leaderboard rank by best single score or by the sum of scores */
+  leaderboardScoring: 'best' | 'sum';
+  /** Points a user can earn from this game per Kyiv day (DailyGameLimit) */
+  dailyPointCap: number;
+  /** Finished runs per day that still earn points (unlimited if unset) */
+  dailyScoringRuns?: number;
+  /** Loyalty points for a score, before the daily cap */
+  pointsFor(score: number): number;
+  /** Apply the tier 'game' multiplier on top of the capped points */
+  tierBonus: boolean;
+  run?: GameRun;
+  /** Called once when Socket.IO is set up — timers, sweepers */
+  realtimeStart?(io: SocketIOServer, prisma: PrismaClient): void;
+  /** Called for every Socket.IO connection */
+  realtime?(ctx: RealtimeContext): void;
+}
+
+// ── Registry ─────────────────────────────────────────────────────────────────
+
+const GAMES: Record<GameType, GameDefinition> = {
+  TIC_TAC_TOE: ticTacToeGame,
+  PERKY_JUMP: perkyJumpGame,
+  COFFEE_CATCHER: coffeeCatcherGame,
+};
+
+export function getGame(type: GameType): GameDefinition {
+  return GAMES[type];
+}
+
+export function listGames(): GameDefinition[] {
+  return Object.values(GAMES);
+}
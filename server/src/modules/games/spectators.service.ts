@@ -0,0 +1,145 @@
+/**
+ * Tic-Tac-Toe Spectators — watch live games and react with emoji
+ *
+ * Socket events:
+ *  - game:spectate   gameId           → game:state (snapshot), then every game:update
+ *  - game:unspectate gameId           → stop watching
+ *  - game:react      { gameId, emoji } → game:reaction to players and spectators
+ * The room gets game:spectators { gameId, count } whenever someone starts or
+ * stops watching.
+ *
+ * Spectators join the game:<id> room like the players (so they receive the
+ * same broadcasts) plus game:<id>:spectators for counting; handleMove rejects
+ * any socket that is spectating the game. Reactions come from anyone in the
+ * room, at most one per REACTION_COOLDOWN_SECONDS per user (or socket).
+ */
+
+import type { Server as SocketIOServer, Socket } from 'socket.io';
+import { redis } from '../../shared/redis.js';
+import type { RealtimeContext } from './registry.js';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+export const REACTION_EMOJI = ['👍', '👏', '🔥', '😂', '😮', '😢', '☕'] as const;
+const REACTION_COOLDOWN_SECONDS = 2;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function spectatorRoom(gameId: string): string {
+  return `game:${gameId}:spectators`;
+}
+
+function spectatedGames(socket: Socket): string[] {
+  return (socket.data.spectating as string[] | undefined) ?? [];
+}
+
+/** Watching sockets may not move, even if they claim a player's id */
+export function isSpectating(socket: Socket, gameId: string): boolean {
+  return spectatedGames(socket).includes(gameId);
+}
+
+async function emitSpectatorCount(io: SocketIOServer, gameId: string): Promise<void> {
+  const count = (await io.in(spectatorRoom(gameId)).fetchSockets()).length;
+  io.to(`game:${gameId}`).emit('game:spectators', { gameId, count });
+}
+
+// ── Socket handlers ──────────────────────────────────────────────────────────
+
+export function registerSpectatorHandlers({ io, socket, prisma }: RealtimeContext): void {
+  socket.on('game:spectate', async (gameId: string) => {
+    try {
+      const game = await prisma.gameSession.findUnique({
+        where: { id: String(gameId) },
+        include: {
+          player1: { select: { id: true, firstName: true } },
+          player2: { select: { id: true, firstName: true } },
+        },
+      });
+      if (!game || game.type !== 'TIC_TAC_TOE' || (game.status !== 'PLAYING' && game.status !== 'WAITING')) {
+        socket.emit('game:error', { message: 'Game not active' });
+        return;
+      }
+
+      const userId = socket.data.userId as string | undefined;
+      if (userId && (userId === game.player1Id || userId === game.player2Id)) {
+        socket.emit('game:error', { message: 'Players cannot spectate their own game' });
+        return;
+      }
+
+      if (!isSpectating(socket, game.id)) {
+        socket.data.spectating = [...spectatedGames(socket), game.id];
+      }
+      socket.join([`game:${game.id}`, spectatorRoom(game.id)]);
+
+      socket.emit('game:state', {
+        gameId: game.id,
+        board: game.boardState,
+        boardSize: game.boardSize,
+        winLength: game.winLength,
+        status: game.status,
+        currentTurn: game.currentTurn,
+        player1: game.player1,
+        player2: game.player2,
+        spectator: true,
+      });
+      await emitSpectatorCount(io, game.id);
+    } catch (err) {
+      console.error('[Spectators] Spectate error:', err);
+      socket.emit('game:error', { message: 'Server error' });
+    }
+  });
+
+  socket.on('game:unspectate', async (gameId: string) => {
+    if (!isSpectating(socket, gameId)) return;
+
+    socket.data.spectating = spectatedGames(socket).filter((id) => id !== gameId);
+    socket.leave(`game:${gameId}`);
+    socket.leave(spectatorRoom(gameId));
+    try {
+      await emitSpectatorCount(io, gameId);
+    } catch (err) {
+      console.error('[Spectators] Unspectate error:', err);
+    }
+  });
+
+  socket.on('game:react', async (data?: { gameId?: string; emoji?: string }) => {
+    const gameId = String(data?.gameId ?? '');
+    const emoji = data?.emoji as (typeof REACTION_EMOJI)[number] | undefined;
+
+    if (!socket.rooms.has(`game:${gameId}`)) {
+      socket.emit('game:error', { message: 'Join or spectate the game first' });
+      return;
+    }
+    if (!emoji || !REACTION_EMOJI.includes(emoji)) {
+      socket.emit('game:error', { message: 'Unsupported reaction' });
+      return;
+    }
+
+    try {
+      const sender = (socket.data.userId as string | undefined) ?? socket.id;
+      const allowed = await redis.set(`ttt:react:${sender}`, '1', 'EX', REACTION_COOLDOWN_SECONDS, 'NX');
+      if (!allowed) {
+        socket.emit('game:react_limited', { retryInSeconds: REACTION_COOLDOWN_SECONDS });
+        return;
+      }
+
+      io.to(`game:${gameId}`).emit('game:reaction', {
+        gameId,
+        emoji,
+        fromUserId: socket.data.userId ?? null,
+        spectator: isSpectating(socket, gameId),
+      });
+    } catch (err) {
+      console.error('[Spectators] Reaction error:', err);
+    }
+  });
+
+  socket.on('disconnect', async () => {
+    // Rooms are already left — just refresh the counts
+    for (const gameId of spectatedGames(socket)) {
+      await emitSpectatorCount(io, gameId).catch((err) => {
+        console.error('[Spectators] Count error:', err);
+      });
+    }
+  });
+}
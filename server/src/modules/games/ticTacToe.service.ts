@@ -0,0 +1,717 @@
+/**
+ * Tic-Tac-Toe — board rules, minimax AI and realtime play
+ *
+ * Boards are N×N with K in a row to win (TTT_VARIANTS: classic 3×3, 4×4 and
+ * 5×5 four-in-a-row); the session stores boardSize and winLength.
+ *
+ * Online games run over Socket.IO:
+ *  - game:join   — subscribe to a game room (cancels a pending disconnect timeout)
+ *  - game:move   — make a move (also aliased as make_move)
+ *  - matchmaking:* — find an opponent without an invite link (matchmaking.service.ts)
+ *  - game:spectate / game:react — watch a game and send emoji (spectators.service.ts)
+ *  - game:rematch_request / game:rematch_accept / game:rematch_decline — play
+ *    the same opponent again with X/O swapped; the new session links to the old
+ *    one (rematchOfId) and both players are moved to its room
+ * A player who stays disconnected for DISCONNECT_TIMEOUT_MS forfeits. The
+ * socket → game mapping and the reconnect deadlines live in Redis, so a
+ * restart or another instance still enforces them (reconnect sweeper).
+ * Tournament matches report their result to tournament.service.ts.
+ *
+ * Every move is also appended to GameMove (GET /api/games/:id/replay).
+ *
+ * Games against the AI are played over REST (POST /api/games/ai-move) at the
+ * AiDifficulty chosen in /api/games/create; a win pays AI_LEVELS[level].
+ *
+ * Points: +2 per online win, 1–5 per AI win by difficulty, max 10 pts/day
+ * (DailyGameLimit). Leaderboards count wins.
+ */
+
+import { Prisma, type AiDifficulty, type PrismaClient } from '@prisma/client';
+import type { Server as SocketIOServer } from 'socket.io';
+import { redis, withRedisLock } from '../../shared/redis.js';
+import type { GameDefinition, RealtimeContext } from './registry.js';
+import { registerMatchmakingHandlers, startMatchmakingSweeper } from './matchmaking.service.js';
+import { isSpectating, registerSpectatorHandlers } from './spectators.service.js';
+import { onTournamentMatchFinished } from './tournament.service.js';
+
+export type CellValue = 'X' | 'O' | null;
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+/** Points per TIC_TAC_TOE win */
+export const TTT_WIN_POINTS = 2;
+/** Max TTT win points per day */
+const TTT_MAX_DAILY_POINTS = 10;
+const DISCONNECT_TIMEOUT_MS = 30_000; // 30 seconds to reconnect
+const RECONNECT_SWEEP_INTERVAL_MS = 2_000;
+
+/** socket id → { gameId, playerId } of the last move made from that socket */
+const SOCKET_KEY_PREFIX = 'ttt:socket:';
+const SOCKET_KEY_TTL_SECONDS = 24 * 60 * 60;
+const DEADLINES_KEY = 'ttt:reconnect:deadlines';
+const DEADLINES_LOCK_KEY = 'ttt:reconnect:lock';
+/** An unanswered rematch request lapses after this */
+const REMATCH_REQUEST_TTL_SECONDS = 60;
+
+// ── Board ────────────────────────────────────────────────────────────────────
+
+export interface BoardRules {
+  size: number;
+  /** Marks in a row (horizontal, vertical or diagonal) that win */
+  winLength: number;
+}
+
+/** Board variants offered by /api/games/create */
+export const TTT_VARIANTS = {
+  CLASSIC: { size: 3, winLength: 3 },
+  FOUR: { size: 4, winLength: 4 },
+  GOMOKU_LITE: { size: 5, winLength: 4 },
+} satisfies Record<string, BoardRules>;
+
+export type TttVariant = keyof typeof TTT_VARIANTS;
+
+export function emptyBoard(size = 3): CellValue[][] {
+  return Array.from({ length: size }, () => Array<CellValue>(size).fill(null));
+}
+
+const DIRECTIONS = [[0, 1], [1, 0], [1, 1], [1, -1]] as const;
+const lineCache = new Map<string, [number, number][][]>();
+
+/** Every straight run of `winLength` cells on a size × size board */
+function winLines(size: number, winLength: number): [number, number][][] {
+  const key = `${size}:${winLength}`;
+  const cached = lineCache.get(key);
+  if (cached) return cached;
+
+  const lines: [number, number][][] = [];
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      for (const [dr, dc] of DIRECTIONS) {
+        const endR = r + dr * (winLength - 1);
+        const endC = c + dc * (winLength - 1);
+        if (endR < 0 || endR >= size || endC < 0 || endC >= size) continue;
+        lines.push(Array.from({ length: winLength }, (_, i) => [r + dr * i, c + dc * i] as [number, number]));
+      }
+    }
+  }
+  lineCache.set(key, lines);
+  return lines;
+}
+
+export function checkWinner(board: CellValue[][], winLength = board.length): CellValue {
+  for (const line of winLines(board.length, winLength)) {
+    const [r0, c0] = line[0];
+    const a = board[r0][c0];
+    if (a && line.every(([r, c]) => board[r][c] === a)) return a;
+  }
+  return null;
+}
+
+export function isBoardFull(board: CellValue[][]): boolean {
+  return board.every(row => row.every(cell => cell !== null));
+}
+
+// ── Move log ─────────────────────────────────────────────────────────────────
+
+/**
+ * Append a move to the session log. `board` already contains the move, so its
+ * filled cells give the move number. Throws P2002 if that number is taken.
+ */
+export async function recordMove(
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  board: CellValue[][],
+  move: { playerId: string | null; symbol: 'X' | 'O'; row: number; col: number },
+): Promise<void> {
+  const moveNumber = board.flat().filter(c => c !== null).length;
+  await tx.gameMove.create({ data: { sessionId, moveNumber, ...move } });
+}
+
+/** Another move with the same number landed first */
+export function isMoveConflict(err: unknown): boolean {
+  return err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002';
+}
+
+// ── Minimax AI ───────────────────────────────────────────────────────────────
+
+/**
+ * Per difficulty: how many moves ahead the AI looks (its own move counts as
+ * the first) and the points a win against it is worth.
+ */
+export const AI_LEVELS: Record<AiDifficulty, { lookahead: number; winPoints: number }> = {
+  EASY: { lookahead: 1, winPoints: 1 },
+  MEDIUM: { lookahead: 2, winPoints: 2 },
+  HARD: { lookahead: 4, winPoints: 3 },
+  IMPOSSIBLE: { lookahead: 9, winPoints: 5 },
+};
+
+export const DEFAULT_AI_DIFFICULTY: AiDifficulty = 'MEDIUM';
+
+/** Larger boards can't be searched to the end — lookahead is capped per size */
+const MAX_LOOKAHEAD: Record<number, number> = { 3: 9, 4: 5, 5: 4 };
+
+const WIN_SCORE = 100_000;
+
+/** Sessions created before difficulty levels always played perfectly */
+export function aiLevelOf(difficulty: AiDifficulty | null): { lookahead: number; winPoints: number } {
+  return AI_LEVELS[difficulty ?? 'IMPOSSIBLE'];
+}
+
+interface Search {
+  board: CellValue[][];
+  winLength: number;
+  lookahead: number;
+  aiSymbol: CellValue;
+  playerSymbol: CellValue;
+}
+
+/**
+ * Empty cells worth trying, centre first so alpha-beta cuts early. On boards
+ * larger than 3×3 only cells next to an existing mark are considered.
+ */
+function candidateMoves(board: CellValue[][]): { row: number; col: number }[] {
+  const size = board.length;
+  const centre = (size - 1) / 2;
+  const nearOnly = size > 3 && board.some(row => row.some(cell => cell !== null));
+
+  const moves: { row: number; col: number }[] = [];
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      if (board[r][c] !== null) continue;
+      if (nearOnly && !hasNeighbour(board, r, c)) continue;
+      moves.push({ row: r, col: c });
+    }
+  }
+  const distance = (m: { row: number; col: number }) => Math.abs(m.row - centre) + Math.abs(m.col - centre);
+  return moves.sort((a, b) => distance(a) - distance(b));
+}
+
+function hasNeighbour(board: CellValue[][], row: number, col: number): boolean {
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      if (board[row + dr]?.[col + dc]) return true;
+    }
+  }
+  return false;
+}
+
+/** Position score at the search horizon: open lines weighted by how full they are */
+function evaluate({ board, winLength, aiSymbol }: Search): number {
+  let score = 0;
+  for (const line of winLines(board.length, winLength)) {
+    let ai = 0;
+    let player = 0;
+    for (const [r, c] of line) {
+      const cell = board[r][c];
+      if (cell === aiSymbol) ai++;
+      else if (cell !== null) player++;
+    }
+    if (ai > 0 && player === 0) score += 10 ** ai;
+    else if (player > 0 && ai === 0) score -= 10 ** player;
+  }
+  return score;
+}
+
+function minimax(s: Search, depth: number, alpha: number, beta: number, isMaximizing: boolean): number {
+  const winner = checkWinner(s.board, s.winLength);
+  if (winner === s.aiSymbol) return WIN_SCORE - depth;
+  if (winner === s.playerSymbol) return depth - WIN_SCORE;
+  if (isBoardFull(s.board)) return 0;
+  // Beyond the horizon 3×3 positions count as even; larger boards get a heuristic
+  if (depth + 1 >= s.lookahead) return s.board.length > 3 ? evaluate(s) : 0;
+
+  let best = isMaximizing ? -Infinity : Infinity;
+  for (const { row, col } of candidateMoves(s.board)) {
+    s.board[row][col] = isMaximizing ? s.aiSymbol : s.playerSymbol;
+    const score = minimax(s, depth + 1, alpha, beta, !isMaximizing);
+    s.board[row][col] = null;
+
+    if (isMaximizing) {
+      best = Math.max(best, score);
+      alpha = Math.max(alpha, best);
+    } else {
+      best = Math.min(best, score);
+      beta = Math.min(beta, best);
+    }
+    if (beta <= alpha) break;
+  }
+  return best;
+}
+
+/**
+ * Best move at the given difficulty (depth-limited minimax with alpha-beta);
+ * ties are broken at random so games vary.
+ */
+export function findBestMove(
+  board: CellValue[][],
+  aiSymbol: CellValue,
+  playerSymbol: CellValue,
+  difficulty: AiDifficulty | null = null,
+  winLength = board.length,
+): { row: number; col: number } | null {
+  const lookahead = Math.min(aiLevelOf(difficulty).lookahead, MAX_LOOKAHEAD[board.length] ?? 3);
+  const search: Search = { board, winLength, lookahead, aiSymbol, playerSymbol };
+  let bestScore = -Infinity;
+  let bestMoves: { row: number; col: number }[] = [];
+
+  for (const move of candidateMoves(board)) {
+    board[move.row][move.col] = aiSymbol;
+    // Window just below the best so far: equal moves still get an exact score
+    const score = minimax(search, 0, bestScore - 1, Infinity, false);
+    board[move.row][move.col] = null;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestMoves = [move];
+    } else if (score === bestScore) {
+      bestMoves.push(move);
+    }
+  }
+
+  if (bestMoves.length === 0) return null;
+  return bestMoves[Math.floor(Math.random() * bestMoves.length)];
+}
+
+// ── Connection state ─────────────────────────────────────────────────────────
+
+interface SocketGame {
+  gameId: string;
+  playerId: string;
+}
+
+interface ReconnectDeadline extends SocketGame {
+  deadline: number;
+}
+
+async function setSocketGame(socketId: string, mapping: SocketGame): Promise<void> {
+  await redis.set(`${SOCKET_KEY_PREFIX}${socketId}`, JSON.stringify(mapping), 'EX', SOCKET_KEY_TTL_SECONDS);
+}
+
+/** Read and forget the mapping of a socket that went away */
+async function takeSocketGame(socketId: string): Promise<SocketGame | null> {
+  const key = `${SOCKET_KEY_PREFIX}${socketId}`;
+  const raw = await redis.get(key);
+  if (!raw) return null;
+  await redis.del(key);
+  return JSON.parse(raw) as SocketGame;
+}
+
+/** Apply `fn` to the pending reconnect deadlines (one JSON list behind a lock) */
+function updateDeadlines<T>(fn: (deadlines: ReconnectDeadline[]) => { next: ReconnectDeadline[]; result: T }): Promise<T> {
+  return withRedisLock(DEADLINES_LOCK_KEY, async () => {
+    const raw = await redis.get(DEADLINES_KEY);
+    const current = raw ? (JSON.parse(raw) as ReconnectDeadline[]) : [];
+    const { next, result } = fn(current);
+    if (next.length !== current.length || next.some((d, i) => d !== current[i])) {
+      if (next.length === 0) await redis.del(DEADLINES_KEY);
+      else await redis.set(DEADLINES_KEY, JSON.stringify(next));
+    }
+    return result;
+  });
+}
+
+function addDeadline(entry: ReconnectDeadline): Promise<void> {
+  return updateDeadlines((deadlines) => ({
+    next: [...deadlines.filter((d) => d.gameId !== entry.gameId || d.playerId !== entry.playerId), entry],
+    result: undefined,
+  }));
+}
+
+/** True if the player had a pending deadline in this game */
+function cancelDeadline(gameId: string, playerId: string): Promise<boolean> {
+  return updateDeadlines((deadlines) => {
+    const next = deadlines.filter((d) => d.gameId !== gameId || d.playerId !== playerId);
+    return { next, result: next.length !== deadlines.length };
+  });
+}
+
+function takeExpiredDeadlines(now: number): Promise<ReconnectDeadline[]> {
+  return updateDeadlines((deadlines) => ({
+    next: deadlines.filter((d) => d.deadline > now),
+    result: deadlines.filter((d) => d.deadline <= now),
+  }));
+}
+
+/** The player didn't come back in time — the opponent wins by forfeit */
+async function forfeitGame(io: SocketIOServer, prisma: PrismaClient, gameId: string, playerId: string): Promise<void> {
+  const currentGame = await prisma.gameSession.findUnique({
+    where: { id: gameId },
+    select: { status: true, player1Id: true, player2Id: true },
+  });
+
+  if (!currentGame || currentGame.status !== 'PLAYING') return;
+
+  // Award win to the remaining player
+  const remainingPlayerId = playerId === currentGame.player1Id
+    ? currentGame.player2Id
+    : currentGame.player1Id;
+
+  const { count } = await prisma.gameSession.updateMany({
+    where: { id: gameId, status: 'PLAYING' },
+    data: {
+      status: 'ABANDONED',
+      winnerId: remainingPlayerId,
+    },
+  });
+  if (count === 0) return;
+
+  io.to(`game:${gameId}`).emit('game:abandoned', {
+    disconnectedPlayerId: playerId,
+    winnerId: remainingPlayerId,
+  });
+
+  console.log(`[Game] Game ${gameId} abandoned. Player ${playerId} disconnected. Winner: ${remainingPlayerId}`);
+
+  // A forfeit decides a bracket match too
+  await onTournamentMatchFinished(prisma, io, gameId);
+}
+
+async function sweepReconnectDeadlines(io: SocketIOServer, prisma: PrismaClient): Promise<void> {
+  for (const { gameId, playerId } of await takeExpiredDeadlines(Date.now())) {
+    await forfeitGame(io, prisma, gameId, playerId).catch((err) => {
+      console.error('[Socket.IO] Forfeit error:', err);
+    });
+  }
+}
+
+function startReconnectSweeper(io: SocketIOServer, prisma: PrismaClient): void {
+  setInterval(() => {
+    sweepReconnectDeadlines(io, prisma).catch((err) => console.error('[Socket.IO] Reconnect sweep error:', err));
+  }, RECONNECT_SWEEP_INTERVAL_MS).unref();
+}
+
+// ── Realtime ─────────────────────────────────────────────────────────────────
+
+function registerSocketHandlers({ io, socket, prisma, recordResult }: RealtimeContext): void {
+  socket.on('game:join', async (gameId: string) => {
+    socket.join(`game:${gameId}`);
+    console.log(`[Socket.IO] ${socket.id} joined room game:${gameId}`);
+
+    // Cancel any pending reconnect deadline for this player's game
+    const userId = socket.data.userId as string | undefined;
+    if (!userId) return;
+    try {
+      if (await cancelDeadline(gameId, userId)) {
+        // Notify room that player reconnected
+        io.to(`game:${gameId}`).emit('game:player_reconnected', { playerId: userId });
+      }
+    } catch (err) {
+      console.error('[Socket.IO] Reconnect error:', err);
+    }
+  });
+
+  const handleMove = async (data: {
+    gameId: string;
+    playerId: string;
+    row: number;
+    col: number;
+  }) => {
+    try {
+      if (isSpectating(socket, data.gameId)) {
+        socket.emit('game:error', { message: 'Spectators cannot make moves' });
+        return;
+      }
+
+      // Verify that the socket user matches the claimed playerId
+      if (socket.data.userId && socket.data.userId !== data.playerId) {
+        socket.emit('game:error', { message: 'Player ID mismatch' });
+        return;
+      }
+
+      const game = await prisma.gameSession.findUnique({ where: { id: data.gameId } });
+
+      if (!game || game.type !== 'TIC_TAC_TOE' || game.status !== 'PLAYING') {
+        socket.emit('game:error', { message: 'Game not active' });
+        return;
+      }
+
+      const board = game.boardState as CellValue[][];
+
+      if (data.row < 0 || data.row >= board.length || data.col < 0 || data.col >= board.length) {
+        socket.emit('game:error', { message: 'Invalid position' });
+        return;
+      }
+      if (board[data.row][data.col] !== null) {
+        socket.emit('game:error', { message: 'Cell already taken' });
+        return;
+      }
+
+      const isPlayer1 = data.playerId === game.player1Id;
+      const isPlayer2 = data.playerId === game.player2Id;
+      if (!isPlayer1 && !isPlayer2) {
+        socket.emit('game:error', { message: 'Not a player in this game' });
+        return;
+      }
+
+      // Turn validation using currentTurn field
+      if (game.currentTurn && game.currentTurn !== data.playerId) {
+        socket.emit('game:error', { message: 'Not your turn' });
+        return;
+      }
+
+      // Fallback turn validation by move count
+      if (!game.currentTurn) {
+        const moveCount = board.flat().filter(c => c !== null).length;
+        const isXTurn = moveCount % 2 === 0;
+        if ((isPlayer1 && !isXTurn) || (isPlayer2 && isXTurn)) {
+          socket.emit('game:error', { message: 'Not your turn' });
+          return;
+        }
+      }
+
+      const symbol = isPlayer1 ? 'X' : 'O';
+      board[data.row][data.col] = symbol;
+
+      const winner = checkWinner(board, game.winLength);
+      const full = isBoardFull(board);
+      const status: 'PLAYING' | 'FINISHED' = (winner || full) ? 'FINISHED' : 'PLAYING';
+      const winnerId: string | null = winner
+        ? (winner === 'X' ? game.player1Id : game.player2Id ?? null)
+        : null;
+
+      const nextTurn = isPlayer1 ? game.player2Id : game.player1Id;
+
+      // Track socket → game mapping for disconnect handling
+      await setSocketGame(socket.id, { gameId: data.gameId, playerId: data.playerId });
+
+      let updatedGame;
+      try {
+        updatedGame = await prisma.$transaction(async (tx) => {
+          await recordMove(tx, data.gameId, board, { playerId: data.playerId, symbol, row: data.row, col: data.col });
+          return tx.gameSession.update({
+            where: { id: data.gameId },
+            data: {
+              boardState: board,
+              status,
+              winnerId,
+              currentTurn: status === 'FINISHED' ? null : nextTurn,
+            },
+            include: {
+              player1: { select: { id: true, firstName: true, telegramId: true } },
+              player2: { select: { id: true, firstName: true, telegramId: true } },
+            },
+          });
+        });
+      } catch (err) {
+        if (isMoveConflict(err)) {
+          socket.emit('game:error', { message: 'Not your turn' });
+          return;
+        }
+        throw err;
+      }
+
+      // 1 = win; points within the daily cap
+      if (status === 'FINISHED' && winnerId) {
+        const vsAi = game.player2Id === null;
+        const { pointsAwarded } = await recordResult({
+          userId: winnerId,
+          score: 1,
+          sessionId: data.gameId,
+          ...(vsAi ? { points: aiLevelOf(game.aiDifficulty).winPoints } : {}),
+          reason: vsAi ? 'Перемога в хрестики-нулики проти AI' : 'Перемога в онлайн хрестики-нулики',
+        });
+        if (pointsAwarded > 0) console.log(`[Game] +${pointsAwarded} pts → winner ${winnerId}`);
+      }
+
+      io.to(`game:${data.gameId}`).emit('game:update', {
+        board,
+        status,
+        winnerId,
+        currentTurn: updatedGame.currentTurn,
+        lastMove: { row: data.row, col: data.col, symbol },
+        player1: updatedGame.player1,
+        player2: updatedGame.player2,
+      });
+
+      if (status === 'FINISHED') {
+        io.to(`game:${data.gameId}`).emit('game_over', {
+          board,
+          winnerId,
+          player1: updatedGame.player1,
+          player2: updatedGame.player2,
+        });
+
+        if (game.tournamentId) {
+          onTournamentMatchFinished(prisma, io, data.gameId).catch((err) => {
+            console.error('[Tournament] Advance error:', err);
+          });
+        }
+      }
+    } catch (err) {
+      console.error('[Socket.IO] Move error:', err);
+      socket.emit('game:error', { message: 'Server error processing move' });
+    }
+  };
+
+  socket.on('game:move', handleMove);
+  socket.on('make_move', handleMove); // backward-compat alias
+
+  socket.on('disconnect', async () => {
+    try {
+      const mapping = await takeSocketGame(socket.id);
+      if (!mapping) return;
+
+      const { gameId, playerId } = mapping;
+
+      // Check if game is still active
+      const game = await prisma.gameSession.findUnique({
+        where: { id: gameId },
+        select: { status: true },
+      });
+
+      if (!game || game.status !== 'PLAYING') return;
+
+      // Notify the other player
+      io.to(`game:${gameId}`).emit('game:opponent_disconnected', {
+        playerId,
+        timeoutMs: DISCONNECT_TIMEOUT_MS,
+      });
+
+      // If the player doesn't reconnect in time, the reconnect sweeper forfeits the game
+      await addDeadline({ gameId, playerId, deadline: Date.now() + DISCONNECT_TIMEOUT_MS });
+    } catch (err) {
+      console.error('[Socket.IO] Disconnect handler error:', err);
+    }
+  });
+}
+
+// ── Rematch ──────────────────────────────────────────────────────────────────
+
+/** Finished two-player game of `userId`, outside tournaments (the bracket decides those) */
+async function rematchableGame(prisma: PrismaClient, gameId: string, userId: string | undefined) {
+  if (!userId) return null;
+  const game = await prisma.gameSession.findUnique({ where: { id: String(gameId) } });
+  if (!game || game.type !== 'TIC_TAC_TOE' || game.status !== 'FINISHED') return null;
+  if (!game.player2Id || game.tournamentId) return null;
+  if (userId !== game.player1Id && userId !== game.player2Id) return null;
+  return game;
+}
+
+function registerRematchHandlers({ io, socket, prisma }: RealtimeContext): void {
+  const startRematch = async (previous: NonNullable<Awaited<ReturnType<typeof rematchableGame>>>) => {
+    let game;
+    try {
+      // Swapped sides: the previous O moves first as X
+      game = await prisma.gameSession.create({
+        data: {
+          type: 'TIC_TAC_TOE',
+          player1Id: previous.player2Id!,
+          player2Id: previous.player1Id,
+          boardState: emptyBoard(previous.boardSize),
+          boardSize: previous.boardSize,
+          winLength: previous.winLength,
+          currentTurn: previous.player2Id,
+          status: 'PLAYING',
+          matchSource: 'REMATCH',
+          rematchOfId: previous.id,
+        },
+        include: {
+          player1: { select: { id: true, firstName: true, telegramId: true } },
+          player2: { select: { id: true, firstName: true, telegramId: true } },
+        },
+      });
+    } catch (err) {
+      // Both accepted at once — the other accept already created it (rematchOfId is unique)
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') return;
+      throw err;
+    }
+
+    for (const userId of [game.player1Id, game.player2Id!]) {
+      io.in(`user:${userId}`).socketsJoin(`game:${game.id}`);
+    }
+    io.to(`game:${previous.id}`).emit('game:rematch_started', {
+      previousGameId: previous.id,
+      gameId: game.id,
+      board: game.boardState,
+      boardSize: game.boardSize,
+      winLength: game.winLength,
+      currentTurn: game.currentTurn,
+      player1: game.player1,
+      player2: game.player2,
+    });
+  };
+
+  socket.on('game:rematch_request', async (data?: { gameId?: string }) => {
+    const userId = socket.data.userId as string | undefined;
+    try {
+      const game = await rematchableGame(prisma, String(data?.gameId ?? ''), userId);
+      if (!game) {
+        socket.emit('game:error', { message: 'Rematch not available' });
+        return;
+      }
+
+      const key = `ttt:rematch:${game.id}`;
+      const pendingFrom = await redis.get(key);
+      // Both asked — same as accepting
+      if (pendingFrom && pendingFrom !== userId) {
+        await redis.del(key);
+        await startRematch(game);
+        return;
+      }
+
+      await redis.set(key, userId!, 'EX', REMATCH_REQUEST_TTL_SECONDS);
+      io.to(`game:${game.id}`).emit('game:rematch_requested', {
+        gameId: game.id,
+        fromUserId: userId,
+        expiresInMs: REMATCH_REQUEST_TTL_SECONDS * 1000,
+      });
+    } catch (err) {
+      console.error('[Socket.IO] Rematch request error:', err);
+      socket.emit('game:error', { message: 'Server error' });
+    }
+  });
+
+  socket.on('game:rematch_accept', async (data?: { gameId?: string }) => {
+    const userId = socket.data.userId as string | undefined;
+    try {
+      const game = await rematchableGame(prisma, String(data?.gameId ?? ''), userId);
+      const key = `ttt:rematch:${game?.id}`;
+      const pendingFrom = game ? await redis.get(key) : null;
+      if (!game || !pendingFrom || pendingFrom === userId) {
+        socket.emit('game:error', { message: 'No rematch request to accept' });
+        return;
+      }
+
+      await redis.del(key);
+      await startRematch(game);
+    } catch (err) {
+      console.error('[Socket.IO] Rematch accept error:', err);
+      socket.emit('game:error', { message: 'Server error' });
+    }
+  });
+
+  socket.on('game:rematch_decline', async (data?: { gameId?: string }) => {
+    const userId = socket.data.userId as string | undefined;
+    try {
+      const game = await rematchableGame(prisma, String(data?.gameId ?? ''), userId);
+      if (!game) return;
+
+      if (await redis.del(`ttt:rematch:${game.id}`)) {
+        io.to(`game:${game.id}`).emit('game:rematch_declined', { gameId: game.id, byUserId: userId });
+      }
+    } catch (err) {
+      console.error('[Socket.IO] Rematch decline error:', err);
+    }
+  });
+}
+
+// ── Definition ───────────────────────────────────────────────────────────────
+
+export const ticTacToeGame: GameDefinition = {
+  type: 'TIC_TAC_TOE',
+  label: 'Хрестики-нулики',
+  leaderboardScoring: 'sum',
+  dailyPointCap: TTT_MAX_DAILY_POINTS,
+  pointsFor: (wins) => wins * TTT_WIN_POINTS,
+  tierBonus: false,
+  realtimeStart: (io, prisma) => {
+    startMatchmakingSweeper(io, prisma);
+    startReconnectSweeper(io, prisma);
+  },
+  realtime: (ctx) => {
+    registerSocketHandlers(ctx);
+    registerMatchmakingHandlers(ctx);
+    registerSpectatorHandlers(ctx);
+    registerRematchHandlers(ctx);
+  },
+};
@@ -0,0 +1,533 @@
+/**
+ * Tic-Tac-Toe Tournaments — single-elimination brackets of GameSessions
+ *
+ * 1. An admin creates a tournament with a sign-up window and a bracket size.
+ * 2. Players register from the mini app until registrationClosesAt.
+ * 3. startDueTournaments() draws the bracket: the smallest power of two that
+ *    fits everyone, byes go to the top seeds. Round 1 matches are created as
+ *    PLAYING GameSessions; a bye moves its player straight to round 2.
+ * 4. When a match ends through the socket game_over flow (or a forfeit),
+ *    onTournamentMatchFinished() moves the winner into the next match — the
+ *    first winner to arrive opens it as WAITING, the second one starts it.
+ *    A draw is replayed in a fresh session with sides swapped.
+ * 5. The final pays winnerPoints / runnerUpPoints (source TOURNAMENT).
+ *
+ * The bot DMs every player their next opponent and posts each round to
+ * TOURNAMENT_CHAT_ID.
+ */
+
+import type { GameSession, PrismaClient, Tournament } from '@prisma/client';
+import type { Server as SocketIOServer } from 'socket.io';
+import { withRedisLock } from '../../shared/redis.js';
+import { sendTelegramMessage } from '../../shared/utils/telegram.js';
+import { applyPointsChange } from '../loyalty/points.service.js';
+import { emptyBoard } from './ticTacToe.service.js';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+export const TOURNAMENT_BRACKET_SIZES = [4, 8, 16, 32] as const;
+
+const BOT_USERNAME = process.env.BOT_USERNAME ?? 'perkup_ua_bot';
+const TOURNAMENT_CHAT_ID = process.env.TOURNAMENT_CHAT_ID;
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type TournamentResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; error: string; message: string };
+
+interface BracketPlayer {
+  id: string;
+  name: string;
+}
+
+export interface BracketMatch {
+  slot: number;
+  gameId: string | null;
+  status: GameSession['status'] | 'BYE' | 'PENDING';
+  player1: BracketPlayer | null;
+  player2: BracketPlayer | null;
+  winnerId: string | null;
+}
+
+export interface Bracket {
+  tournament: Tournament & { players: number; registered?: boolean };
+  rounds: { round: number; name: string; matches: BracketMatch[] }[];
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function displayName(user: { firstName: string | null; username: string | null } | null | undefined): string {
+  return user?.firstName ?? user?.username ?? 'Гравець';
+}
+
+function roundCount(bracketSize: number): number {
+  return Math.log2(bracketSize);
+}
+
+function roundName(round: number, bracketSize: number): string {
+  const left = roundCount(bracketSize) - round;
+  if (left === 0) return 'Фінал';
+  if (left === 1) return 'Півфінал';
+  if (left === 2) return 'Чвертьфінал';
+  return `Раунд ${round}`;
+}
+
+function nextPowerOfTwo(n: number): number {
+  let size = 2;
+  while (size < n) size *= 2;
+  return size;
+}
+
+/**
+ * Seed numbers (1-based) by bracket position, so that 1 meets 2 only in the
+ * final and the weakest seeds (the byes) face the strongest: 4 → [1, 4, 2, 3].
+ */
+function seedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const sum = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, sum - seed]);
+  }
+  return order;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function playLink(gameId: string): string {
+  return `https://t.me/${BOT_USERNAME}?start=game_${gameId}`;
+}
+
+function withTournamentLock<T>(tournamentId: string, fn: () => Promise<T>): Promise<T> {
+  return withRedisLock(`tournament:lock:${tournamentId}`, fn, { ttlSeconds: 15, retries: 100 });
+}
+
+/** Latest session per bracket slot — a drawn match is replayed in a new session */
+async function latestMatches(prisma: PrismaClient, tournamentId: string, round?: number): Promise<Map<string, GameSession>> {
+  const sessions = await prisma.gameSession.findMany({
+    where: { tournamentId, ...(round !== undefined ? { tournamentRound: round } : {}) },
+    orderBy: { createdAt: 'asc' },
+  });
+  const bySlot = new Map<string, GameSession>();
+  for (const s of sessions) bySlot.set(`${s.tournamentRound}:${s.bracketSlot}`, s);
+  return bySlot;
+}
+
+// ── Registration ─────────────────────────────────────────────────────────────
+
+export async function registerForTournament(
+  prisma: PrismaClient,
+  tournamentId: string,
+  userId: string,
+  now: Date = new Date(),
+): Promise<TournamentResult<{ players: number }>> {
+  return prisma.$transaction(async (tx) => {
+    const tournament = await tx.tournament.findUnique({
+      where: { id: tournamentId },
+      include: { _count: { select: { entries: true } } },
+    });
+    if (!tournament) return { ok: false, error: 'TOURNAMENT_NOT_FOUND', message: 'Турнір не знайдено' };
+
+    if (tournament.status !== 'REGISTRATION' || now < tournament.registrationOpensAt || now >= tournament.registrationClosesAt) {
+      return { ok: false, error: 'REGISTRATION_CLOSED', message: 'Реєстрація на турнір закрита' };
+    }
+    if (tournament._count.entries >= tournament.bracketSize) {
+      return { ok: false, error: 'TOURNAMENT_FULL', message: 'Усі місця в турнірі зайняті' };
+    }
+
+    const existing = await tx.tournamentEntry.findUnique({
+      where: { tournamentId_userId: { tournamentId, userId } },
+    });
+    if (existing) return { ok: false, error: 'ALREADY_REGISTERED', message: 'Ти вже зареєстрований' };
+
+    await tx.tournamentEntry.create({ data: { tournamentId, userId } });
+    return { ok: true, players: tournament._count.entries + 1 };
+  });
+}
+
+export async function leaveTournament(
+  prisma: PrismaClient,
+  tournamentId: string,
+  userId: string,
+): Promise<TournamentResult<object>> {
+  const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+  if (!tournament) return { ok: false, error: 'TOURNAMENT_NOT_FOUND', message: 'Турнір не знайдено' };
+  if (tournament.status !== 'REGISTRATION') {
+    return { ok: false, error: 'REGISTRATION_CLOSED', message: 'Турнір уже почався' };
+  }
+
+  const { count } = await prisma.tournamentEntry.deleteMany({ where: { tournamentId, userId } });
+  if (count === 0) return { ok: false, error: 'NOT_REGISTERED', message: 'Ти не зареєстрований' };
+  return { ok: true };
+}
+
+// ── Bracket ──────────────────────────────────────────────────────────────────
+
+export async function getBracket(prisma: PrismaClient, tournamentId: string, userId?: string): Promise<Bracket | null> {
+  const tournament = await prisma.tournament.findUnique({
+    where: { id: tournamentId },
+    include: {
+      entries: { include: { user: { select: { id: true, firstName: true, username: true } } } },
+    },
+  });
+  if (!tournament) return null;
+
+  const { entries, ...rest } = tournament;
+  const names = new Map(entries.map((e) => [e.userId, displayName(e.user)]));
+  const player = (id: string | null): BracketPlayer | null => (id ? { id, name: names.get(id) ?? 'Гравець' } : null);
+
+  const rounds: Bracket['rounds'] = [];
+  if (tournament.status === 'RUNNING' || tournament.status === 'FINISHED') {
+    const sessions = await latestMatches(prisma, tournamentId);
+    const bySeed = new Map(entries.filter((e) => e.seed !== null).map((e) => [e.seed!, e.userId]));
+
+    for (let round = 1; round <= roundCount(tournament.bracketSize); round++) {
+      const matches: BracketMatch[] = [];
+      for (let slot = 0; slot < tournament.bracketSize / 2 ** round; slot++) {
+        const session = sessions.get(`${round}:${slot}`);
+        if (session) {
+          matches.push({
+            slot,
+            gameId: session.id,
+            status: session.status,
+            player1: player(session.player1Id),
+            player2: player(session.player2Id),
+            winnerId: session.winnerId,
+          });
+        } else if (round === 1) {
+          // No session in round 1 means a bye
+          const p1 = bySeed.get(slot * 2) ?? null;
+          const p2 = bySeed.get(slot * 2 + 1) ?? null;
+          matches.push({ slot, gameId: null, status: 'BYE', player1: player(p1), player2: player(p2), winnerId: p1 ?? p2 });
+        } else {
+          matches.push({ slot, gameId: null, status: 'PENDING', player1: null, player2: null, winnerId: null });
+        }
+      }
+      rounds.push({ round, name: roundName(round, tournament.bracketSize), matches });
+    }
+  }
+
+  return {
+    tournament: {
+      ...rest,
+      players: entries.length,
+      ...(userId ? { registered: entries.some((e) => e.userId === userId) } : {}),
+    },
+    rounds,
+  };
+}
+
+// ── Progress ─────────────────────────────────────────────────────────────────
+
+/**
+ * Put `winnerId` into the next-round match fed by (round, slot). Must run
+ * under the tournament lock. Returns the match if it just became PLAYING.
+ */
+async function advanceWinner(
+  prisma: PrismaClient,
+  tournament: Tournament,
+  round: number,
+  slot: number,
+  winnerId: string,
+  feederId: string | null,
+): Promise<GameSession | null> {
+  const nextRound = round + 1;
+  const nextSlot = Math.floor(slot / 2);
+
+  const open = await prisma.gameSession.findFirst({
+    where: { tournamentId: tournament.id, tournamentRound: nextRound, bracketSlot: nextSlot, status: 'WAITING' },
+  });
+
+  let next: GameSession;
+  let started = false;
+  if (open && open.player1Id !== winnerId) {
+    next = await prisma.gameSession.update({
+      where: { id: open.id },
+      data: { player2Id: winnerId, status: 'PLAYING', currentTurn: open.player1Id },
+    });
+    started = true;
+  } else if (open) {
+    next = open;
+  } else {
+    next = await prisma.gameSession.create({
+      data: {
+        type: 'TIC_TAC_TOE',
+        player1Id: winnerId,
+        boardState: emptyBoard(),
+        currentTurn: winnerId,
+        status: 'WAITING',
+        matchSource: 'TOURNAMENT',
+        tournamentId: tournament.id,
+        tournamentRound: nextRound,
+        bracketSlot: nextSlot,
+      },
+    });
+  }
+
+  if (feederId) {
+    await prisma.gameSession.update({ where: { id: feederId }, data: { nextMatchId: next.id } });
+  }
+  return started ? next : null;
+}
+
+async function notifyMatch(
+  prisma: PrismaClient,
+  io: SocketIOServer | undefined,
+  tournament: Tournament,
+  match: GameSession,
+): Promise<void> {
+  const players = await prisma.user.findMany({
+    where: { id: { in: [match.player1Id, match.player2Id!] } },
+    select: { id: true, telegramId: true, firstName: true, username: true },
+  });
+  const round = roundName(match.tournamentRound!, tournament.bracketSize);
+
+  for (const p of players) {
+    const opponent = players.find((o) => o.id !== p.id);
+    sendTelegramMessage(
+      Number(p.telegramId),
+      `🏆 *${tournament.title}* — ${round}\n\n` +
+      `Твій суперник: *${displayName(opponent)}*\n` +
+      `${p.id === match.player1Id ? 'Ти ходиш першим (X).' : 'Ти граєш за O.'}\n\n` +
+      `[Грати](${playLink(match.id)})`,
+    ).catch(() => {});
+    io?.to(`user:${p.id}`).emit('tournament:match', { tournamentId: tournament.id, gameId: match.id, round });
+  }
+}
+
+async function announceRound(prisma: PrismaClient, tournament: Tournament, round: number): Promise<void> {
+  if (!TOURNAMENT_CHAT_ID) return;
+
+  const sessions = await latestMatches(prisma, tournament.id, round);
+  const ids = [...sessions.values()].flatMap((s) => [s.player1Id, s.player2Id]).filter((id): id is string => !!id);
+  const users = await prisma.user.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, firstName: true, username: true },
+  });
+  const name = (id: string | null) => displayName(users.find((u) => u.id === id));
+
+  const lines = [...sessions.values()]
+    .sort((a, b) => a.bracketSlot! - b.bracketSlot!)
+    .map((s) => `• ${name(s.player1Id)} vs ${s.player2Id ? name(s.player2Id) : '…'}`);
+
+  sendTelegramMessage(
+    TOURNAMENT_CHAT_ID,
+    `🏆 *${tournament.title}* — ${roundName(round, tournament.bracketSize)}\n\n${lines.join('\n')}`,
+  ).catch(() => {});
+}
+
+/** Every slot of the round has a winner (round 1 byes count as won) */
+async function isRoundComplete(prisma: PrismaClient, tournament: Tournament, round: number): Promise<boolean> {
+  const sessions = await latestMatches(prisma, tournament.id, round);
+  const decided = [...sessions.values()].filter((s) => s.winnerId).length;
+  const byes = round === 1 ? tournament.bracketSize / 2 - sessions.size : 0;
+  return decided + byes === tournament.bracketSize / 2 ** round;
+}
+
+async function finishTournament(prisma: PrismaClient, tournament: Tournament, final: GameSession): Promise<void> {
+  const championId = final.winnerId!;
+  const runnerUpId = final.player1Id === championId ? final.player2Id : final.player1Id;
+
+  const paid = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.tournament.updateMany({
+      where: { id: tournament.id, status: 'RUNNING' },
+      data: { status: 'FINISHED', winnerId: championId },
+    });
+    if (count === 0) return false;
+
+    const prizes: [string | null, number, string][] = [
+      [championId, tournament.winnerPoints, 'перемога'],
+      [runnerUpId, tournament.runnerUpPoints, '2 місце'],
+    ];
+    for (const [userId, points, place] of prizes) {
+      if (!userId || points <= 0) continue;
+      await applyPointsChange(tx, {
+        userId,
+        delta: points,
+        source: 'TOURNAMENT',
+        reason: `Турнір «${tournament.title}»: ${place}`,
+        referenceId: `tournament:${tournament.id}`,
+      });
+    }
+    return true;
+  });
+  if (!paid) return;
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: [championId, runnerUpId].filter((id): id is string => !!id) } },
+    select: { id: true, telegramId: true, firstName: true, username: true },
+  });
+  const champion = users.find((u) => u.id === championId);
+  const runnerUp = users.find((u) => u.id === runnerUpId);
+
+  if (champion) {
+    sendTelegramMessage(
+      Number(champion.telegramId),
+      `🥇 *Ти переміг у турнірі «${tournament.title}»!*\n\nНагорода: *+${tournament.winnerPoints} балів*`,
+    ).catch(() => {});
+  }
+  if (runnerUp && tournament.runnerUpPoints > 0) {
+    sendTelegramMessage(
+      Number(runnerUp.telegramId),
+      `🥈 *2 місце в турнірі «${tournament.title}»*\n\nНагорода: *+${tournament.runnerUpPoints} балів*`,
+    ).catch(() => {});
+  }
+  if (TOURNAMENT_CHAT_ID) {
+    sendTelegramMessage(
+      TOURNAMENT_CHAT_ID,
+      `🏆 *${tournament.title}* — переможець: *${displayName(champion)}*!\n🥈 ${displayName(runnerUp)}`,
+    ).catch(() => {});
+  }
+
+  console.log(`[Tournament] ${tournament.id} finished, champion ${championId}`);
+}
+
+/**
+ * Close registration of due tournaments and draw their brackets.
+ * Safe to run often and on several instances. Returns the number started.
+ */
+export async function startDueTournaments(prisma: PrismaClient, io?: SocketIOServer, now: Date = new Date()): Promise<number> {
+  const due = await prisma.tournament.findMany({
+    where: { status: 'REGISTRATION', registrationClosesAt: { lte: now } },
+    include: { entries: true },
+  });
+  let started = 0;
+
+  for (const { entries, ...tournament } of due) {
+    if (entries.length < 2) {
+      const { count } = await prisma.tournament.updateMany({
+        where: { id: tournament.id, status: 'REGISTRATION' },
+        data: { status: 'CANCELLED' },
+      });
+      if (count > 0 && entries.length === 1) {
+        const user = await prisma.user.findUnique({ where: { id: entries[0].userId }, select: { telegramId: true } });
+        if (user) {
+          sendTelegramMessage(
+            Number(user.telegramId),
+            `😔 Турнір «${tournament.title}» скасовано — не зібралося достатньо гравців.`,
+          ).catch(() => {});
+        }
+      }
+      continue;
+    }
+
+    // The bracket shrinks to the smallest power of two that fits everyone
+    const bracketSize = nextPowerOfTwo(entries.length);
+    const { count } = await prisma.tournament.updateMany({
+      where: { id: tournament.id, status: 'REGISTRATION' },
+      data: { status: 'RUNNING', bracketSize, currentRound: 1 },
+    });
+    if (count === 0) continue;
+
+    const running: Tournament = { ...tournament, status: 'RUNNING', bracketSize, currentRound: 1 };
+    const seeded = shuffle(entries);
+    const order = seedOrder(bracketSize);
+    const atPosition = order.map((seed) => seeded[seed - 1] ?? null);
+
+    await withTournamentLock(tournament.id, async () => {
+      for (const [position, entry] of atPosition.entries()) {
+        if (entry) await prisma.tournamentEntry.update({ where: { id: entry.id }, data: { seed: position } });
+      }
+
+      const matches: GameSession[] = [];
+      for (let slot = 0; slot < bracketSize / 2; slot++) {
+        const [a, b] = [atPosition[slot * 2], atPosition[slot * 2 + 1]];
+        if (a && b) {
+          matches.push(await prisma.gameSession.create({
+            data: {
+              type: 'TIC_TAC_TOE',
+              player1Id: a.userId,
+              player2Id: b.userId,
+              boardState: emptyBoard(),
+              currentTurn: a.userId,
+              status: 'PLAYING',
+              matchSource: 'TOURNAMENT',
+              tournamentId: tournament.id,
+              tournamentRound: 1,
+              bracketSlot: slot,
+            },
+          }));
+        } else if (a || b) {
+          const byeMatch = await advanceWinner(prisma, running, 1, slot, (a ?? b)!.userId, null);
+          if (byeMatch) matches.push(byeMatch);
+        }
+      }
+
+      await announceRound(prisma, running, 1);
+      for (const match of matches) await notifyMatch(prisma, io, running, match);
+    });
+
+    started++;
+    console.log(`[Tournament] ${tournament.id} started with ${entries.length} players (bracket ${bracketSize})`);
+  }
+
+  return started;
+}
+
+/**
+ * Called when a tournament GameSession ends (game_over or forfeit).
+ * Moves the winner on, replays draws and finishes the tournament after the final.
+ */
+export async function onTournamentMatchFinished(prisma: PrismaClient, io: SocketIOServer | undefined, sessionId: string): Promise<void> {
+  const session = await prisma.gameSession.findUnique({ where: { id: sessionId }, include: { tournament: true } });
+  if (!session?.tournament || session.tournament.status !== 'RUNNING') return;
+  if (session.status !== 'FINISHED' && session.status !== 'ABANDONED') return;
+
+  const { tournament } = session;
+  const round = session.tournamentRound!;
+  const slot = session.bracketSlot!;
+
+  // Draw — same pairing again with sides swapped
+  if (!session.winnerId) {
+    if (!session.player2Id) return;
+    const rematch = await prisma.gameSession.create({
+      data: {
+        type: 'TIC_TAC_TOE',
+        player1Id: session.player2Id,
+        player2Id: session.player1Id,
+        boardState: emptyBoard(),
+        currentTurn: session.player2Id,
+        status: 'PLAYING',
+        matchSource: 'TOURNAMENT',
+        tournamentId: tournament.id,
+        tournamentRound: round,
+        bracketSlot: slot,
+      },
+    });
+    if (io) {
+      for (const userId of [session.player1Id, session.player2Id]) {
+        io.in(`user:${userId}`).socketsJoin(`game:${rematch.id}`);
+      }
+      io.to(`game:${session.id}`).emit('tournament:rematch', { tournamentId: tournament.id, gameId: rematch.id });
+    }
+    return;
+  }
+
+  if (round === roundCount(tournament.bracketSize)) {
+    await finishTournament(prisma, tournament, session);
+    return;
+  }
+
+  await withTournamentLock(tournament.id, async () => {
+    const current = await prisma.gameSession.findUnique({ where: { id: session.id }, select: { nextMatchId: true } });
+    if (current?.nextMatchId) return; // already advanced
+
+    const started = await advanceWinner(prisma, tournament, round, slot, session.winnerId!, session.id);
+    if (started) await notifyMatch(prisma, io, tournament, started);
+
+    if (await isRoundComplete(prisma, tournament, round)) {
+      const { count } = await prisma.tournament.updateMany({
+        where: { id: tournament.id, currentRound: round },
+        data: { currentRound: round + 1 },
+      });
+      if (count > 0) await announceRound(prisma, tournament, round + 1);
+    }
+  });
+}
@@ -0,0 +1,201 @@
+/**
+ * Order Accrual — loyalty points for completed orders
+ *
+ * Earn rate is points per hryvnia of the order line total:
+ *   - OrderEarnRate row for the product category, else
+ *   - OrderEarnRate row with category = null (default), else
+ *   - ORDER_POINTS_PER_UAH env (1 point per 10 грн by default)
+ * Orders partly paid with points earn only on the paid share. The result is
+ * scaled by the user's tier multiplier and rounded down.
+ *
+ * Idempotency: Order.pointsAccruedAt / pointsReversedAt are claimed with a
+ * conditional update inside the ledger transaction, so repeated status
+ * updates (bot double-taps) credit or reverse an order at most once.
+ */
+
+import type { OrderStatus, Prisma, PrismaClient } from '@prisma/client';
+import { sendTelegramMessage } from '../../shared/utils/telegram.js';
+import { applyPointsChange } from './points.service.js';
+import { applyTierMultiplier } from './tier.service.js';
+import { syncOrderDiscount } from './discount.service.js';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+const DEFAULT_POINTS_PER_UAH = Number(process.env.ORDER_POINTS_PER_UAH) || 0.1;
+
+/** Statuses that take back points already credited for an order */
+const REVERSAL_STATUSES: OrderStatus[] = ['REJECTED', 'REFUNDED'];
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface EarnRates {
+  defaultRate: number;
+  categories: Record<string, number>;
+}
+
+export interface OrderPointsResult {
+  orderId: string;
+  points: number;
+  balanceAfter: number | null;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+export async function getEarnRates(
+  prisma: PrismaClient | Prisma.TransactionClient,
+): Promise<EarnRates> {
+  const rows = await prisma.orderEarnRate.findMany();
+
+  const rates: EarnRates = { defaultRate: DEFAULT_POINTS_PER_UAH, categories: {} };
+  for (const row of rows) {
+    if (row.category === null) rates.defaultRate = row.pointsPerUah;
+    else rates.categories[row.category] = row.pointsPerUah;
+  }
+  return rates;
+}
+
+/**
+ * Base (pre-tier) points for a set of order lines. Line totals are in гривнях;
+ * `paidShare` is the part of the subtotal not covered by a points discount.
+ */
+export function calculateBasePoints(
+  items: { total: number; category: string }[],
+  rates: EarnRates,
+  paidShare = 1,
+): number {
+  const raw = items.reduce(
+    (sum, item) => sum + item.total * (rates.categories[item.category] ?? rates.defaultRate),
+    0,
+  );
+  return Math.max(0, Math.floor(raw * paidShare));
+}
+
+// ── Core ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Credit points for a COMPLETED order. Returns null if already accrued.
+ */
+export async function accrueOrderPoints(
+  prisma: PrismaClient,
+  orderId: string,
+): Promise<OrderPointsResult | null> {
+  const result = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.order.updateMany({
+      where: { id: orderId, status: 'COMPLETED', pointsAccruedAt: null },
+      data: { pointsAccruedAt: new Date() },
+    });
+    if (claimed.count === 0) return null;
+
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      select: {
+        orderNumber: true,
+        userId: true,
+        subtotal: true,
+        discount: true,
+        user: { select: { tier: true, telegramId: true } },
+        items: { select: { total: true, product: { select: { category: true } } } },
+      },
+    });
+
+    const rates = await getEarnRates(tx);
+    const base = calculateBasePoints(
+      order.items.map((i) => ({ total: i.total, category: i.product.category })),
+      rates,
+      order.subtotal > 0 ? (order.subtotal - order.discount) / order.subtotal : 1,
+    );
+    const points = applyTierMultiplier(base, order.user.tier, 'order');
+    if (points <= 0) {
+      return { orderId, points: 0, balanceAfter: null, telegramId: order.user.telegramId, orderNumber: order.orderNumber };
+    }
+
+    await tx.order.update({ where: { id: orderId }, data: { pointsEarned: points } });
+
+    const credit = await applyPointsChange(tx, {
+      userId: order.userId,
+      delta: points,
+      source: 'ORDER',
+      reason: `Замовлення #${order.orderNumber}`,
+      referenceId: orderId,
+    });
+
+    return { orderId, points, balanceAfter: credit.balanceAfter, telegramId: order.user.telegramId, orderNumber: order.orderNumber };
+  });
+
+  if (!result) return null;
+
+  if (result.points > 0) {
+    sendTelegramMessage(
+      Number(result.telegramId),
+      `☕ *+${result.points} балів* за замовлення #${result.orderNumber}!\n\n💰 Твій баланс: *${result.balanceAfter}* балів`,
+    ).catch(() => {});
+  }
+
+  return { orderId: result.orderId, points: result.points, balanceAfter: result.balanceAfter };
+}
+
+/**
+ * Take back points credited for an order that was later rejected or refunded.
+ * Returns null if nothing was credited or it was already reversed.
+ *
+ * The debit may push the balance below zero if the points were already spent.
+ */
+export async function reverseOrderPoints(
+  prisma: PrismaClient,
+  orderId: string,
+): Promise<OrderPointsResult | null> {
+  const result = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.order.updateMany({
+      where: { id: orderId, pointsAccruedAt: { not: null }, pointsReversedAt: null, pointsEarned: { gt: 0 } },
+      data: { pointsReversedAt: new Date() },
+    });
+    if (claimed.count === 0) return null;
+
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      select: { orderNumber: true, userId: true, pointsEarned: true, user: { select: { telegramId: true } } },
+    });
+
+    const debit = await applyPointsChange(tx, {
+      userId: order.userId,
+      delta: -order.pointsEarned,
+      source: 'ORDER_REVERSAL',
+      reason: `Скасування замовлення #${order.orderNumber}`,
+      referenceId: orderId,
+      allowNegative: true,
+    });
+
+    return {
+      orderId,
+      points: -order.pointsEarned,
+      balanceAfter: debit.balanceAfter,
+      telegramId: order.user.telegramId,
+      orderNumber: order.orderNumber,
+    };
+  });
+
+  if (!result) return null;
+
+  sendTelegramMessage(
+    Number(result.telegramId),
+    `↩️ *${result.points} балів* списано — замовлення #${result.orderNumber} скасовано.\n\n💰 Твій баланс: *${result.balanceAfter}* балів`,
+  ).catch(() => {});
+
+  return { orderId: result.orderId, points: result.points, balanceAfter: result.balanceAfter };
+}
+
+/**
+ * Apply the loyalty side effects of an order status change:
+ * earned points (this module) and points spent as a discount (discount.service.ts).
+ */
+export async function syncOrderPoints(
+  prisma: PrismaClient,
+  orderId: string,
+  status: OrderStatus,
+): Promise<OrderPointsResult | null> {
+  await syncOrderDiscount(prisma, orderId, status);
+
+  if (status === 'COMPLETED') return accrueOrderPoints(prisma, orderId);
+  if (REVERSAL_STATUSES.includes(status)) return reverseOrderPoints(prisma, orderId);
+  return null;
+}
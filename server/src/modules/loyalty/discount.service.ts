@@ -0,0 +1,137 @@
+/**
+ * Checkout Discount — paying part of an order with points
+ *
+ * Conversion: 1 point = POINT_VALUE_UAH грн, capped at MAX_DISCOUNT_SHARE of
+ * the subtotal. Lifecycle of the points on an order (Order.pointsReservation):
+ *   RESERVED  — debited in the same transaction that creates the order
+ *   COMMITTED — order reached COMPLETED, the points stay spent
+ *   RELEASED  — order was REJECTED / EXPIRED (or refunded), points returned
+ */
+
+import type { OrderStatus, Prisma, PrismaClient } from '@prisma/client';
+import { sendTelegramMessage } from '../../shared/utils/telegram.js';
+import { applyPointsChange } from './points.service.js';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+export const POINT_VALUE_UAH = Number(process.env.POINT_VALUE_UAH) || 0.5;
+export const MAX_DISCOUNT_SHARE = Number(process.env.MAX_POINTS_DISCOUNT_SHARE) || 0.5;
+/** Conversions run in kopecks — 3 / 0.3 is 10.000000000000002 in floats */
+const POINT_VALUE_KOPECKS = Math.round(POINT_VALUE_UAH * 100);
+
+/** Statuses that hand reserved points back */
+const RELEASE_STATUSES: OrderStatus[] = ['REJECTED', 'EXPIRED'];
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface PointsDiscountQuote {
+  pointsUsed: number;
+  discount: number;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * How many of the requested points can be applied to a subtotal, and the
+ * resulting discount in whole hryvnias. Never charges points for a partial hryvnia.
+ */
+export function quotePointsDiscount(subtotal: number, pointsRequested: number): PointsDiscountQuote {
+  if (pointsRequested <= 0 || subtotal <= 0) return { pointsUsed: 0, discount: 0 };
+
+  const maxDiscount = Math.floor(subtotal * MAX_DISCOUNT_SHARE);
+  const discount = Math.min(Math.floor((pointsRequested * POINT_VALUE_KOPECKS) / 100), maxDiscount);
+  if (discount <= 0) return { pointsUsed: 0, discount: 0 };
+
+  const pointsUsed = Math.ceil((discount * 100) / POINT_VALUE_KOPECKS);
+  return { pointsUsed: Math.min(pointsUsed, pointsRequested), discount };
+}
+
+// ── Core ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Debit the points for a freshly created order. Must run in the order's transaction;
+ * throws INSUFFICIENT_POINTS (rolling the order back) if the balance is too low.
+ */
+export async function reserveOrderPoints(
+  tx: Prisma.TransactionClient,
+  order: { id: string; userId: string; orderNumber: number; pointsUsed: number },
+): Promise<number> {
+  const debit = await applyPointsChange(tx, {
+    userId: order.userId,
+    delta: -order.pointsUsed,
+    source: 'ORDER_DISCOUNT',
+    reason: `Знижка на замовлення #${order.orderNumber}`,
+    referenceId: order.id,
+  });
+  return debit.balanceAfter;
+}
+
+/**
+ * Order completed — the reserved points are spent for good.
+ */
+export async function commitOrderPoints(prisma: PrismaClient, orderId: string): Promise<boolean> {
+  const { count } = await prisma.order.updateMany({
+    where: { id: orderId, pointsReservation: 'RESERVED' },
+    data: { pointsReservation: 'COMMITTED' },
+  });
+  return count > 0;
+}
+
+/**
+ * Return the order's points to the user. Only reserved points are released,
+ * unless `includeCommitted` (refund after completion).
+ */
+export async function releaseOrderPoints(
+  prisma: PrismaClient,
+  orderId: string,
+  includeCommitted = false,
+): Promise<number | null> {
+  const released = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.order.updateMany({
+      where: {
+        id: orderId,
+        pointsUsed: { gt: 0 },
+        pointsReservation: { in: includeCommitted ? ['RESERVED', 'COMMITTED'] : ['RESERVED'] },
+      },
+      data: { pointsReservation: 'RELEASED' },
+    });
+    if (count === 0) return null;
+
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      select: { userId: true, orderNumber: true, pointsUsed: true, user: { select: { telegramId: true } } },
+    });
+
+    const credit = await applyPointsChange(tx, {
+      userId: order.userId,
+      delta: order.pointsUsed,
+      source: 'ORDER_DISCOUNT_RELEASE',
+      reason: `Повернення балів за замовлення #${order.orderNumber}`,
+      referenceId: orderId,
+    });
+
+    return { ...order, balanceAfter: credit.balanceAfter };
+  });
+
+  if (!released) return null;
+
+  sendTelegramMessage(
+    Number(released.user.telegramId),
+    `↩️ *${released.pointsUsed} балів повернено* — замовлення #${released.orderNumber} не відбулося.\n\n💰 Твій баланс: *${released.balanceAfter}* балів`,
+  ).catch(() => {});
+
+  return released.pointsUsed;
+}
+
+/**
+ * Apply the points-discount side effect of an order status change.
+ */
+export async function syncOrderDiscount(
+  prisma: PrismaClient,
+  orderId: string,
+  status: OrderStatus,
+): Promise<void> {
+  if (status === 'COMPLETED') await commitOrderPoints(prisma, orderId);
+  else if (RELEASE_STATUSES.includes(status)) await releaseOrderPoints(prisma, orderId);
+  else if (status === 'REFUNDED') await releaseOrderPoints(prisma, orderId, true);
+}
@@ -0,0 +1,216 @@
+/**
+ * Points Expiry — scheduled job + advance warnings
+ *
+ * Every credit in the ledger is an earn batch with `remaining` points and an
+ * `expiresAt` date (POINTS_EXPIRY_MONTHS after it was earned, see
+ * points.service.ts). This job:
+ *   1. Warns users through the bot 7 days and 1 day before a batch expires
+ *   2. Zeroes expired batches and writes one EXPIRY debit per user
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { sendTelegramMessage } from '../../shared/utils/telegram.js';
+import { applyPointsChange, INSUFFICIENT_POINTS } from './points.service.js';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+/** Checked smallest first, so a batch found late still gets only the closer warning */
+const WARNING_DAYS = [1, 7];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface ExpiringPoints {
+  points: number;
+  expiresAt: string;
+  message: string;
+}
+
+export interface ExpiryRunResult {
+  warned: number;
+  expiredUsers: number;
+  expiredPoints: number;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function formatKyivDate(date: Date): string {
+  return date.toLocaleDateString('uk-UA', { timeZone: 'Europe/Kyiv' });
+}
+
+/**
+ * Points from the soonest-expiring day, e.g. "25 балів згорять 01.03.2027".
+ */
+export async function getExpiringPoints(
+  prisma: PrismaClient,
+  userId: string,
+  now: Date = new Date(),
+): Promise<ExpiringPoints | null> {
+  const next = await prisma.pointsTransaction.findFirst({
+    where: { userId, remaining: { gt: 0 }, expiresAt: { gt: now } },
+    orderBy: { expiresAt: 'asc' },
+    select: { expiresAt: true },
+  });
+  if (!next?.expiresAt) return null;
+
+  // Group every batch that expires on the same Kyiv calendar day
+  const day = formatKyivDate(next.expiresAt);
+  const batches = await prisma.pointsTransaction.findMany({
+    where: {
+      userId,
+      remaining: { gt: 0 },
+      expiresAt: { gte: next.expiresAt, lt: new Date(next.expiresAt.getTime() + DAY_MS) },
+    },
+    select: { remaining: true, expiresAt: true },
+  });
+
+  const points = batches
+    .filter((b) => b.expiresAt && formatKyivDate(b.expiresAt) === day)
+    .reduce((sum, b) => sum + b.remaining, 0);
+
+  return {
+    points,
+    expiresAt: next.expiresAt.toISOString(),
+    message: `${points} балів згорять ${day}`,
+  };
+}
+
+// ── Job steps ────────────────────────────────────────────────────────────────
+
+/**
+ * Send "points expire soon" messages. Each batch is warned at most once per threshold.
+ */
+export async function sendExpiryWarnings(prisma: PrismaClient, now: Date = new Date()): Promise<number> {
+  let warned = 0;
+
+  for (const days of WARNING_DAYS) {
+    const batches = await prisma.pointsTransaction.findMany({
+      where: {
+        remaining: { gt: 0 },
+        expiresAt: { gt: now, lte: new Date(now.getTime() + days * DAY_MS) },
+        OR: [{ warnedDays: null }, { warnedDays: { gt: days } }],
+      },
+      select: {
+        id: true,
+        remaining: true,
+        expiresAt: true,
+        user: { select: { id: true, telegramId: true, firstName: true } },
+      },
+    });
+
+    const byUser = new Map<string, { telegramId: string; firstName: string | null; points: number; expiresAt: Date; ids: string[] }>();
+    for (const batch of batches) {
+      const entry = byUser.get(batch.user.id) ?? {
+        telegramId: batch.user.telegramId,
+        firstName: batch.user.firstName,
+        points: 0,
+        expiresAt: batch.expiresAt!,
+        ids: [],
+      };
+      entry.points += batch.remaining;
+      if (batch.expiresAt! < entry.expiresAt) entry.expiresAt = batch.expiresAt!;
+      entry.ids.push(batch.id);
+      byUser.set(batch.user.id, entry);
+    }
+
+    for (const entry of byUser.values()) {
+      // Claim the batches so another instance running the same job doesn't warn twice
+      const { count } = await prisma.pointsTransaction.updateMany({
+        where: { id: { in: entry.ids }, OR: [{ warnedDays: null }, { warnedDays: { gt: days } }] },
+        data: { warnedDays: days },
+      });
+      if (count === 0) continue;
+
+      const name = entry.firstName ?? 'Друже';
+      const when = days === 1 ? 'завтра' : `через ${days} днів`;
+      sendTelegramMessage(
+        Number(entry.telegramId),
+        `⏳ *${name}, ${entry.points} балів згорять ${when}* (${formatKyivDate(entry.expiresAt)}).\n\n` +
+        `Обміняй їх на нагороду або використай при замовленні, поки не пізно!`,
+      ).catch(() => {});
+      warned++;
+    }
+  }
+
+  return warned;
+}
+
+/**
+ * Expire every batch whose expiresAt has passed.
+ */
+export async function expirePoints(
+  prisma: PrismaClient,
+  now: Date = new Date(),
+): Promise<{ users: number; points: number }> {
+  const users = await prisma.pointsTransaction.findMany({
+    where: { remaining: { gt: 0 }, expiresAt: { lte: now } },
+    distinct: ['userId'],
+    select: { userId: true },
+  });
+
+  let expiredUsers = 0;
+  let expiredPoints = 0;
+
+  for (const { userId } of users) {
+    try {
+      const expired = await prisma.$transaction(async (tx) => {
+        // Lock the user row before the batches, in the same order as applyPointsChange,
+        // so a concurrent order or redemption can't deadlock with the sweep
+        const { points } = await tx.user.update({
+          where: { id: userId },
+          data: { points: { increment: 0 } },
+          select: { points: true },
+        });
+
+        const batches = await tx.pointsTransaction.findMany({
+          where: { userId, remaining: { gt: 0 }, expiresAt: { lte: now } },
+          select: { id: true, remaining: true },
+        });
+
+        // Claim each batch only if it wasn't consumed meanwhile; otherwise the next run retries
+        let claimed = 0;
+        for (const batch of batches) {
+          const { count } = await tx.pointsTransaction.updateMany({
+            where: { id: batch.id, remaining: batch.remaining },
+            data: { remaining: 0 },
+          });
+          if (count > 0) claimed += batch.remaining;
+        }
+
+        const debit = Math.min(claimed, Math.max(0, points));
+        if (debit > 0) {
+          await applyPointsChange(tx, {
+            userId,
+            delta: -debit,
+            source: 'EXPIRY',
+            reason: 'Термін дії балів закінчився',
+            skipBatchConsumption: true,
+          });
+        }
+        return debit;
+      });
+
+      if (expired > 0) {
+        expiredUsers++;
+        expiredPoints += expired;
+      }
+    } catch (err) {
+      // Balance changed concurrently — picked up on the next run
+      if (err instanceof Error && err.message === INSUFFICIENT_POINTS) continue;
+      // Don't let one user stop the sweep for everyone else
+      console.error(`[PointsExpiry] Expiry failed for user ${userId}:`, err);
+    }
+  }
+
+  return { users: expiredUsers, points: expiredPoints };
+}
+
+/**
+ * One pass of the scheduled job: warnings first, then expiry.
+ */
+export async function runPointsExpiry(prisma: PrismaClient, now: Date = new Date()): Promise<ExpiryRunResult> {
+  const warned = await sendExpiryWarnings(prisma, now);
+  const expired = await expirePoints(prisma, now);
+  return { warned, expiredUsers: expired.users, expiredPoints: expired.points };
+}
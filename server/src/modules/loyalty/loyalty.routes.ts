@@ -3,15 +3,25 @@
  *
  * POST /api/loyalty/spin          — Spin the Wheel of Fortune
  * GET  /api/loyalty/wheel-status  — Can spin? + time until next
- * POST /api/loyalty/redeem        — Create redemption code
+ * GET  /api/loyalty/wheel-config  — Active prize table (segments for the client wheel)
+ * GET  /api/loyalty/rewards       — Rewards catalog (with per-user limits when authenticated)
+ * POST /api/loyalty/redeem        — Exchange points for a reward (creates redemption code)
+ * GET  /api/loyalty/discount-config — Points-to-hryvnia rate and cap for checkout
  * GET  /api/loyalty/history       — Spin & redemption history
- * GET  /api/loyalty/balance       — Current balance
+ * GET  /api/loyalty/balance       — Current balance + next points expiry
+ * GET  /api/loyalty/streak        — Daily streak length, multiplier, next milestone
+ * GET  /api/loyalty/transactions  — Points ledger ("where did my points go")
  */
 
 import type { FastifyInstance, FastifyPluginOptions, FastifyRequest } from 'fastify';
 import { z } from 'zod';
 import { processSpin, processRedeem } from './loyalty.service.js';
-import { requireAuth, type JwtPayload } from '../../shared/jwt.js';
+import { resolvePrizeTable, toWheelTableView } from './wheel.service.js';
+import { listRewards } from './reward.service.js';
+import { getExpiringPoints } from './expiry.service.js';
+import { MAX_DISCOUNT_SHARE, POINT_VALUE_UAH } from './discount.service.js';
+import { getStreakStatus } from './streak.service.js';
+import { requireAuth, verifyAccessToken, type JwtPayload } from '../../shared/jwt.js';
 import { hasSpunTodayKyiv, getNextKyivMidnight } from '../../shared/utils/timezone.js';
 
 // ── Schemas ──────────────────────────────────────────────────────────────────
@@ -21,6 +31,10 @@ const spinSchema = z.object({
   longitude: z.number().optional(),
 });
 
+const wheelConfigQuerySchema = z.object({
+  locationId: z.string().min(1).optional(),
+});
+
 // Also support legacy format
 const legacySpinSchema = z.object({
   telegramId: z.union([z.number(), z.string()]).transform(String),
@@ -28,10 +42,27 @@ const legacySpinSchema = z.object({
   userLng: z.number().optional(),
 });
 
+const redeemSchema = z.object({
+  rewardId: z.string().min(1).optional(),
+});
+
 const legacyRedeemSchema = z.object({
   telegramId: z.union([z.number(), z.string()]).transform(String),
 });
 
+const rewardsQuerySchema = z.object({
+  telegramId: z.string().optional(),
+});
+
+const streakQuerySchema = z.object({
+  telegramId: z.string().optional(),
+});
+
+const transactionsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  before: z.string().datetime().optional(),
+});
+
 // ── Routes ───────────────────────────────────────────────────────────────────
 
 export async function loyaltyRoutes(
@@ -82,6 +113,7 @@ export async function loyaltyRoutes(
       const body = request.body as Record<string, unknown>;
       const latitude = (body.latitude ?? body.userLat) as number | undefined;
       const longitude = (body.longitude ?? body.userLng) as number | undefined;
+      const locationId = typeof body.locationId === 'string' ? body.locationId : undefined;
       const idempotencyKey = request.headers['x-idempotency-key'] as string | undefined;
 
       const result = await processSpin(app.prisma, {
@@ -89,6 +121,7 @@ export async function loyaltyRoutes(
         telegramId,
         latitude,
         longitude,
+        locationId,
         idempotencyKey,
       });
 
@@ -99,6 +132,7 @@ export async function loyaltyRoutes(
           OUT_OF_RANGE: 403,
           ALREADY_SPUN_TODAY: 429,
           SPIN_IN_PROGRESS: 409,
+          CODE_GENERATION_FAILED: 500,
         };
         return reply.status(statusMap[result.error] ?? 400).send(result);
       }
@@ -141,16 +175,61 @@ export async function loyaltyRoutes(
     }
   });
 
+  // GET /api/loyalty/wheel-config
+  app.get('/wheel-config', async (request, reply) => {
+    try {
+      const { locationId } = wheelConfigQuerySchema.parse(request.query);
+      const table = await resolvePrizeTable(app.prisma, locationId);
+
+      return reply.send(toWheelTableView(table));
+    } catch (error) {
+      app.log.error({ err: error }, 'Wheel config error');
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({ error: 'INVALID_REQUEST', details: error.errors });
+      }
+      return reply.status(500).send({ error: 'FAILED' });
+    }
+  });
+
+  // GET /api/loyalty/rewards
+  app.get('/rewards', async (request, reply) => {
+    try {
+      const query = rewardsQuerySchema.parse(request.query);
+      let userId: string | undefined;
+
+      const authHeader = request.headers.authorization;
+      if (authHeader?.startsWith('Bearer ')) {
+        userId = verifyAccessToken(authHeader.slice(7))?.userId;
+      }
+      if (!userId && query.telegramId) {
+        const user = await app.prisma.user.findUnique({
+          where: { telegramId: query.telegramId },
+          select: { id: true },
+        });
+        userId = user?.id;
+      }
+
+      const rewards = await listRewards(app.prisma, userId);
+      return reply.send({ rewards });
+    } catch (error) {
+      app.log.error({ err: error }, 'Rewards catalog error');
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({ error: 'INVALID_REQUEST', details: error.errors });
+      }
+      return reply.status(500).send({ error: 'FAILED' });
+    }
+  });
+
   // POST /api/loyalty/redeem
   app.post('/redeem', async (request, reply) => {
     try {
+      const { rewardId } = redeemSchema.parse(request.body ?? {});
       let userId: string | undefined;
       let telegramId: string | undefined;
 
       // Try JWT auth
       const authHeader = request.headers.authorization;
       if (authHeader?.startsWith('Bearer ')) {
-        const { verifyAccessToken } = await import('../../shared/jwt.js');
         const payload = verifyAccessToken(authHeader.slice(7));
         if (payload) {
           userId = payload.userId;
@@ -181,11 +260,15 @@ export async function loyaltyRoutes(
         return reply.status(401).send({ ok: false, error: 'UNAUTHORIZED' });
       }
 
-      const result = await processRedeem(app.prisma, { userId, telegramId });
+      const result = await processRedeem(app.prisma, { userId, telegramId, rewardId });
 
       if (!result.ok) {
         const statusMap: Record<string, number> = {
           USER_NOT_FOUND: 404,
+          REWARD_NOT_FOUND: 404,
+          REWARD_UNAVAILABLE: 409,
+          OUT_OF_STOCK: 409,
+          REWARD_LIMIT_REACHED: 429,
           INSUFFICIENT_POINTS: 400,
           ACTIVE_CODE_EXISTS: 409,
           CODE_GENERATION_FAILED: 500,
@@ -203,6 +286,11 @@ export async function loyaltyRoutes(
     }
   });
 
+  // GET /api/loyalty/discount-config
+  app.get('/discount-config', async (_request, reply) => {
+    return reply.send({ pointValueUah: POINT_VALUE_UAH, maxDiscountShare: MAX_DISCOUNT_SHARE });
+  });
+
   // GET /api/loyalty/history
   app.get('/history', { preHandler: requireAuth }, async (request, reply) => {
     try {
@@ -216,6 +304,7 @@ export async function loyaltyRoutes(
         }),
         app.prisma.redemptionCode.findMany({
           where: { userId },
+          include: { reward: { select: { id: true, name: true } } },
           orderBy: { createdAt: 'desc' },
           take: 20,
         }),
@@ -242,10 +331,82 @@ export async function loyaltyRoutes(
         return reply.status(404).send({ error: 'USER_NOT_FOUND' });
       }
 
-      return reply.send({ balance: user.points, totalSpins: user.totalSpins });
+      const expiring = await getExpiringPoints(app.prisma, userId);
+
+      return reply.send({ balance: user.points, totalSpins: user.totalSpins, expiring });
     } catch (error) {
       app.log.error({ err: error }, 'Balance error');
       return reply.status(500).send({ error: 'FAILED' });
     }
   });
+
+  // GET /api/loyalty/streak
+  app.get('/streak', async (request, reply) => {
+    try {
+      const query = streakQuerySchema.parse(request.query);
+      let userId: string | undefined;
+
+      const authHeader = request.headers.authorization;
+      if (authHeader?.startsWith('Bearer ')) {
+        userId = verifyAccessToken(authHeader.slice(7))?.userId;
+      }
+      if (!userId && query.telegramId) {
+        const user = await app.prisma.user.findUnique({
+          where: { telegramId: query.telegramId },
+          select: { id: true },
+        });
+        userId = user?.id;
+      }
+      if (!userId) {
+        return reply.status(401).send({ error: 'UNAUTHORIZED' });
+      }
+
+      const streak = await getStreakStatus(app.prisma, userId);
+      if (!streak) {
+        return reply.status(404).send({ error: 'USER_NOT_FOUND' });
+      }
+
+      return reply.send({ streak });
+    } catch (error) {
+      app.log.error({ err: error }, 'Streak error');
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({ error: 'INVALID_REQUEST', details: error.errors });
+      }
+      return reply.status(500).send({ error: 'FAILED' });
+    }
+  });
+
+  // GET /api/loyalty/transactions
+  app.get('/transactions', { preHandler: requireAuth }, async (request, reply) => {
+    try {
+      const { userId } = (request as FastifyRequest & { user: JwtPayload }).user;
+      const query = transactionsQuerySchema.parse(request.query);
+
+      const transactions = await app.prisma.pointsTransaction.findMany({
+        where: {
+          userId,
+          ...(query.before ? { createdAt: { lt: new Date(query.before) } } : {}),
+        },
+        orderBy: { createdAt: 'desc' },
+        take: query.limit,
+        select: {
+          id: true,
+          delta: true,
+          balanceAfter: true,
+          source: true,
+          reason: true,
+          referenceId: true,
+          createdAt: true,
+        },
+      });
+
+      return reply.send({ transactions });
+    } catch (error) {
+      app.log.error({ err: error }, 'Transactions error');
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({ error: 'INVALID_REQUEST', details: error.errors });
+      }
+      return reply.status(500).send({ error: 'FAILED' });
+    }
+  });
 }
@@ -5,12 +5,15 @@
  * - Redis locks for spin race condition protection
  * - Idempotency keys for double-click protection
  * - SpinHistory records for audit trail
- * - Weighted random prizes (40%/30%/10%/20%)
+ * - Weighted random prizes from DB prize tables (wheel.service.ts)
  * - 4-digit redemption codes
  * - Active code check before new redemption
+ * - Every balance change is written to the points ledger (points.service.ts)
+ * - Point prizes are scaled by the user's loyalty tier (tier.service.ts)
+ * - Redemptions are bought from the rewards catalog (reward.service.ts)
  */
 
-import type { PrismaClient } from '@prisma/client';
+import type { PrismaClient, WheelPrizeType } from '@prisma/client';
 import { redis } from '../../shared/redis.js';
 import {
   getKyivDateString,
@@ -18,21 +21,18 @@ import {
   hasSpunTodayKyiv,
 } from '../../shared/utils/timezone.js';
 import { sendTelegramMessage } from '../../shared/utils/telegram.js';
+import { applyPointsChange, INSUFFICIENT_POINTS } from './points.service.js';
+import { type WheelTableView, drawPrize, resolvePrizeTable, toWheelTableView } from './wheel.service.js';
+import { applyTierMultiplier, getTierRule, refreshUserTier } from './tier.service.js';
+import { countUserRedemptions, rewardAvailability } from './reward.service.js';
+import { recordStreakActivity } from './streak.service.js';
 
 // ── Constants ────────────────────────────────────────────────────────────────
 
 const MAX_SPIN_DISTANCE_METERS = Number(process.env.GEO_RADIUS_METERS) || 100;
-const REDEEM_POINTS_REQUIRED = 100;
-const CODE_EXPIRY_MINUTES = 15;
 const DEV_TELEGRAM_IDS = new Set(['7363233852']);
-
-// Weighted prizes per TZ spec
-const PRIZES = [
-  { value: 5,  weight: 40, label: '5 балів' },
-  { value: 10, weight: 30, label: '10 балів' },
-  { value: 15, weight: 10, label: '15 балів' },
-  { value: 0,  weight: 20, label: 'Спробуй завтра' },
-] as const;
+/** Thrown inside the redeem transaction when the stock claim loses a race */
+const OUT_OF_STOCK = 'OUT_OF_STOCK';
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -41,20 +41,42 @@ export interface SpinInput {
   telegramId: string;
   latitude?: number;
   longitude?: number;
+  /** Only used when geo-validation is bypassed; otherwise the nearest location wins */
+  locationId?: string;
   idempotencyKey?: string;
 }
 
+export interface SpinPrize {
+  id: string | null;
+  type: WheelPrizeType;
+  value: number;
+  label: string;
+  /** Coupon code for FREE_ITEM / DISCOUNT prizes */
+  code?: string;
+  codeExpiresAt?: string;
+}
+
 export type SpinResult =
-  | { ok: true; prize: { value: number; label: string }; newBalance: number; nextSpinAvailable: string }
+  | {
+      ok: true;
+      prize: SpinPrize;
+      tableVersion: number;
+      /** Table the prize was drawn from — the client redraws the wheel with it */
+      table: WheelTableView;
+      newBalance: number;
+      nextSpinAvailable: string;
+    }
   | { ok: false; error: string; message: string; [key: string]: unknown };
 
 export interface RedeemInput {
   userId: string;
   telegramId: string;
+  /** Catalog reward; older clients omit it and get the first catalog entry */
+  rewardId?: string;
 }
 
 export type RedeemResult =
-  | { ok: true; code: string; expiresAt: string; newBalance: number }
+  | { ok: true; code: string; expiresAt: string; newBalance: number; reward: { id: string; name: string; pointsCost: number } }
   | { ok: false; error: string; message: string; [key: string]: unknown };
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
@@ -77,17 +99,15 @@ export function haversineMeters(
 }
 
 /**
- * Pick a prize using weighted random selection.
+ * Generate a 4-digit code (1000-9999) that is not currently live in Redis.
  */
-function weightedRandom(): typeof PRIZES[number] {
-  const totalWeight = PRIZES.reduce((sum, p) => sum + p.weight, 0);
-  let random = Math.random() * totalWeight;
-
-  for (const prize of PRIZES) {
-    random -= prize.weight;
-    if (random <= 0) return prize;
+async function generateRedemptionCode(): Promise<string | null> {
+  for (let attempts = 0; attempts < 10; attempts++) {
+    const code = String(Math.floor(1000 + Math.random() * 9000));
+    const exists = await redis.exists(`redeem:${code}`);
+    if (!exists) return code;
   }
-  return PRIZES[PRIZES.length - 1];
+  return null;
 }
 
 // ── Core Operations ──────────────────────────────────────────────────────────
@@ -101,7 +121,7 @@ function weightedRandom(): typeof PRIZES[number] {
  * 3. Check daily limit (Kyiv midnight reset)
  * 4. Geo-validate (Haversine, 100m radius)
  * 5. Weighted random prize
- * 6. Database transaction (update user + create SpinHistory + referral bonus)
+ * 6. Database transaction (update user + create SpinHistory + ledger entries + referral bonus)
  * 7. Cache result + respond
  */
 export async function processSpin(
@@ -140,6 +160,7 @@ export async function processSpin(
         referredById: true,
         referralBonusPaid: true,
         firstName: true,
+        tier: true,
       },
     });
 
@@ -160,6 +181,7 @@ export async function processSpin(
 
     // ═══ STEP 4: GEO-VALIDATION ═══
     const bypassGeo = DEV_TELEGRAM_IDS.has(telegramId);
+    let spinLocationId: string | null = bypassGeo ? input.locationId ?? null : null;
 
     if (!bypassGeo) {
       if (input.latitude === undefined || input.longitude === undefined) {
@@ -172,18 +194,19 @@ export async function processSpin(
 
       const locations = await prisma.location.findMany({
         where: { isActive: true, latitude: { not: null }, longitude: { not: null } },
-        select: { name: true, latitude: true, longitude: true },
+        select: { id: true, name: true, latitude: true, longitude: true },
       });
 
       const distances = locations
         .filter((l): l is typeof l & { latitude: number; longitude: number } =>
           l.latitude !== null && l.longitude !== null)
         .map(loc => ({
+          id: loc.id,
           name: loc.name,
           distance: haversineMeters(input.latitude!, input.longitude!, loc.latitude, loc.longitude),
         }));
 
-      const nearest = distances.reduce<{ name: string; distance: number } | null>(
+      const nearest = distances.reduce<{ id: string; name: string; distance: number } | null>(
         (best, curr) => (!best || curr.distance < best.distance ? curr : best),
         null,
       );
@@ -199,10 +222,26 @@ export async function processSpin(
           nearestLocation: nearest?.name,
         };
       }
+
+      spinLocationId = nearest?.id ?? null;
     }
 
     // ═══ STEP 5: WEIGHTED RANDOM PRIZE ═══
-    const prize = weightedRandom();
+    const table = await resolvePrizeTable(prisma, spinLocationId, now);
+    const prize = drawPrize(table.prizes);
+    const isWin = prize.type !== 'NOTHING';
+    const tierRule = getTierRule(user.tier);
+    const pointsAwarded = applyTierMultiplier(prize.points, user.tier, 'spin');
+
+    let couponCode: string | null = null;
+    let couponExpiresAt: Date | null = null;
+    if (prize.type === 'FREE_ITEM' || prize.type === 'DISCOUNT') {
+      couponCode = await generateRedemptionCode();
+      if (!couponCode) {
+        return { ok: false, error: 'CODE_GENERATION_FAILED', message: 'Не вдалося згенерувати код. Спробуй пізніше.' };
+      }
+      couponExpiresAt = new Date(now.getTime() + prize.validHours * 60 * 60 * 1000);
+    }
 
     // ═══ STEP 6: DATABASE TRANSACTION ═══
     const result = await prisma.$transaction(async (tx) => {
@@ -210,7 +249,6 @@ export async function processSpin(
       const updatedUser = await tx.user.update({
         where: { id: userId },
         data: {
-          points: { increment: prize.value },
           totalSpins: { increment: 1 },
           lastSpinDate: todayKyiv,
         },
@@ -218,18 +256,46 @@ export async function processSpin(
       });
 
       // Create spin history
-      await tx.spinHistory.create({
+      const spin = await tx.spinHistory.create({
         data: {
           userId,
-          prize: prize.value,
+          prize: pointsAwarded,
           prizeLabel: prize.label,
+          wheelPrizeId: prize.id,
           latitude: input.latitude,
           longitude: input.longitude,
         },
       });
 
+      let newBalance = updatedUser.points;
+      if (pointsAwarded > 0) {
+        const credit = await applyPointsChange(tx, {
+          userId,
+          delta: pointsAwarded,
+          source: 'SPIN',
+          reason: pointsAwarded > prize.points
+            ? `Колесо Фортуни: ${prize.label} (${tierRule.label} ×${tierRule.multipliers.spin})`
+            : `Колесо Фортуни: ${prize.label}`,
+          referenceId: spin.id,
+        });
+        newBalance = credit.balanceAfter;
+      }
+
+      // Non-point prize → coupon the barista verifies like a redemption code
+      if (couponCode && couponExpiresAt) {
+        await tx.redemptionCode.create({
+          data: {
+            code: couponCode,
+            userId,
+            pointsSpent: 0,
+            wheelPrizeId: prize.id,
+            expiresAt: couponExpiresAt,
+          },
+        });
+      }
+
       // Referral bonus: first winning spin by referred user → +10 to referrer
-      if (prize.value > 0 && user.referredById && !user.referralBonusPaid) {
+      if (isWin && user.referredById && !user.referralBonusPaid) {
         // referredById is the internal user ID
         const referrer = await tx.user.findUnique({
           where: { id: user.referredById },
@@ -237,9 +303,13 @@ export async function processSpin(
         });
 
         if (referrer) {
-          await tx.user.update({
-            where: { id: referrer.id },
-            data: { points: { increment: 10 } },
+          await applyPointsChange(tx, {
+            userId: referrer.id,
+            delta: 10,
+            source: 'REFERRAL',
+            reason: 'Перший спін запрошеного друга',
+            referenceId: spin.id,
+            actorId: userId,
           });
 
           // Notify referrer
@@ -256,15 +326,29 @@ export async function processSpin(
         });
       }
 
-      return { newBalance: updatedUser.points };
+      return { newBalance };
     });
 
     // ═══ STEP 7: CACHE & RESPOND ═══
     const nextMidnight = getNextKyivMidnight(now);
 
+    if (couponCode && couponExpiresAt) {
+      await redis.set(`redeem:${couponCode}`, userId, 'EX', prize.validHours * 60 * 60);
+    }
+
     const response: SpinResult = {
       ok: true,
-      prize: { value: prize.value, label: prize.label },
+      prize: {
+        id: prize.id,
+        type: prize.type,
+        value: pointsAwarded,
+        label: prize.label,
+        ...(couponCode && couponExpiresAt
+          ? { code: couponCode, codeExpiresAt: couponExpiresAt.toISOString() }
+          : {}),
+      },
+      tableVersion: table.version,
+      table: toWheelTableView(table),
       newBalance: result.newBalance,
       nextSpinAvailable: nextMidnight.toISOString(),
     };
@@ -278,12 +362,22 @@ export async function processSpin(
       );
     }
 
+    // Spins count towards the rolling tier activity and the daily streak
+    refreshUserTier(prisma, userId).catch(() => {});
+    recordStreakActivity(prisma, userId).catch(() => {});
+
     // Notify user
-    if (prize.value > 0) {
-      const userName = user.firstName ?? 'Друже';
+    const userName = user.firstName ?? 'Друже';
+    if (pointsAwarded > 0) {
+      sendTelegramMessage(
+        Number(telegramId),
+        `🎉 *${userName}, вітаємо!*\n\nТи виграв *${pointsAwarded} балів* на Колесі Фортуни!\n\n💰 Твій баланс: *${result.newBalance}* балів`,
+      ).catch(() => {});
+    } else if (couponCode && couponExpiresAt) {
+      const validUntil = couponExpiresAt.toLocaleString('uk-UA', { timeZone: 'Europe/Kyiv' });
       sendTelegramMessage(
         Number(telegramId),
-        `🎉 *${userName}, вітаємо!*\n\nТи виграв *${prize.value} балів* на Колесі Фортуни!\n\n💰 Твій баланс: *${result.newBalance}* балів`,
+        `🎉 *${userName}, вітаємо!*\n\nТи виграв *${prize.label}* на Колесі Фортуни!\n\n🎟 *Твій код: ${couponCode}*\n\nПокажи цей код баристі.\n\n⏰ Дійсний до ${validUntil}`,
       ).catch(() => {});
     }
 
@@ -296,16 +390,50 @@ export async function processSpin(
 }
 
 /**
- * Redeem 100 points for a free-drink code.
- * Code format: 4 digits (1000-9999), valid 15 minutes.
+ * Exchange points for a catalog reward.
+ * Code format: 4 digits (1000-9999), valid for the reward's codeValidMinutes.
  */
 export async function processRedeem(
   prisma: PrismaClient,
   input: RedeemInput,
 ): Promise<RedeemResult> {
   const { userId, telegramId } = input;
+  const now = new Date();
+
+  // 1. Resolve reward & catalog rules
+  const reward = input.rewardId
+    ? await prisma.reward.findUnique({ where: { id: input.rewardId } })
+    : await prisma.reward.findFirst({
+        where: { isActive: true },
+        orderBy: [{ sortOrder: 'asc' }, { pointsCost: 'asc' }],
+      });
+
+  if (!reward) {
+    return { ok: false, error: 'REWARD_NOT_FOUND', message: 'Нагороду не знайдено' };
+  }
+
+  const unavailable = rewardAvailability(reward, now);
+  if (unavailable === 'OUT_OF_STOCK') {
+    return { ok: false, error: 'OUT_OF_STOCK', message: 'На жаль, ця нагорода закінчилась.' };
+  }
+  if (unavailable) {
+    return { ok: false, error: 'REWARD_UNAVAILABLE', message: 'Ця нагорода зараз недоступна.', reason: unavailable };
+  }
 
-  // 1. Check balance
+  if (reward.perUserLimit !== null) {
+    const used = await countUserRedemptions(prisma, userId, reward, now);
+    if (used >= reward.perUserLimit) {
+      return {
+        ok: false,
+        error: 'REWARD_LIMIT_REACHED',
+        message: reward.perUserPeriodDays
+          ? `Цю нагороду можна отримати ${reward.perUserLimit} раз(и) за ${reward.perUserPeriodDays} дн.`
+          : `Цю нагороду можна отримати лише ${reward.perUserLimit} раз(и).`,
+      };
+    }
+  }
+
+  // 2. Check balance
   const user = await prisma.user.findUnique({
     where: { id: userId },
     select: { points: true, firstName: true },
@@ -315,22 +443,23 @@ export async function processRedeem(
     return { ok: false, error: 'USER_NOT_FOUND', message: 'Користувача не знайдено' };
   }
 
-  if (user.points < REDEEM_POINTS_REQUIRED) {
+  if (user.points < reward.pointsCost) {
     return {
       ok: false,
       error: 'INSUFFICIENT_POINTS',
-      message: `Недостатньо балів. Потрібно ще ${REDEEM_POINTS_REQUIRED - user.points} балів.`,
-      required: REDEEM_POINTS_REQUIRED,
+      message: `Недостатньо балів. Потрібно ще ${reward.pointsCost - user.points} балів.`,
+      required: reward.pointsCost,
       current: user.points,
     };
   }
 
-  // 2. Check for existing active code
+  // 3. Check for existing active code
   const activeCode = await prisma.redemptionCode.findFirst({
     where: {
       userId,
+      pointsSpent: { gt: 0 }, // wheel coupons don't block buying a reward
       usedAt: null,
-      expiresAt: { gt: new Date() },
+      expiresAt: { gt: now },
     },
   });
 
@@ -344,50 +473,75 @@ export async function processRedeem(
     };
   }
 
-  // 3. Generate unique 4-digit code
-  let code: string;
-  let attempts = 0;
-
-  do {
-    code = String(Math.floor(1000 + Math.random() * 9000));
-    const exists = await redis.exists(`redeem:${code}`);
-    if (!exists) break;
-    attempts++;
-  } while (attempts < 10);
+  // 4. Generate unique 4-digit code
+  const code = await generateRedemptionCode();
 
-  if (attempts >= 10) {
+  if (!code) {
     return { ok: false, error: 'CODE_GENERATION_FAILED', message: 'Не вдалося згенерувати код. Спробуй пізніше.' };
   }
 
-  // 4. Transaction: deduct points + create code
-  const expiresAt = new Date(Date.now() + CODE_EXPIRY_MINUTES * 60 * 1000);
+  // 5. Transaction: claim stock + create code + deduct points
+  const expiresAt = new Date(now.getTime() + reward.codeValidMinutes * 60 * 1000);
 
-  await prisma.$transaction(async (tx) => {
-    await tx.user.update({
-      where: { id: userId },
-      data: { points: { decrement: REDEEM_POINTS_REQUIRED } },
-    });
+  let newBalance: number;
+  try {
+    newBalance = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.reward.updateMany({
+        where: {
+          id: reward.id,
+          ...(reward.stockLimit !== null ? { issuedCount: { lt: reward.stockLimit } } : {}),
+        },
+        data: { issuedCount: { increment: 1 } },
+      });
+      if (claimed.count === 0) throw new Error(OUT_OF_STOCK);
+
+      const redemption = await tx.redemptionCode.create({
+        data: {
+          code,
+          userId,
+          rewardId: reward.id,
+          pointsSpent: reward.pointsCost,
+          expiresAt,
+        },
+      });
 
-    await tx.redemptionCode.create({
-      data: {
-        code,
+      const debit = await applyPointsChange(tx, {
         userId,
-        pointsSpent: REDEEM_POINTS_REQUIRED,
-        expiresAt,
-      },
+        delta: -reward.pointsCost,
+        source: 'REDEMPTION',
+        reason: reward.name,
+        referenceId: redemption.id,
+      });
+
+      return debit.balanceAfter;
     });
-  });
+  } catch (err) {
+    // Balance was spent concurrently between the check and the debit
+    if (err instanceof Error && err.message === INSUFFICIENT_POINTS) {
+      return {
+        ok: false,
+        error: 'INSUFFICIENT_POINTS',
+        message: 'Недостатньо балів.',
+        required: reward.pointsCost,
+      };
+    }
+    // Last unit was taken by someone else
+    if (err instanceof Error && err.message === OUT_OF_STOCK) {
+      return { ok: false, error: 'OUT_OF_STOCK', message: 'На жаль, ця нагорода закінчилась.' };
+    }
+    throw err;
+  }
 
-  // 5. Store in Redis for fast lookup
-  await redis.set(`redeem:${code}`, userId, 'EX', CODE_EXPIRY_MINUTES * 60);
+  // 6. Store in Redis for fast lookup
+  await redis.set(`redeem:${code}`, userId, 'EX', reward.codeValidMinutes * 60);
 
-  const newBalance = user.points - REDEEM_POINTS_REQUIRED;
+  refreshUserTier(prisma, userId).catch(() => {});
 
   // Notify user
   const userName = user.firstName ?? 'Друже';
   sendTelegramMessage(
     Number(telegramId),
-    `🎁 *${userName}, вітаємо!*\n\nТи обміняв 100 балів на безкоштовний напій!\n\n🎟 *Твій код: ${code}*\n\nПокажи цей код баристі.\n\n⏰ Код дійсний 15 хвилин.\n\n💰 Залишок: *${newBalance}* балів`,
+    `🎁 *${userName}, вітаємо!*\n\nТи обміняв ${reward.pointsCost} балів на *${reward.name}*!\n\n🎟 *Твій код: ${code}*\n\nПокажи цей код баристі.\n\n⏰ Код дійсний ${reward.codeValidMinutes} хвилин.\n\n💰 Залишок: *${newBalance}* балів`,
   ).catch(() => {});
 
   return {
@@ -395,5 +549,6 @@ export async function processRedeem(
     code,
     expiresAt: expiresAt.toISOString(),
     newBalance,
+    reward: { id: reward.id, name: reward.name, pointsCost: reward.pointsCost },
   };
 }
@@ -0,0 +1,278 @@
+/**
+ * Points Ledger — single write path for User.points
+ *
+ * Every balance change goes through applyPointsChange(), which must run inside
+ * the same Prisma transaction as the business operation that caused it
+ * (spin, redemption, game win, admin top-up...). It:
+ *   1. Atomically increments/decrements User.points
+ *   2. Appends a PointsTransaction row with the resulting balance
+ *
+ * User.points is therefore a cached projection of the ledger and can be
+ * audited (auditUserBalance) or rebuilt (rebuildUserBalance) at any time.
+ *
+ * Credits double as earn batches: `remaining` starts at the credited amount
+ * and debits consume the oldest-expiring batches first (FIFO). Batches expire
+ * POINTS_EXPIRY_MONTHS after they were earned (see expiry.service.ts).
+ */
+
+import type { Prisma, PrismaClient, PointsSource } from '@prisma/client';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface PointsChangeInput {
+  userId: string;
+  delta: number;
+  source: PointsSource;
+  reason: string;
+  referenceId?: string | null;
+  actorId?: string | null;
+  /** Allow the balance to go below zero (admin corrections only) */
+  allowNegative?: boolean;
+  /** The caller already settled earn batches for this debit (expiry job) */
+  skipBatchConsumption?: boolean;
+}
+
+export interface PointsChangeResult {
+  transactionId: string;
+  balanceAfter: number;
+}
+
+export interface BalanceAudit {
+  userId: string;
+  cachedBalance: number;
+  ledgerBalance: number;
+  difference: number;
+  transactions: number;
+  consistent: boolean;
+}
+
+/** Thrown when a debit would make the balance negative. Rolls back the transaction. */
+export const INSUFFICIENT_POINTS = 'INSUFFICIENT_POINTS';
+
+/** 0 disables expiry */
+const POINTS_EXPIRY_MONTHS = Number(process.env.POINTS_EXPIRY_MONTHS ?? 12);
+/** Backfilled batches never expire sooner than this, so users still get warned */
+const BACKFILL_MIN_NOTICE_DAYS = 30;
+
+// ── Earn batches ─────────────────────────────────────────────────────────────
+
+/**
+ * When points earned at `earnedAt` expire (null if expiry is disabled).
+ */
+export function earnExpiryDate(earnedAt: Date): Date | null {
+  if (!(POINTS_EXPIRY_MONTHS > 0)) return null;
+  const expiresAt = new Date(earnedAt);
+  expiresAt.setMonth(expiresAt.getMonth() + POINTS_EXPIRY_MONTHS);
+  return expiresAt;
+}
+
+/**
+ * Take `amount` points out of the user's earn batches, soonest-expiring first.
+ * Returns how much could not be covered (only non-zero for negative balances).
+ */
+async function consumeEarnBatches(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  amount: number,
+): Promise<number> {
+  let left = amount;
+
+  while (left > 0) {
+    const batches = await tx.pointsTransaction.findMany({
+      where: { userId, remaining: { gt: 0 } },
+      orderBy: [{ expiresAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+      select: { id: true, remaining: true },
+      take: 20,
+    });
+    if (batches.length === 0) break;
+
+    for (const batch of batches) {
+      if (left === 0) break;
+      const take = Math.min(batch.remaining, left);
+      await tx.pointsTransaction.update({
+        where: { id: batch.id },
+        data: { remaining: { decrement: take } },
+      });
+      left -= take;
+    }
+  }
+
+  return left;
+}
+
+// ── Core ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Apply a points delta and record it in the ledger.
+ * Must be called with a transaction client (`prisma.$transaction(async (tx) => ...)`).
+ */
+export async function applyPointsChange(
+  tx: Prisma.TransactionClient,
+  input: PointsChangeInput,
+): Promise<PointsChangeResult> {
+  if (!Number.isInteger(input.delta) || input.delta === 0) {
+    throw new Error(`Invalid points delta: ${input.delta}`);
+  }
+
+  // The UPDATE holds a row lock until commit, so balanceAfter is exact
+  const updated = await tx.user.update({
+    where: { id: input.userId },
+    data: { points: { increment: input.delta } },
+    select: { points: true },
+  });
+
+  if (updated.points < 0 && input.delta < 0 && !input.allowNegative) {
+    throw new Error(INSUFFICIENT_POINTS);
+  }
+
+  if (input.delta < 0 && !input.skipBatchConsumption) {
+    await consumeEarnBatches(tx, input.userId, -input.delta);
+  }
+
+  const now = new Date();
+  const entry = await tx.pointsTransaction.create({
+    data: {
+      userId: input.userId,
+      delta: input.delta,
+      balanceAfter: updated.points,
+      source: input.source,
+      reason: input.reason,
+      referenceId: input.referenceId ?? null,
+      actorId: input.actorId ?? null,
+      remaining: input.delta > 0 ? input.delta : 0,
+      expiresAt: input.delta > 0 ? earnExpiryDate(now) : null,
+      createdAt: now,
+    },
+    select: { id: true },
+  });
+
+  return { transactionId: entry.id, balanceAfter: updated.points };
+}
+
+/**
+ * Compare the cached User.points with the ledger sum.
+ */
+export async function auditUserBalance(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  userId: string,
+): Promise<BalanceAudit | null> {
+  const [user, agg] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { points: true } }),
+    prisma.pointsTransaction.aggregate({
+      where: { userId },
+      _sum: { delta: true },
+      _count: { _all: true },
+    }),
+  ]);
+
+  if (!user) return null;
+
+  const ledgerBalance = agg._sum.delta ?? 0;
+  return {
+    userId,
+    cachedBalance: user.points,
+    ledgerBalance,
+    difference: user.points - ledgerBalance,
+    transactions: agg._count._all,
+    consistent: user.points === ledgerBalance,
+  };
+}
+
+/**
+ * Rebuild User.points from the ledger.
+ *
+ * Users that predate the ledger have a balance but no rows — for them an
+ * OPENING_BALANCE entry is written instead, so their points are preserved.
+ */
+export async function rebuildUserBalance(
+  prisma: PrismaClient,
+  userId: string,
+): Promise<BalanceAudit | null> {
+  return prisma.$transaction(async (tx) => {
+    const before = await auditUserBalance(tx, userId);
+    if (!before || before.consistent) return before;
+
+    if (before.transactions === 0) {
+      const now = new Date();
+      await tx.pointsTransaction.create({
+        data: {
+          userId,
+          delta: before.cachedBalance,
+          balanceAfter: before.cachedBalance,
+          source: 'OPENING_BALANCE',
+          reason: 'Баланс до запуску журналу балів',
+          remaining: Math.max(0, before.cachedBalance),
+          expiresAt: before.cachedBalance > 0 ? earnExpiryDate(now) : null,
+          createdAt: now,
+        },
+      });
+    } else {
+      await tx.user.update({
+        where: { id: userId },
+        data: { points: before.ledgerBalance },
+      });
+    }
+
+    return auditUserBalance(tx, userId);
+  });
+}
+
+/**
+ * Write OPENING_BALANCE entries for every user that has points but no ledger yet.
+ * Safe to run on every startup.
+ */
+export async function backfillOpeningBalances(prisma: PrismaClient): Promise<number> {
+  const users = await prisma.user.findMany({
+    where: { points: { not: 0 }, pointsLedger: { none: {} } },
+    select: { id: true },
+  });
+
+  for (const user of users) {
+    await rebuildUserBalance(prisma, user.id);
+  }
+
+  return users.length;
+}
+
+/**
+ * Reconstruct earn batches for users whose credits predate batch tracking.
+ *
+ * Under FIFO the current balance is made of the most recent credits, so
+ * `remaining` is assigned newest-first until it covers the balance.
+ * Safe to run on every startup.
+ */
+export async function backfillEarnBatches(prisma: PrismaClient): Promise<number> {
+  const users = await prisma.user.findMany({
+    where: {
+      points: { gt: 0 },
+      pointsLedger: { none: { remaining: { gt: 0 } } },
+    },
+    select: { id: true },
+  });
+
+  for (const user of users) {
+    await prisma.$transaction(async (tx) => {
+      const { points } = await tx.user.findUniqueOrThrow({ where: { id: user.id }, select: { points: true } });
+      const credits = await tx.pointsTransaction.findMany({
+        where: { userId: user.id, delta: { gt: 0 } },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, delta: true, createdAt: true },
+      });
+
+      const minExpiry = new Date(Date.now() + BACKFILL_MIN_NOTICE_DAYS * 24 * 60 * 60 * 1000);
+      let left = points;
+      for (const credit of credits) {
+        if (left <= 0) break;
+        const remaining = Math.min(credit.delta, left);
+        const expiresAt = earnExpiryDate(credit.createdAt);
+        await tx.pointsTransaction.update({
+          where: { id: credit.id },
+          data: { remaining, expiresAt: expiresAt && expiresAt < minExpiry ? minExpiry : expiresAt },
+        });
+        left -= remaining;
+      }
+    });
+  }
+
+  return users.length;
+}
@@ -0,0 +1,157 @@
+/**
+ * Rewards Catalog — what points can be exchanged for
+ *
+ * Each Reward has a point cost, eligible products / categories, optional
+ * stock and per-user limits and an availability window. processRedeem()
+ * checks these rules, and the issued RedemptionCode keeps the rewardId so the
+ * barista sees exactly what to hand over on verification.
+ */
+
+import type { Prisma, PrismaClient, Reward } from '@prisma/client';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type RewardUnavailableReason =
+  | 'INACTIVE'
+  | 'NOT_STARTED'
+  | 'ENDED'
+  | 'OUT_OF_STOCK'
+  | 'REWARD_LIMIT_REACHED';
+
+export type RewardWithProducts = Reward & { products: { id: string; name: string }[] };
+
+export interface CatalogReward {
+  id: string;
+  name: string;
+  description: string | null;
+  pointsCost: number;
+  products: { id: string; name: string }[];
+  categories: string[];
+  remainingStock: number | null;
+  codeValidMinutes: number;
+  availableUntil: string | null;
+  available: boolean;
+  reason: RewardUnavailableReason | null;
+  /** Only when the catalog is requested for a user with a per-user limit */
+  userRedemptionsLeft: number | null;
+}
+
+// ── Defaults ─────────────────────────────────────────────────────────────────
+
+/** Seeded on first start — mirrors the old fixed "100 балів = напій" exchange */
+export const DEFAULT_REWARDS: Prisma.RewardCreateInput[] = [
+  {
+    name: 'Безкоштовний напій',
+    description: 'Будь-який напій з меню',
+    pointsCost: 100,
+    codeValidMinutes: 15,
+    sortOrder: 0,
+  },
+];
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Catalog-level availability (ignores the user). Returns null when available.
+ */
+export function rewardAvailability(reward: Reward, now: Date = new Date()): RewardUnavailableReason | null {
+  if (!reward.isActive) return 'INACTIVE';
+  if (reward.availableFrom && reward.availableFrom > now) return 'NOT_STARTED';
+  if (reward.availableUntil && reward.availableUntil <= now) return 'ENDED';
+  if (reward.stockLimit !== null && reward.issuedCount >= reward.stockLimit) return 'OUT_OF_STOCK';
+  return null;
+}
+
+/**
+ * How many codes the user has already received for this reward within its limit period.
+ */
+export async function countUserRedemptions(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  userId: string,
+  reward: Reward,
+  now: Date = new Date(),
+): Promise<number> {
+  return prisma.redemptionCode.count({
+    where: {
+      userId,
+      rewardId: reward.id,
+      ...(reward.perUserPeriodDays
+        ? { createdAt: { gte: new Date(now.getTime() - reward.perUserPeriodDays * 24 * 60 * 60 * 1000) } }
+        : {}),
+    },
+  });
+}
+
+/**
+ * Human-readable "what to hand over" line for the barista.
+ */
+export function describeReward(reward: RewardWithProducts): string {
+  if (reward.products.length > 0) {
+    return `${reward.name} (${reward.products.map((p) => p.name).join(', ')})`;
+  }
+  if (reward.categories.length > 0) {
+    return `${reward.name} (категорія: ${reward.categories.join(', ')})`;
+  }
+  return reward.name;
+}
+
+// ── Core ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Active catalog, cheapest first. With a userId, per-user limits are applied too.
+ */
+export async function listRewards(
+  prisma: PrismaClient,
+  userId?: string,
+  now: Date = new Date(),
+): Promise<CatalogReward[]> {
+  const rewards = await prisma.reward.findMany({
+    where: {
+      isActive: true,
+      OR: [{ availableUntil: null }, { availableUntil: { gt: now } }],
+    },
+    include: { products: { select: { id: true, name: true } } },
+    orderBy: [{ sortOrder: 'asc' }, { pointsCost: 'asc' }],
+  });
+
+  return Promise.all(
+    rewards.map(async (reward) => {
+      let reason = rewardAvailability(reward, now);
+      let userRedemptionsLeft: number | null = null;
+
+      if (userId && reward.perUserLimit !== null) {
+        const used = await countUserRedemptions(prisma, userId, reward, now);
+        userRedemptionsLeft = Math.max(0, reward.perUserLimit - used);
+        if (!reason && userRedemptionsLeft === 0) reason = 'REWARD_LIMIT_REACHED';
+      }
+
+      return {
+        id: reward.id,
+        name: reward.name,
+        description: reward.description,
+        pointsCost: reward.pointsCost,
+        products: reward.products,
+        categories: reward.categories,
+        remainingStock: reward.stockLimit !== null ? Math.max(0, reward.stockLimit - reward.issuedCount) : null,
+        codeValidMinutes: reward.codeValidMinutes,
+        availableUntil: reward.availableUntil?.toISOString() ?? null,
+        available: reason === null,
+        reason,
+        userRedemptionsLeft,
+      };
+    }),
+  );
+}
+
+/**
+ * Create the default catalog if there are no rewards yet.
+ */
+export async function seedDefaultRewards(prisma: PrismaClient): Promise<boolean> {
+  const count = await prisma.reward.count();
+  if (count > 0) return false;
+
+  for (const reward of DEFAULT_REWARDS) {
+    await prisma.reward.create({ data: reward });
+  }
+  return true;
+}
@@ -0,0 +1,150 @@
+/**
+ * Daily Streaks — consecutive Kyiv days with a qualifying activity
+ *
+ * Qualifying activities: a Wheel of Fortune spin, a completed order, a
+ * verified redemption code. The first one on a Kyiv day extends the streak
+ * if the previous one was yesterday, otherwise the streak restarts at 1.
+ *
+ * Reaching 7, 14 and 30 days credits a one-off bonus (source STREAK).
+ * The streak multiplier is what Perky Jump used to compute from localStorage.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { sendTelegramMessage } from '../../shared/utils/telegram.js';
+import { getKyivDateString, shiftKyivDateString } from '../../shared/utils/timezone.js';
+import { applyPointsChange } from './points.service.js';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+export const STREAK_MILESTONES = [
+  { days: 7, bonus: 20 },
+  { days: 14, bonus: 50 },
+  { days: 30, bonus: 150 },
+] as const;
+
+/** Ordered from highest to lowest threshold */
+const STREAK_MULTIPLIERS = [
+  { days: 30, multiplier: 4.0 },
+  { days: 14, multiplier: 2.5 },
+  { days: 7, multiplier: 1.8 },
+  { days: 3, multiplier: 1.3 },
+];
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface StreakStatus {
+  days: number;
+  longest: number;
+  multiplier: number;
+  /** Today's activity already counted */
+  activeToday: boolean;
+  lastActiveDate: string | null;
+  nextMilestone: { days: number; bonus: number } | null;
+}
+
+export interface StreakUpdate {
+  days: number;
+  milestoneBonus: number;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+export function getStreakMultiplier(days: number): number {
+  return STREAK_MULTIPLIERS.find((m) => days >= m.days)?.multiplier ?? 1.0;
+}
+
+/**
+ * Streak length as of today: a streak whose last activity is older than
+ * yesterday is already broken, even though the stored counter isn't reset yet.
+ */
+function currentStreakDays(streakDays: number, lastDate: string | null, today: string): number {
+  if (!lastDate) return 0;
+  if (lastDate === today || lastDate === shiftKyivDateString(today, -1)) return streakDays;
+  return 0;
+}
+
+// ── Core ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Count a qualifying activity. Returns null if today was already counted.
+ */
+export async function recordStreakActivity(
+  prisma: PrismaClient,
+  userId: string,
+  now: Date = new Date(),
+): Promise<StreakUpdate | null> {
+  const today = getKyivDateString(now);
+
+  const result = await prisma.$transaction(async (tx) => {
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { streakDays: true, streakLongest: true, streakLastDate: true, telegramId: true, firstName: true },
+    });
+    if (!user || user.streakLastDate === today) return null;
+
+    const days = currentStreakDays(user.streakDays, user.streakLastDate, today) + 1;
+
+    // Claim the day — a concurrent activity for the same user loses and is a no-op
+    const { count } = await tx.user.updateMany({
+      where: { id: userId, streakLastDate: user.streakLastDate },
+      data: {
+        streakDays: days,
+        streakLongest: Math.max(user.streakLongest, days),
+        streakLastDate: today,
+      },
+    });
+    if (count === 0) return null;
+
+    const milestone = STREAK_MILESTONES.find((m) => m.days === days);
+    let balanceAfter: number | null = null;
+    if (milestone) {
+      const credit = await applyPointsChange(tx, {
+        userId,
+        delta: milestone.bonus,
+        source: 'STREAK',
+        reason: `Серія ${days} днів поспіль`,
+        referenceId: `streak:${today}`,
+      });
+      balanceAfter = credit.balanceAfter;
+    }
+
+    return { days, milestoneBonus: milestone?.bonus ?? 0, balanceAfter, telegramId: user.telegramId, firstName: user.firstName };
+  });
+
+  if (!result) return null;
+
+  if (result.milestoneBonus > 0) {
+    sendTelegramMessage(
+      Number(result.telegramId),
+      `🔥 *${result.firstName ?? 'Друже'}, ${result.days} днів поспіль!*\n\n` +
+      `Бонус за серію: *+${result.milestoneBonus} балів*\n💰 Твій баланс: *${result.balanceAfter}* балів`,
+    ).catch(() => {});
+  }
+
+  return { days: result.days, milestoneBonus: result.milestoneBonus };
+}
+
+export async function getStreakStatus(
+  prisma: PrismaClient,
+  userId: string,
+  now: Date = new Date(),
+): Promise<StreakStatus | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { streakDays: true, streakLongest: true, streakLastDate: true },
+  });
+  if (!user) return null;
+
+  const today = getKyivDateString(now);
+  const days = currentStreakDays(user.streakDays, user.streakLastDate, today);
+  const next = STREAK_MILESTONES.find((m) => m.days > days);
+
+  return {
+    days,
+    longest: user.streakLongest,
+    multiplier: getStreakMultiplier(days),
+    activeToday: user.streakLastDate === today,
+    lastActiveDate: user.streakLastDate,
+    nextMilestone: next ? { days: next.days, bonus: next.bonus } : null,
+  };
+}
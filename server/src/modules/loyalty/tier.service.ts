@@ -0,0 +1,255 @@
+/**
+ * Loyalty Tiers — Bronze / Silver / Gold
+ *
+ * A user's tier is derived from their activity over the last 90 days:
+ *   completed orders × 3 + spins × 1 + redemptions × 5 = activity score
+ *
+ * Each tier carries earning multipliers that every accrual path applies
+ * (Wheel of Fortune, Perky Jump score awards, order accrual).
+ *
+ * User.tier is a cached value — refreshUserTier() recomputes it after
+ * activity and notifies the user in Telegram when it changes. Demotions of
+ * inactive users are picked up by refreshStaleTiers() on a timer.
+ */
+
+import type { LoyaltyTier, Prisma, PrismaClient } from '@prisma/client';
+import { sendTelegramMessage } from '../../shared/utils/telegram.js';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+export const TIER_WINDOW_DAYS = 90;
+
+/** How much each kind of activity contributes to the score */
+export const ACTIVITY_WEIGHTS = {
+  order: 3,
+  spin: 1,
+  redemption: 5,
+} as const;
+
+export type EarnKind = 'spin' | 'game' | 'order';
+
+export interface TierRule {
+  tier: LoyaltyTier;
+  label: string;
+  minScore: number;
+  multipliers: Record<EarnKind, number>;
+}
+
+/** Ordered from lowest to highest */
+export const TIER_RULES: TierRule[] = [
+  { tier: 'BRONZE', label: 'Bronze', minScore: 0,  multipliers: { spin: 1,    game: 1,    order: 1 } },
+  { tier: 'SILVER', label: 'Silver', minScore: 30, multipliers: { spin: 1.25, game: 1.25, order: 1.1 } },
+  { tier: 'GOLD',   label: 'Gold',   minScore: 90, multipliers: { spin: 1.5,  game: 1.5,  order: 1.25 } },
+];
+
+const TIER_EMOJI: Record<LoyaltyTier, string> = {
+  BRONZE: '🥉',
+  SILVER: '🥈',
+  GOLD: '🥇',
+};
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface TierActivity {
+  orders: number;
+  spins: number;
+  redemptions: number;
+  score: number;
+}
+
+export interface TierProgress {
+  tier: LoyaltyTier;
+  label: string;
+  multipliers: Record<EarnKind, number>;
+  windowDays: number;
+  activity: TierActivity;
+  next: {
+    tier: LoyaltyTier;
+    label: string;
+    requiredScore: number;
+    remainingScore: number;
+    /** 0..1 progress from the current tier threshold to the next one */
+    progress: number;
+  } | null;
+}
+
+export interface TierRefreshResult {
+  previous: LoyaltyTier;
+  tier: LoyaltyTier;
+  changed: boolean;
+  activity: TierActivity;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+export function getTierRule(tier: LoyaltyTier): TierRule {
+  return TIER_RULES.find((r) => r.tier === tier) ?? TIER_RULES[0];
+}
+
+export function tierForScore(score: number): TierRule {
+  let result = TIER_RULES[0];
+  for (const rule of TIER_RULES) {
+    if (score >= rule.minScore) result = rule;
+  }
+  return result;
+}
+
+/**
+ * Scale a base award by the tier multiplier (rounded, never below the base).
+ */
+export function applyTierMultiplier(base: number, tier: LoyaltyTier, kind: EarnKind): number {
+  if (base <= 0) return base;
+  return Math.max(base, Math.round(base * getTierRule(tier).multipliers[kind]));
+}
+
+/**
+ * Count the user's activity inside the rolling window.
+ */
+export async function getTierActivity(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  userId: string,
+  now: Date = new Date(),
+): Promise<TierActivity> {
+  const since = new Date(now.getTime() - TIER_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const [orders, spins, redemptions] = await Promise.all([
+    prisma.order.count({
+      where: { userId, status: 'COMPLETED', createdAt: { gte: since } },
+    }),
+    prisma.spinHistory.count({
+      where: { userId, createdAt: { gte: since } },
+    }),
+    prisma.redemptionCode.count({
+      where: { userId, pointsSpent: { gt: 0 }, createdAt: { gte: since } },
+    }),
+  ]);
+
+  return {
+    orders,
+    spins,
+    redemptions,
+    score:
+      orders * ACTIVITY_WEIGHTS.order +
+      spins * ACTIVITY_WEIGHTS.spin +
+      redemptions * ACTIVITY_WEIGHTS.redemption,
+  };
+}
+
+function buildProgress(tier: LoyaltyTier, activity: TierActivity): TierProgress {
+  const rule = getTierRule(tier);
+  const index = TIER_RULES.indexOf(rule);
+  const nextRule = TIER_RULES[index + 1];
+
+  return {
+    tier: rule.tier,
+    label: rule.label,
+    multipliers: rule.multipliers,
+    windowDays: TIER_WINDOW_DAYS,
+    activity,
+    next: nextRule
+      ? {
+          tier: nextRule.tier,
+          label: nextRule.label,
+          requiredScore: nextRule.minScore,
+          remainingScore: Math.max(0, nextRule.minScore - activity.score),
+          progress: Math.min(
+            1,
+            Math.max(0, (activity.score - rule.minScore) / (nextRule.minScore - rule.minScore)),
+          ),
+        }
+      : null,
+  };
+}
+
+// ── Core ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Recompute the user's tier and persist it. Sends a Telegram message on change.
+ */
+export async function refreshUserTier(
+  prisma: PrismaClient,
+  userId: string,
+  now: Date = new Date(),
+): Promise<TierRefreshResult | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { tier: true, telegramId: true, firstName: true },
+  });
+  if (!user) return null;
+
+  const activity = await getTierActivity(prisma, userId, now);
+  const rule = tierForScore(activity.score);
+
+  // Conditional update so two concurrent refreshes notify only once
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, tier: user.tier },
+    data: { tier: rule.tier, tierUpdatedAt: now },
+  });
+
+  const changed = count > 0 && rule.tier !== user.tier;
+  if (changed) {
+    notifyTierChange(user.telegramId, user.firstName, user.tier, rule.tier);
+  }
+
+  return { previous: user.tier, tier: rule.tier, changed, activity };
+}
+
+/**
+ * Stored tier + progress to the next one (for /api/auth/me). Read-only: the
+ * tier itself is refreshed on order completion and by refreshStaleTiers().
+ */
+export async function getTierProgress(
+  prisma: PrismaClient,
+  userId: string,
+): Promise<TierProgress | null> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { tier: true } });
+  if (!user) return null;
+
+  const activity = await getTierActivity(prisma, userId);
+  return buildProgress(user.tier, activity);
+}
+
+/**
+ * Re-evaluate Silver/Gold users whose tier was not refreshed in the last day,
+ * so tiers drop once activity falls out of the window.
+ */
+export async function refreshStaleTiers(prisma: PrismaClient, now: Date = new Date()): Promise<number> {
+  const staleBefore = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  const users = await prisma.user.findMany({
+    where: {
+      tier: { not: 'BRONZE' },
+      OR: [{ tierUpdatedAt: null }, { tierUpdatedAt: { lt: staleBefore } }],
+    },
+    select: { id: true },
+  });
+
+  let changed = 0;
+  for (const user of users) {
+    const result = await refreshUserTier(prisma, user.id, now);
+    if (result?.changed) changed++;
+  }
+  return changed;
+}
+
+function notifyTierChange(
+  telegramId: string,
+  firstName: string | null,
+  previous: LoyaltyTier,
+  current: LoyaltyTier,
+): void {
+  const rule = getTierRule(current);
+  const name = firstName ?? 'Друже';
+  const upgraded = TIER_RULES.indexOf(rule) > TIER_RULES.indexOf(getTierRule(previous));
+
+  const text = upgraded
+    ? `${TIER_EMOJI[current]} *${name}, вітаємо з рівнем ${rule.label}!*\n\n` +
+      `Тепер ти отримуєш більше балів:\n` +
+      `🎡 Колесо: ×${rule.multipliers.spin}\n` +
+      `🎮 Ігри: ×${rule.multipliers.game}\n` +
+      `☕ Замовлення: ×${rule.multipliers.order}`
+    : `${TIER_EMOJI[current]} *${name}, твій рівень змінився на ${rule.label}.*\n\n` +
+      `Рівень рахується за активністю за останні ${TIER_WINDOW_DAYS} днів — ` +
+      `замовляй, крути колесо та обмінюй бали, щоб повернути його!`;
+
+  sendTelegramMessage(Number(telegramId), text).catch(() => {});
+}
@@ -0,0 +1,167 @@
+/**
+ * Wheel of Fortune — prize tables
+ *
+ * Prize tables live in the database (WheelPrizeTable / WheelPrize), are
+ * versioned and can be limited to an active window. Resolution order:
+ *   1. Highest active version for the spin's location
+ *   2. Highest active version of the default table (locationId = null)
+ *   3. DEFAULT_WHEEL_PRIZES (built-in, used until an admin publishes a table)
+ *
+ * The same resolved table feeds both the weighted draw in processSpin and
+ * GET /api/loyalty/wheel-config. The spin response carries the table it drew
+ * from too, so the client redraws the wheel from it before animating — the
+ * config it loaded may be for another location than the one the spin used.
+ */
+
+import type { Prisma, PrismaClient, WheelPrizeType } from '@prisma/client';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface WheelPrizeConfig {
+  id: string | null;
+  label: string;
+  type: WheelPrizeType;
+  points: number;
+  weight: number;
+  color: string;
+  payload: Prisma.JsonValue | null;
+  validHours: number;
+}
+
+export interface ResolvedPrizeTable {
+  tableId: string | null;
+  version: number;
+  locationId: string | null;
+  prizes: WheelPrizeConfig[];
+}
+
+/** What the client draws: GET /wheel-config and the spin response */
+export interface WheelTableView {
+  tableId: string | null;
+  version: number;
+  locationId: string | null;
+  segments: Pick<WheelPrizeConfig, 'id' | 'label' | 'type' | 'points' | 'weight' | 'color'>[];
+}
+
+// ── Defaults ─────────────────────────────────────────────────────────────────
+
+/** Built-in table (40% / 30% / 10% / 20%) — also used to seed the first DB version */
+export const DEFAULT_WHEEL_PRIZES: Omit<WheelPrizeConfig, 'id'>[] = [
+  { label: '5 балів',        type: 'POINTS',  points: 5,  weight: 40, color: '#FFD700', payload: null, validHours: 24 },
+  { label: '10 балів',       type: 'POINTS',  points: 10, weight: 30, color: '#FFA500', payload: null, validHours: 24 },
+  { label: '15 балів',       type: 'POINTS',  points: 15, weight: 10, color: '#FF6347', payload: null, validHours: 24 },
+  { label: 'Спробуй завтра', type: 'NOTHING', points: 0,  weight: 20, color: '#9E9E9E', payload: null, validHours: 24 },
+];
+
+// ── Resolution ───────────────────────────────────────────────────────────────
+
+function activeWindow(now: Date): Prisma.WheelPrizeTableWhereInput {
+  return {
+    isActive: true,
+    AND: [
+      { OR: [{ activeFrom: null }, { activeFrom: { lte: now } }] },
+      { OR: [{ activeUntil: null }, { activeUntil: { gt: now } }] },
+    ],
+  };
+}
+
+/**
+ * Resolve the prize table that applies right now (optionally for a location).
+ */
+export async function resolvePrizeTable(
+  prisma: PrismaClient,
+  locationId?: string | null,
+  now: Date = new Date(),
+): Promise<ResolvedPrizeTable> {
+  const candidates = locationId ? [locationId, null] : [null];
+
+  for (const candidate of candidates) {
+    const table = await prisma.wheelPrizeTable.findFirst({
+      where: { ...activeWindow(now), locationId: candidate, prizes: { some: { weight: { gt: 0 } } } },
+      orderBy: { version: 'desc' },
+      include: { prizes: { where: { weight: { gt: 0 } }, orderBy: { sortOrder: 'asc' } } },
+    });
+
+    if (table) {
+      return {
+        tableId: table.id,
+        version: table.version,
+        locationId: table.locationId,
+        prizes: table.prizes.map((p) => ({
+          id: p.id,
+          label: p.label,
+          type: p.type,
+          points: p.type === 'POINTS' ? p.points : 0,
+          weight: p.weight,
+          color: p.color,
+          payload: p.payload,
+          validHours: p.validHours,
+        })),
+      };
+    }
+  }
+
+  return {
+    tableId: null,
+    version: 0,
+    locationId: null,
+    prizes: DEFAULT_WHEEL_PRIZES.map((p) => ({ ...p, id: null })),
+  };
+}
+
+export function toWheelTableView(table: ResolvedPrizeTable): WheelTableView {
+  return {
+    tableId: table.tableId,
+    version: table.version,
+    locationId: table.locationId,
+    segments: table.prizes.map((p) => ({
+      id: p.id,
+      label: p.label,
+      type: p.type,
+      points: p.points,
+      weight: p.weight,
+      color: p.color,
+    })),
+  };
+}
+
+/**
+ * Pick a prize using weighted random selection.
+ */
+export function drawPrize(prizes: WheelPrizeConfig[]): WheelPrizeConfig {
+  const totalWeight = prizes.reduce((sum, p) => sum + p.weight, 0);
+  let random = Math.random() * totalWeight;
+
+  for (const prize of prizes) {
+    random -= prize.weight;
+    if (random <= 0) return prize;
+  }
+  return prizes[prizes.length - 1];
+}
+
+/**
+ * Write the built-in table as version 1 of the default table if none exists yet.
+ */
+export async function seedDefaultPrizeTable(prisma: PrismaClient): Promise<boolean> {
+  const count = await prisma.wheelPrizeTable.count();
+  if (count > 0) return false;
+
+  await prisma.wheelPrizeTable.create({
+    data: {
+      name: 'Стандартне колесо',
+      version: 1,
+      prizes: {
+        create: DEFAULT_WHEEL_PRIZES.map((p, index) => ({
+          label: p.label,
+          type: p.type,
+          points: p.points,
+          weight: p.weight,
+          color: p.color,
+          validHours: p.validHours,
+          sortOrder: index,
+        })),
+      },
+    },
+  });
+  return true;
+}
@@ -0,0 +1,106 @@
+/**
+ * Order Auto-Cancel — unconfirmed orders EXPIRE after a timeout
+ *
+ * On creation every order gets a durable `order.autoCancel` job (see
+ * shared/jobs.ts), so the cancel still happens after a restart or deploy.
+ * When the job runs, an order that is still PENDING moves to EXPIRED through
+ * the status machine (customer message, points released) and the admins are
+ * told; anything a barista already touched is left alone.
+ *
+ * The timeout comes from OrderTimeoutRule rows, most specific first:
+ *   location + hours  >  location  >  all locations + hours  >  all locations
+ * and falls back to ORDER_AUTO_CANCEL_MINUTES (1 min by default).
+ * Hours are Kyiv time; a window like 22–6 wraps past midnight.
+ */
+
+import type { OrderTimeoutRule, Prisma, PrismaClient } from '@prisma/client';
+import { registerJobHandler, scheduleJob } from '../../shared/jobs.js';
+import { sendTelegramMessage } from '../../shared/utils/telegram.js';
+import { getKyivHour } from '../../shared/utils/timezone.js';
+import { transitionOrder } from './orderStatus.service.js';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+export const DEFAULT_AUTO_CANCEL_MINUTES = Number(process.env.ORDER_AUTO_CANCEL_MINUTES) || 1;
+const ADMIN_CHAT_ID = process.env.ADMIN_CHAT_ID;
+const AUTO_CANCEL_JOB = 'order.autoCancel';
+
+// ── Timeout rules ────────────────────────────────────────────────────────────
+
+export function ruleCoversHour(rule: Pick<OrderTimeoutRule, 'startHour' | 'endHour'>, hour: number): boolean {
+  if (rule.startHour === null || rule.endHour === null) return true;
+  if (rule.startHour <= rule.endHour) return hour >= rule.startHour && hour < rule.endHour;
+  return hour >= rule.startHour || hour < rule.endHour;
+}
+
+function specificity(rule: OrderTimeoutRule): number {
+  return (rule.locationId ? 2 : 0) + (rule.startHour !== null ? 1 : 0);
+}
+
+/** Minutes an order placed at `locationId` at `now` may wait for confirmation */
+export async function resolveAutoCancelMinutes(
+  db: PrismaClient | Prisma.TransactionClient,
+  locationId: string,
+  now: Date = new Date(),
+): Promise<number> {
+  const rules = await db.orderTimeoutRule.findMany({
+    where: { OR: [{ locationId }, { locationId: null }] },
+  });
+
+  const hour = getKyivHour(now);
+  const best = rules
+    .filter((rule) => ruleCoversHour(rule, hour))
+    .sort((a, b) => specificity(b) - specificity(a))[0];
+
+  return best?.minutes ?? DEFAULT_AUTO_CANCEL_MINUTES;
+}
+
+// ── Scheduling ───────────────────────────────────────────────────────────────
+
+/** Queue the auto-cancel for a new order; returns the timeout in minutes */
+export async function scheduleOrderAutoCancel(
+  db: PrismaClient | Prisma.TransactionClient,
+  order: { id: string; locationId: string },
+  now: Date = new Date(),
+): Promise<number> {
+  const minutes = await resolveAutoCancelMinutes(db, order.locationId, now);
+  await scheduleJob(db, {
+    type: AUTO_CANCEL_JOB,
+    payload: { orderId: order.id, minutes },
+    runAt: new Date(now.getTime() + minutes * 60 * 1000),
+    dedupeKey: `order:autoCancel:${order.id}`,
+  });
+  return minutes;
+}
+
+// ── Job ──────────────────────────────────────────────────────────────────────
+
+async function notifyAdmins(prisma: PrismaClient, text: string): Promise<void> {
+  const admins = await prisma.user.findMany({
+    where: { role: { in: ['ADMIN', 'OWNER'] } },
+    select: { telegramId: true },
+  });
+
+  const recipients = new Set(admins.map((a) => a.telegramId).filter(Boolean));
+  if (ADMIN_CHAT_ID) recipients.add(String(ADMIN_CHAT_ID));
+
+  await Promise.all([...recipients].map((chatId) => sendTelegramMessage(chatId, text)));
+}
+
+async function expireOrder(payload: Record<string, unknown>, prisma: PrismaClient): Promise<void> {
+  const orderId = String(payload.orderId);
+  const minutes = Number(payload.minutes) || DEFAULT_AUTO_CANCEL_MINUTES;
+
+  const result = await transitionOrder(prisma, orderId, 'EXPIRED', { type: 'SYSTEM' }, {
+    reason: 'Не підтверджено вчасно',
+  });
+  // Gone, already confirmed/cancelled, or expired by an earlier attempt
+  if (!result.ok || !result.changed) return;
+
+  console.log(`[AutoCancel] Order #${result.order.orderNumber} expired after ${minutes} min`);
+  await notifyAdmins(prisma, `❌ *Замовлення #${result.order.orderNumber} автоматично скасовано* (минуло ${minutes} хв)`);
+}
+
+export function registerAutoCancelJob(): void {
+  registerJobHandler(AUTO_CANCEL_JOB, expireOrder);
+}
@@ -0,0 +1,219 @@
+/**
+ * Order Status — the one place that moves an order between statuses
+ *
+ *   DRAFT ─► PENDING ─► CONFIRMED ─► PREPARING ─► READY ─► COMPLETED ─► REFUNDED
+ *              └─► EXPIRED (nobody confirmed in time)
+ *
+ * PENDING may skip straight to PREPARING and CONFIRMED to READY; any status
+ * before COMPLETED may go to REJECTED. The table below is the source of truth.
+ *
+ * Each transition lists the actors allowed to perform it:
+ *  - CUSTOMER — the order's owner: submit a draft, cancel while still PENDING
+ *  - STAFF    — ADMIN / OWNER (bot buttons, admin routes)
+ *  - SYSTEM   — timers, e.g. the auto-cancel of unconfirmed orders
+ *
+ * The status update is a conditional write on the status that was read, so
+ * two baristas tapping at once produce one transition. Every transition is
+ * stored in OrderStatusHistory in the same transaction, together with an
+ * `order.sideEffects` job (see shared/jobs.ts) that is retried until it succeeds:
+ *  - loyalty points: earned / reversed / spent discount (syncOrderPoints)
+ *  - tier and streak refresh on COMPLETED
+ * All of them are idempotent. The Telegram message to the customer (not when
+ * they cancelled themselves) is sent right after the commit, best effort.
+ * Product stock is a plain inStock flag, so orders do not touch it.
+ */
+
+import type { OrderActorType, OrderStatus, Prisma, PrismaClient } from '@prisma/client';
+import { registerJobHandler, scheduleJob } from '../../shared/jobs.js';
+import { sendTelegramMessage } from '../../shared/utils/telegram.js';
+import { syncOrderPoints } from '../loyalty/accrual.service.js';
+import { refreshUserTier } from '../loyalty/tier.service.js';
+import { recordStreakActivity } from '../loyalty/streak.service.js';
+
+// ── Transitions ──────────────────────────────────────────────────────────────
+
+type TransitionTable = Record<OrderStatus, Partial<Record<OrderStatus, OrderActorType[]>>>;
+
+const TRANSITIONS: TransitionTable = {
+  DRAFT: { PENDING: ['CUSTOMER'], REJECTED: ['CUSTOMER', 'STAFF'] },
+  // PENDING → PREPARING: the bot's "accept" button starts preparing straight away
+  PENDING: { CONFIRMED: ['STAFF'], PREPARING: ['STAFF'], REJECTED: ['CUSTOMER', 'STAFF'], EXPIRED: ['SYSTEM'] },
+  CONFIRMED: { PREPARING: ['STAFF'], READY: ['STAFF'], REJECTED: ['STAFF'] },
+  PREPARING: { READY: ['STAFF'], REJECTED: ['STAFF'] },
+  READY: { COMPLETED: ['STAFF'], REJECTED: ['STAFF'] },
+  COMPLETED: { REFUNDED: ['STAFF'] },
+  REJECTED: {},
+  EXPIRED: {},
+  REFUNDED: {},
+};
+
+const STATUS_LABEL: Record<OrderStatus, string> = {
+  DRAFT: 'чернетка',
+  PENDING: 'очікує підтвердження',
+  CONFIRMED: 'підтверджено',
+  PREPARING: 'готується',
+  READY: 'готово до видачі',
+  COMPLETED: 'виконано',
+  REJECTED: 'скасовано',
+  EXPIRED: 'скасовано автоматично',
+  REFUNDED: 'кошти повернено',
+};
+
+const SIDE_EFFECTS_JOB = 'order.sideEffects';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface OrderActor {
+  type: OrderActorType;
+  /** User who made the change; null for SYSTEM */
+  userId?: string | null;
+}
+
+export interface TransitionOptions {
+  reason?: string;
+}
+
+type TransitionedOrder = Prisma.OrderGetPayload<{ include: { user: { select: { telegramId: true } } } }>;
+
+export type TransitionResult =
+  | { ok: true; order: TransitionedOrder; from: OrderStatus; changed: boolean }
+  | { ok: false; error: string; message: string };
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+export function canTransition(from: OrderStatus, to: OrderStatus, actor: OrderActorType): boolean {
+  return TRANSITIONS[from][to]?.includes(actor) ?? false;
+}
+
+/** Statuses `actor` may move an order in `from` to */
+export function allowedTransitions(from: OrderStatus, actor: OrderActorType): OrderStatus[] {
+  return (Object.entries(TRANSITIONS[from]) as [OrderStatus, OrderActorType[]][])
+    .filter(([, actors]) => actors.includes(actor))
+    .map(([to]) => to);
+}
+
+/** Append a history row; `from` is null when the order is created */
+export async function recordStatusChange(
+  tx: Prisma.TransactionClient,
+  data: { orderId: string; from: OrderStatus | null; to: OrderStatus; actor: OrderActor; reason?: string },
+): Promise<void> {
+  await tx.orderStatusHistory.create({
+    data: {
+      orderId: data.orderId,
+      fromStatus: data.from,
+      toStatus: data.to,
+      actorType: data.actor.type,
+      actorId: data.actor.userId ?? null,
+      reason: data.reason,
+    },
+  });
+}
+
+function customerMessage(order: TransitionedOrder): string | null {
+  const n = order.orderNumber;
+  switch (order.status) {
+    case 'CONFIRMED':
+      return `✅ *Бариста прийняв замовлення #${n}!*`;
+    case 'PREPARING':
+      return `☕ *Бариста готує замовлення #${n}!*`;
+    case 'READY':
+      return `Твоя кава чекає на тебе! ☕️`;
+    case 'COMPLETED':
+      return `🎉 *Замовлення #${n} виконано!*`;
+    case 'REJECTED':
+      return `❌ *Замовлення #${n} скасовано.*`;
+    case 'EXPIRED':
+      return '❌ Замовлення скасовано. Наразі великий потік людей, бариста не може прийняти замовлення завчасно. Спробуйте замовити на місці!';
+    case 'REFUNDED':
+      return `💸 *Кошти за замовлення #${n} повернено.*`;
+    default:
+      return null;
+  }
+}
+
+function notifyCustomer(order: TransitionedOrder, actor: OrderActor): void {
+  const message = actor.type === 'CUSTOMER' ? null : customerMessage(order);
+  if (message) sendTelegramMessage(Number(order.user.telegramId), message).catch(() => {});
+}
+
+/** Points, tier and streak for a transition; throws so the job is retried */
+async function runSideEffects(payload: Record<string, unknown>, prisma: PrismaClient): Promise<void> {
+  const orderId = String(payload.orderId);
+  const userId = String(payload.userId);
+  const status = payload.status as OrderStatus;
+
+  await syncOrderPoints(prisma, orderId, status);
+
+  if (status === 'COMPLETED') {
+    await refreshUserTier(prisma, userId);
+    // The streak counts the day the order was completed, not the day a retry ran
+    await recordStreakActivity(prisma, userId, new Date(String(payload.at)));
+  }
+}
+
+export function registerOrderStatusJobs(): void {
+  registerJobHandler(SIDE_EFFECTS_JOB, runSideEffects);
+}
+
+// ── Core ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Move an order to `to` on behalf of `actor`. Asking for the status the order
+ * already has succeeds without a new history row or side effects.
+ */
+export async function transitionOrder(
+  prisma: PrismaClient,
+  orderId: string,
+  to: OrderStatus,
+  actor: OrderActor,
+  options: TransitionOptions = {},
+): Promise<TransitionResult> {
+  const current = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { user: { select: { telegramId: true } } },
+  });
+  if (!current) return { ok: false, error: 'ORDER_NOT_FOUND', message: 'Замовлення не знайдено' };
+
+  const from = current.status;
+  if (from === to) return { ok: true, order: current, from, changed: false };
+
+  if (!TRANSITIONS[from][to]) {
+    return {
+      ok: false,
+      error: 'INVALID_TRANSITION',
+      message: `Замовлення ${STATUS_LABEL[from]} — не можна змінити на «${STATUS_LABEL[to]}»`,
+    };
+  }
+  if (!canTransition(from, to, actor.type)) {
+    return { ok: false, error: 'FORBIDDEN', message: 'Недостатньо прав для зміни статусу' };
+  }
+
+  const order = await prisma.$transaction(async (tx) => {
+    const staff = actor.type === 'STAFF' && actor.userId;
+    const { count } = await tx.order.updateMany({
+      where: { id: orderId, status: from },
+      data: staff ? { status: to, processedById: actor.userId, processedAt: new Date() } : { status: to },
+    });
+    if (count === 0) return null;
+
+    await recordStatusChange(tx, { orderId, from, to, actor, reason: options.reason });
+    const now = new Date();
+    await scheduleJob(tx, {
+      type: SIDE_EFFECTS_JOB,
+      payload: { orderId, userId: current.userId, status: to, at: now.toISOString() },
+      runAt: now,
+      dedupeKey: `order:sideEffects:${orderId}:${to}`,
+    });
+    return tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: { user: { select: { telegramId: true } } },
+    });
+  });
+
+  if (!order) {
+    return { ok: false, error: 'STATUS_CHANGED', message: 'Статус замовлення щойно змінився, оновіть дані' };
+  }
+
+  notifyCustomer(order, actor);
+  return { ok: true, order, from, changed: true };
+}
@@ -3,20 +3,41 @@
  *
  * POST   /api/orders        — Create order
  * GET    /api/orders        — My orders
- * GET    /api/orders/:id    — Order details
+ * GET    /api/orders/slots?locationId= — Pickup slots with ready times and free places
+ * GET    /api/orders/:id    — Order details with status history
  * DELETE /api/orders/:id    — Cancel (only PENDING)
  * PATCH  /api/orders/:id/status — Legacy status update (bot compat)
+ *
+ * Every status change goes through orderStatus.service.ts, which enforces
+ * the allowed transitions, keeps the status history and runs the side
+ * effects (customer messages, loyalty points). Unconfirmed orders EXPIRE
+ * after a per-location / time-of-day timeout (see autoCancel.service.ts).
+ *
+ * Drinks are booked into 5-minute pickup slots limited by the location's
+ * capacity; a full slot or paused ordering rejects the order
+ * (see pickupSlots.service.ts).
+ *
+ * Items carry ids only (product, size variant, modifier options); they are
+ * validated and priced on the server (see modules/products/modifiers.service.ts).
+ *
+ * `pointsToUse` on creation pays part of the order with points: they are
+ * reserved immediately and committed or released with the order status
+ * (see modules/loyalty/discount.service.ts).
  */
 
 import type { FastifyInstance, FastifyPluginOptions, FastifyRequest } from 'fastify';
-import { Prisma } from '@prisma/client';
 import { z } from 'zod';
 import { requireAuth, type JwtPayload } from '../../shared/jwt.js';
 import { sendTelegramMessage } from '../../shared/utils/telegram.js';
+import { quotePointsDiscount, reserveOrderPoints } from '../loyalty/discount.service.js';
+import { INSUFFICIENT_POINTS } from '../loyalty/points.service.js';
+import { recordStatusChange, transitionOrder } from './orderStatus.service.js';
+import { scheduleOrderAutoCancel } from './autoCancel.service.js';
+import { SLOT_FULL, listPickupSlots, planPickup, withPickupSlot } from './pickupSlots.service.js';
+import { formatPricedLine, orderItemData, priceOrderItems } from '../products/modifiers.service.js';
 
 const BOT_TOKEN = process.env.BOT_TOKEN;
 const ADMIN_CHAT_ID = process.env.ADMIN_CHAT_ID;
-const AUTO_CANCEL_DELAY_MS = 1 * 60 * 1000;
 
 // ── Schemas ──────────────────────────────────────────────────────────────────
 
@@ -24,12 +45,16 @@ const createOrderSchema = z.object({
   locationId: z.string(),
   items: z.array(z.object({
     productId: z.string(),
+    variantId: z.string().optional(),
+    modifierOptionIds: z.array(z.string()).max(20).optional(),
     quantity: z.number().int().positive(),
-    options: z.record(z.unknown()).optional(),
   })).min(1),
   pickupTime: z.number().int().min(5).max(30).default(10),
+  /** Slot start from GET /slots; wins over pickupTime */
+  pickupSlot: z.string().datetime().optional(),
   comment: z.string().max(500).optional(),
   paymentMethod: z.enum(['CASH', 'CARD']).default('CASH'),
+  pointsToUse: z.number().int().min(0).default(0),
 });
 
 const legacyCreateOrderSchema = z.object({
@@ -37,15 +62,20 @@ const legacyCreateOrderSchema = z.object({
   locationId: z.string(),
   items: z.array(z.object({
     productId: z.string(),
-    name: z.string(),
+    variantId: z.string().optional(),
+    modifierOptionIds: z.array(z.string()).max(20).optional(),
     quantity: z.number().int().positive(),
-    price: z.number().positive(),
+    /** Ignored — prices come from the menu */
+    name: z.string().optional(),
+    price: z.number().optional(),
   })).min(1),
   paymentMethod: z.string().default('cash'),
   pickupMinutes: z.number().int().min(5).max(30).optional(),
+  pickupSlot: z.string().datetime().optional(),
   deliveryType: z.string().default('pickup'),
   shippingAddr: z.string().optional(),
   phone: z.string().optional(),
+  pointsToUse: z.number().int().min(0).default(0),
 });
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
@@ -109,39 +139,6 @@ export async function orderRoutes(
     }
   };
 
-  const scheduleAutoCancel = (orderId: string): void => {
-    setTimeout(async () => {
-      try {
-        const order = await app.prisma.order.findUnique({
-          where: { id: orderId },
-          include: {
-            user: { select: { telegramId: true } },
-          },
-        });
-
-        if (!order || order.status !== 'PENDING') {
-          return;
-        }
-
-        const cancelledOrder = await app.prisma.order.update({
-          where: { id: orderId },
-          data: { status: 'REJECTED' },
-        });
-
-        await sendTelegramMessage(
-          Number(order.user.telegramId),
-          '❌ Замовлення скасовано. Наразі великий потік людей, бариста не може прийняти замовлення завчасно. Спробуйте замовити на місці!',
-        );
-
-        await notifyAdminsAboutOrder(
-          `❌ <b>Замовлення #${cancelledOrder.orderNumber} автоматично скасовано</b> (минуло 1 хв)`,
-        );
-      } catch (error) {
-        app.log.error({ err: error, orderId }, 'Order auto-cancel failed');
-      }
-    }, AUTO_CANCEL_DELAY_MS);
-  };
-
   // POST /api/orders
   app.post('/', async (request, reply) => {
     try {
@@ -173,47 +170,58 @@ export async function orderRoutes(
             userId = u.id;
             userTelegramId = u.telegramId;
 
-            const { locationId, items, paymentMethod, pickupMinutes } = legacyParsed.data;
-            const pickupTime = pickupMinutes ?? 10;
+            const { locationId, items, paymentMethod, pickupMinutes, pickupSlot, pointsToUse } = legacyParsed.data;
             const location = await app.prisma.location.findUnique({ where: { id: locationId } });
             if (!location) return reply.status(404).send({ error: 'Location not found' });
 
-            const totalPrice = items.reduce((s, i) => s + i.price * i.quantity, 0);
-
-            const order = await app.prisma.order.create({
-              data: {
-                userId: u.id,
-                locationId,
-                status: 'PENDING',
-                subtotal: totalPrice,
-                total: totalPrice,
-                pickupTime,
-                paymentMethod: paymentMethod === 'cash' ? 'CASH' : 'CARD',
-                estimatedReady: new Date(Date.now() + pickupTime * 60 * 1000),
-                items: {
-                  create: items.map(i => ({
-                    product: { connect: { id: i.productId } },
-                    quantity: i.quantity,
-                    price: Math.round(i.price),
-                    total: Math.round(i.price * i.quantity),
-                  })),
+            const pickup = await planPickup(app.prisma, location, items, { slot: pickupSlot, minutes: pickupMinutes });
+            if (!pickup.ok) return reply.status(409).send({ error: pickup.error, message: pickup.message });
+            const { plan } = pickup;
+            const pickupTime = plan.minutes;
+
+            const priced = await priceOrderItems(app.prisma, location, items);
+            if (!priced.ok) return reply.status(400).send({ error: priced.error, message: priced.message });
+            const totalPrice = priced.subtotal;
+            const { pointsUsed, discount } = quotePointsDiscount(totalPrice, pointsToUse);
+
+            const { order, autoCancelMinutes } = await withPickupSlot(location, plan, (book) => app.prisma.$transaction(async (tx) => {
+              await book(tx);
+              const created = await tx.order.create({
+                data: {
+                  userId: u.id,
+                  locationId,
+                  status: 'PENDING',
+                  subtotal: totalPrice,
+                  discount,
+                  pointsUsed,
+                  pointsReservation: pointsUsed > 0 ? 'RESERVED' : null,
+                  total: totalPrice - discount,
+                  pickupTime,
+                  pickupSlot: plan.slot,
+                  paymentMethod: paymentMethod === 'cash' ? 'CASH' : 'CARD',
+                  estimatedReady: plan.readyAt,
+                  items: { create: priced.lines.map(orderItemData) },
                 },
-              },
-              include: { items: true, location: { select: { name: true } } },
-            });
-
-            const itemsList = items.map(i => `  • ${i.name} x${i.quantity} — ${i.price * i.quantity} грн`).join('\n');
+                include: { items: true, location: { select: { name: true } } },
+              });
+              await recordStatusChange(tx, { orderId: created.id, from: null, to: created.status, actor: { type: 'CUSTOMER', userId: u.id } });
+              if (pointsUsed > 0) {
+                await reserveOrderPoints(tx, { id: created.id, userId: u.id, orderNumber: created.orderNumber, pointsUsed });
+              }
+              return { order: created, autoCancelMinutes: await scheduleOrderAutoCancel(tx, created) };
+            }));
+
+            const itemsList = priced.lines.map(l => `  ${formatPricedLine(l)}`).join('\n');
             const userName = u.firstName || u.username || `ID: ${u.telegramId}`;
 
-            const adminMsg = `🆕 <b>НОВЕ ЗАМОВЛЕННЯ #${order.orderNumber}</b>\n\n👤 ${userName}\n📍 ${order.location.name}\n💰 <b>${totalPrice} грн</b>\n\n📋 <b>Склад:</b>\n${itemsList}`;
+            const discountLine = discount > 0 ? `\n🎁 Знижка балами: −${discount} грн (${pointsUsed} балів)` : '';
+            const adminMsg = `🆕 <b>НОВЕ ЗАМОВЛЕННЯ #${order.orderNumber}</b>\n\n👤 ${userName}\n📍 ${order.location.name}\n💰 <b>${order.total} грн</b>${discountLine}\n\n📋 <b>Склад:</b>\n${itemsList}`;
             await notifyAdminsAboutOrder(adminMsg, [[{ text: '✅ Прийняти в роботу', callback_data: `order_accept:${order.id}` }]]);
 
-            sendTelegramMessage(Number(u.telegramId), `✅ *Замовлення #${order.orderNumber} створено!*\n\n📍 ${order.location.name}\n⏱ Очікуйте ~${pickupTime} хв\n\n⚠️ Якщо бариста не підтвердить замовлення протягом 1 хв, воно буде автоматично скасоване.`).catch(() => {});
-
-            scheduleAutoCancel(order.id);
+            sendTelegramMessage(Number(u.telegramId), `✅ *Замовлення #${order.orderNumber} створено!*\n\n📍 ${order.location.name}\n⏱ Очікуйте ~${pickupTime} хв\n\n⚠️ Якщо бариста не підтвердить замовлення протягом ${autoCancelMinutes} хв, воно буде автоматично скасоване.`).catch(() => {});
 
             return reply.status(201).send({
-              order: { id: order.id, orderNumber: order.orderNumber, status: order.status, totalPrice: totalPrice.toString(), location: order.location.name, items: order.items, createdAt: order.createdAt },
+              order: { id: order.id, orderNumber: order.orderNumber, status: order.status, totalPrice: order.total.toString(), subtotal: totalPrice, discount, pointsUsed, location: order.location.name, items: order.items, createdAt: order.createdAt },
             });
           }
         }
@@ -226,50 +234,64 @@ export async function orderRoutes(
       const location = await app.prisma.location.findUnique({ where: { id: parsed.locationId } });
       if (!location || !location.hasOrdering) return reply.status(400).send({ error: 'ORDERING_NOT_AVAILABLE' });
 
-      const products = await app.prisma.product.findMany({
-        where: { id: { in: parsed.items.map(i => i.productId) }, inStock: true, isActive: true },
-      });
+      const pickup = await planPickup(app.prisma, location, parsed.items, { slot: parsed.pickupSlot, minutes: parsed.pickupTime });
+      if (!pickup.ok) return reply.status(409).send({ error: pickup.error, message: pickup.message });
+      const { plan } = pickup;
 
-      let total = 0;
-      const orderItems = parsed.items.map(item => {
-        const product = products.find(p => p.id === item.productId);
-        if (!product) throw new Error(`Product ${item.productId} not found`);
-        const t = product.price * item.quantity;
-        total += t;
-        return { product: { connect: { id: item.productId } }, quantity: item.quantity, price: product.price, total: t, options: (item.options as Prisma.InputJsonValue) ?? Prisma.JsonNull };
-      });
+      const priced = await priceOrderItems(app.prisma, location, parsed.items);
+      if (!priced.ok) return reply.status(400).send({ error: priced.error, message: priced.message });
+      const total = priced.subtotal;
 
       const user = await app.prisma.user.findUnique({ where: { id: userId }, select: { firstName: true, username: true, telegramId: true } });
+      const { pointsUsed, discount } = quotePointsDiscount(total, parsed.pointsToUse);
+      const customerId = userId;
+
+      const { order, autoCancelMinutes } = await withPickupSlot(location, plan, (book) => app.prisma.$transaction(async (tx) => {
+        await book(tx);
+        const created = await tx.order.create({
+          data: {
+            userId: customerId,
+            locationId: parsed.locationId,
+            status: 'PENDING',
+            pickupTime: plan.minutes,
+            pickupSlot: plan.slot,
+            comment: parsed.comment,
+            paymentMethod: parsed.paymentMethod,
+            subtotal: total,
+            discount,
+            pointsUsed,
+            pointsReservation: pointsUsed > 0 ? 'RESERVED' : null,
+            total: total - discount,
+            estimatedReady: plan.readyAt,
+            items: { create: priced.lines.map(orderItemData) },
+          },
+          include: { items: { include: { product: { select: { name: true } } } }, location: true },
+        });
+        await recordStatusChange(tx, { orderId: created.id, from: null, to: created.status, actor: { type: 'CUSTOMER', userId: customerId } });
+        if (pointsUsed > 0) {
+          await reserveOrderPoints(tx, { id: created.id, userId: customerId, orderNumber: created.orderNumber, pointsUsed });
+        }
+        return { order: created, autoCancelMinutes: await scheduleOrderAutoCancel(tx, created) };
+      }));
 
-      const order = await app.prisma.order.create({
-        data: {
-          userId,
-          locationId: parsed.locationId,
-          status: 'PENDING',
-          pickupTime: parsed.pickupTime,
-          comment: parsed.comment,
-          paymentMethod: parsed.paymentMethod,
-          subtotal: total,
-          total,
-          estimatedReady: new Date(Date.now() + parsed.pickupTime * 60 * 1000),
-          items: { create: orderItems },
-        },
-        include: { items: { include: { product: { select: { name: true } } } }, location: true },
-      });
-
-      const itemsList = order.items.map(i => `• ${i.product.name} x${i.quantity}`).join('\n');
-      const adminMsg = `🆕 <b>НОВЕ ЗАМОВЛЕННЯ #${order.orderNumber}</b>\n\n👤 ${user?.firstName || ''} (@${user?.username || '—'})\n📍 ${order.location.name}\n⏱ ${parsed.pickupTime} хв\n💳 ${parsed.paymentMethod}\n\n📋 <b>Склад:</b>\n${itemsList}\n\n💬 ${parsed.comment || '—'}`;
+      const itemsList = priced.lines.map(formatPricedLine).join('\n');
+      const discountLine = discount > 0 ? `\n🎁 Знижка балами: −${discount} грн (${pointsUsed} балів)` : '';
+      const adminMsg = `🆕 <b>НОВЕ ЗАМОВЛЕННЯ #${order.orderNumber}</b>\n\n👤 ${user?.firstName || ''} (@${user?.username || '—'})\n📍 ${order.location.name}\n⏱ ${plan.minutes} хв\n💳 ${parsed.paymentMethod}\n💰 ${order.total} грн${discountLine}\n\n📋 <b>Склад:</b>\n${itemsList}\n\n💬 ${parsed.comment || '—'}`;
       await notifyAdminsAboutOrder(adminMsg, [[{ text: '✅ Прийняти', callback_data: `order_accept:${order.id}` }]]);
 
       if (userTelegramId) {
-        sendTelegramMessage(Number(userTelegramId), `✅ *Замовлення #${order.orderNumber} створено!*\n\n📍 ${order.location.name}\n⏱ Очікуйте ~${parsed.pickupTime} хв\n\n⚠️ Якщо бариста не підтвердить замовлення протягом 1 хв, воно буде автоматично скасоване.`).catch(() => {});
+        sendTelegramMessage(Number(userTelegramId), `✅ *Замовлення #${order.orderNumber} створено!*\n\n📍 ${order.location.name}\n⏱ Очікуйте ~${plan.minutes} хв\n\n⚠️ Якщо бариста не підтвердить замовлення протягом ${autoCancelMinutes} хв, воно буде автоматично скасоване.`).catch(() => {});
       }
 
-      scheduleAutoCancel(order.id);
-
       return reply.status(201).send({ order });
     } catch (error) {
       app.log.error({ err: error }, 'Create order error');
+      if (error instanceof Error && error.message === INSUFFICIENT_POINTS) {
+        return reply.status(400).send({ error: 'INSUFFICIENT_POINTS', message: 'Недостатньо балів для знижки.' });
+      }
+      if (error instanceof Error && error.message === SLOT_FULL) {
+        return reply.status(409).send({ error: 'SLOT_FULL', message: 'На цей час бариста вже зайняті — оберіть інший слот.' });
+      }
       if (error instanceof z.ZodError) return reply.status(400).send({ error: 'INVALID_REQUEST', details: error.errors });
       return reply.status(500).send({ error: 'ORDER_CREATION_FAILED' });
     }
@@ -302,11 +324,29 @@ export async function orderRoutes(
     return reply.send({ orders });
   });
 
+  // GET /api/orders/slots?locationId=
+  app.get('/slots', async (request, reply) => {
+    const parsed = z.object({ locationId: z.string().min(1) }).safeParse(request.query);
+    if (!parsed.success) return reply.status(400).send({ error: 'INVALID_REQUEST', details: parsed.error.errors });
+
+    const location = await app.prisma.location.findUnique({ where: { id: parsed.data.locationId } });
+    if (!location || !location.hasOrdering) return reply.status(404).send({ error: 'ORDERING_NOT_AVAILABLE' });
+
+    return reply.send(await listPickupSlots(app.prisma, location));
+  });
+
   // GET /api/orders/:id
   app.get<{ Params: { id: string } }>('/:id', async (request, reply) => {
     const order = await app.prisma.order.findUnique({
       where: { id: request.params.id },
-      include: { items: { include: { product: true } }, location: true },
+      include: {
+        items: { include: { product: true } },
+        location: true,
+        statusHistory: {
+          select: { fromStatus: true, toStatus: true, actorType: true, reason: true, createdAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
     });
     if (!order) return reply.status(404).send({ error: 'ORDER_NOT_FOUND' });
     return reply.send({ order });
@@ -319,7 +359,11 @@ export async function orderRoutes(
     if (!order) return reply.status(404).send({ error: 'ORDER_NOT_FOUND' });
     if (order.userId !== userId) return reply.status(403).send({ error: 'NOT_YOUR_ORDER' });
     if (order.status !== 'PENDING') return reply.status(400).send({ error: 'CANNOT_CANCEL' });
-    await app.prisma.order.update({ where: { id: request.params.id }, data: { status: 'REJECTED' } });
+
+    const result = await transitionOrder(app.prisma, order.id, 'REJECTED', { type: 'CUSTOMER', userId }, {
+      reason: 'Скасовано клієнтом',
+    });
+    if (!result.ok) return reply.status(400).send({ error: 'CANNOT_CANCEL', message: result.message });
     return reply.send({ success: true });
   });
 
@@ -328,7 +372,8 @@ export async function orderRoutes(
     const { id } = request.params;
     const body = z.object({
       adminTelegramId: z.union([z.number(), z.string()]).transform(String),
-      status: z.enum(['PREPARING', 'READY', 'COMPLETED', 'CANCELLED']),
+      status: z.enum(['CONFIRMED', 'PREPARING', 'READY', 'COMPLETED', 'CANCELLED', 'REFUNDED']),
+      reason: z.string().max(200).optional(),
     }).parse(request.body);
 
     const admin = await app.prisma.user.findUnique({ where: { telegramId: body.adminTelegramId } });
@@ -336,27 +381,16 @@ export async function orderRoutes(
       return reply.status(403).send({ error: 'Access denied' });
     }
 
-    const order = await app.prisma.order.findUnique({
-      where: { id },
-      include: { user: { select: { telegramId: true } } },
-    });
-    if (!order) return reply.status(404).send({ error: 'Order not found' });
-
-    const mappedStatus = body.status === 'CANCELLED' ? 'REJECTED' : body.status;
-    const updated = await app.prisma.order.update({
-      where: { id },
-      data: { status: mappedStatus as any, processedById: admin.id, processedAt: new Date() },
+    const status = body.status === 'CANCELLED' ? 'REJECTED' : body.status;
+    const result = await transitionOrder(app.prisma, id, status, { type: 'STAFF', userId: admin.id }, {
+      reason: body.reason,
     });
+    if (!result.ok) {
+      const code = result.error === 'ORDER_NOT_FOUND' ? 404 : result.error === 'FORBIDDEN' ? 403 : 409;
+      return reply.status(code).send({ error: result.error, message: result.message });
+    }
 
-    const msgs: Record<string, string> = {
-      PREPARING: `☕ *Бариста готує замовлення #${order.orderNumber}!*`,
-      READY: `Твоя кава чекає на тебе! ☕️`,
-      COMPLETED: `🎉 *Замовлення #${order.orderNumber} виконано!*`,
-      CANCELLED: `❌ *Замовлення #${order.orderNumber} скасовано.*`,
-    };
-    const msg = msgs[body.status];
-    if (msg) sendTelegramMessage(Number(order.user.telegramId), msg).catch(() => {});
-
-    return reply.send({ success: true, order: { id, status: updated.status, userTelegramId: order.user.telegramId } });
+    const { order } = result;
+    return reply.send({ success: true, order: { id, status: order.status, userTelegramId: order.user.telegramId } });
   });
 }
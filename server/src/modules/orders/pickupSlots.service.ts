@@ -0,0 +1,228 @@
+/**
+ * Pickup Slots — book a 5-minute pickup window within the bar's capacity
+ *
+ * The day is split into SLOT_MINUTES windows. Drinks for a slot are made
+ * during it and ready at its end; slots on offer are those ready between
+ * MIN_LEAD_MINUTES and MAX_LEAD_MINUTES from now.
+ *
+ * Each location makes at most `slotCapacity` drinks (MENU items) per slot;
+ * merch and beans don't take barista time. Orders that are still alive —
+ * anything but DRAFT / REJECTED / EXPIRED / REFUNDED — count against it.
+ * An order bigger than a whole slot only fits into an empty one. The
+ * capacity check runs under a per-slot Redis lock inside the order
+ * transaction, so two checkouts can't both take the last place.
+ *
+ * `orderingPausedUntil` on a location stops online orders altogether until
+ * then (admins set it from the bot during a rush).
+ */
+
+import type { Location, OrderStatus, Prisma, PrismaClient } from '@prisma/client';
+import { withRedisLock } from '../../shared/redis.js';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+export const SLOT_MINUTES = 5;
+export const MIN_LEAD_MINUTES = 5;
+export const MAX_LEAD_MINUTES = 30;
+const SLOT_MS = SLOT_MINUTES * 60 * 1000;
+
+export const SLOT_FULL = 'SLOT_FULL';
+
+/** Orders that occupy barista time in their slot */
+const BOOKED_STATUSES: OrderStatus[] = ['PENDING', 'CONFIRMED', 'PREPARING', 'READY', 'COMPLETED'];
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface PickupSlot {
+  slot: Date;
+  readyAt: Date;
+  /** Minutes from now until readyAt, rounded up */
+  minutes: number;
+  booked: number;
+  available: number;
+}
+
+/** Where a new order lands; slot is null for orders without drinks */
+export interface PickupPlan {
+  slot: Date | null;
+  readyAt: Date;
+  minutes: number;
+  drinks: number;
+}
+
+export type PickupPlanResult =
+  | { ok: true; plan: PickupPlan }
+  | { ok: false; error: string; message: string };
+
+export interface PickupSlotsView {
+  paused: boolean;
+  pausedUntil: Date | null;
+  slotMinutes: number;
+  capacity: number;
+  slots: PickupSlot[];
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function floorToSlot(time: number): number {
+  return Math.floor(time / SLOT_MS) * SLOT_MS;
+}
+
+export function slotReadyAt(slot: Date): Date {
+  return new Date(slot.getTime() + SLOT_MS);
+}
+
+/** Slot starts offered at `now`, earliest first */
+function slotStarts(now: Date): Date[] {
+  const starts: Date[] = [];
+  const first = now.getTime() + MIN_LEAD_MINUTES * 60 * 1000;
+  const last = now.getTime() + MAX_LEAD_MINUTES * 60 * 1000;
+  for (let t = floorToSlot(now.getTime()); t + SLOT_MS <= last; t += SLOT_MS) {
+    if (t + SLOT_MS >= first) starts.push(new Date(t));
+  }
+  return starts;
+}
+
+export function isOrderingPaused(location: Pick<Location, 'orderingPausedUntil'>, now: Date = new Date()): boolean {
+  return location.orderingPausedUntil !== null && location.orderingPausedUntil > now;
+}
+
+/**
+ * The slot an order asks for: an explicit slot start (ISO string), or the
+ * first slot ready `minutes` from now (older clients). Null when it isn't
+ * one of the slots on offer.
+ */
+export function resolvePickupSlot(
+  request: { slot?: string; minutes?: number },
+  now: Date = new Date(),
+): Date | null {
+  const offered = slotStarts(now);
+
+  if (request.slot) {
+    const time = new Date(request.slot).getTime();
+    return offered.find((s) => s.getTime() === time) ?? null;
+  }
+
+  const wanted = now.getTime() + (request.minutes ?? 10) * 60 * 1000;
+  return offered.find((s) => slotReadyAt(s).getTime() >= wanted) ?? offered[offered.length - 1] ?? null;
+}
+
+/** Drinks already booked per slot start (ms) */
+async function bookedDrinks(
+  db: PrismaClient | Prisma.TransactionClient,
+  locationId: string,
+  from: Date,
+  to: Date,
+): Promise<Map<number, number>> {
+  const items = await db.orderItem.findMany({
+    where: {
+      product: { type: 'MENU' },
+      order: { locationId, status: { in: BOOKED_STATUSES }, pickupSlot: { gte: from, lte: to } },
+    },
+    select: { quantity: true, order: { select: { pickupSlot: true } } },
+  });
+
+  const booked = new Map<number, number>();
+  for (const item of items) {
+    const key = item.order.pickupSlot!.getTime();
+    booked.set(key, (booked.get(key) ?? 0) + item.quantity);
+  }
+  return booked;
+}
+
+/** MENU drinks among order lines — what the baristas have to make */
+export async function countDrinks(
+  db: PrismaClient | Prisma.TransactionClient,
+  items: { productId: string; quantity: number }[],
+): Promise<number> {
+  const drinks = await db.product.findMany({
+    where: { id: { in: items.map((i) => i.productId) }, type: 'MENU' },
+    select: { id: true },
+  });
+  const ids = new Set(drinks.map((p) => p.id));
+  return items.filter((i) => ids.has(i.productId)).reduce((sum, i) => sum + i.quantity, 0);
+}
+
+// ── Core ─────────────────────────────────────────────────────────────────────
+
+export async function listPickupSlots(
+  prisma: PrismaClient,
+  location: Pick<Location, 'id' | 'slotCapacity' | 'orderingPausedUntil'>,
+  now: Date = new Date(),
+): Promise<PickupSlotsView> {
+  const paused = isOrderingPaused(location, now);
+  const starts = slotStarts(now);
+  const booked = starts.length > 0
+    ? await bookedDrinks(prisma, location.id, starts[0], starts[starts.length - 1])
+    : new Map<number, number>();
+
+  return {
+    paused,
+    pausedUntil: paused ? location.orderingPausedUntil : null,
+    slotMinutes: SLOT_MINUTES,
+    capacity: location.slotCapacity,
+    slots: paused ? [] : starts.map((slot) => {
+      const taken = booked.get(slot.getTime()) ?? 0;
+      const readyAt = slotReadyAt(slot);
+      return {
+        slot,
+        readyAt,
+        minutes: Math.ceil((readyAt.getTime() - now.getTime()) / 60_000),
+        booked: taken,
+        available: Math.max(location.slotCapacity - taken, 0),
+      };
+    }),
+  };
+}
+
+/**
+ * Check a new order against pause and slot rules before it is written.
+ * `request` is the client's choice: a slot start, or minutes from now.
+ */
+export async function planPickup(
+  prisma: PrismaClient,
+  location: Pick<Location, 'orderingPausedUntil'>,
+  items: { productId: string; quantity: number }[],
+  request: { slot?: string; minutes?: number },
+  now: Date = new Date(),
+): Promise<PickupPlanResult> {
+  if (isOrderingPaused(location, now)) {
+    return { ok: false, error: 'ORDERING_PAUSED', message: 'Онлайн-замовлення тимчасово призупинені. Замовляйте на місці!' };
+  }
+
+  const drinks = await countDrinks(prisma, items);
+  if (drinks === 0) {
+    const minutes = request.minutes ?? 10;
+    return { ok: true, plan: { slot: null, readyAt: new Date(now.getTime() + minutes * 60_000), minutes, drinks } };
+  }
+
+  const slot = resolvePickupSlot(request, now);
+  if (!slot) {
+    return { ok: false, error: 'INVALID_PICKUP_SLOT', message: 'Цей час уже недоступний, оберіть інший' };
+  }
+
+  const readyAt = slotReadyAt(slot);
+  const minutes = Math.ceil((readyAt.getTime() - now.getTime()) / 60_000);
+  return { ok: true, plan: { slot, readyAt, minutes, drinks } };
+}
+
+/**
+ * Run the order transaction holding the slot: bookings of one slot are
+ * serialised across requests and instances, and `book` throws SLOT_FULL
+ * when the drinks no longer fit. Call `book(tx)` before creating the order.
+ */
+export function withPickupSlot<T>(
+  location: Pick<Location, 'id' | 'slotCapacity'>,
+  plan: PickupPlan,
+  fn: (book: (tx: Prisma.TransactionClient) => Promise<void>) => Promise<T>,
+): Promise<T> {
+  const { slot } = plan;
+  if (!slot) return fn(async () => {});
+
+  const book = async (tx: Prisma.TransactionClient) => {
+    const booked = await bookedDrinks(tx, location.id, slot, slot);
+    const taken = booked.get(slot.getTime()) ?? 0;
+    if (taken > 0 && taken + plan.drinks > location.slotCapacity) throw new Error(SLOT_FULL);
+  };
+  return withRedisLock(`pickup:slot:${location.id}:${slot.getTime()}`, () => fn(book), { ttlSeconds: 10 });
+}
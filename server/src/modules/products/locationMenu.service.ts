@@ -0,0 +1,102 @@
+/**
+ * Location Menus — what each location sells and for how much
+ *
+ * By default a location serves the common menu at catalogue prices.
+ * LocationProduct rows adjust that for one location:
+ *  - isAvailable = false takes a drink off the menu there (stop-list)
+ *  - price replaces the catalogue price; sizes use LocationVariantPrice
+ *
+ * A location with `hasOwnMenu` (the Mark Mall kiosk) serves only the drinks
+ * listed for it. Those drinks belong to it alone and stay off the common
+ * menu and other locations.
+ *
+ * Only MENU products are per location — merch and beans ship from the shop
+ * and are the same everywhere.
+ */
+
+import type { Location, Prisma, PrismaClient } from '@prisma/client';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type MenuLocation = Pick<Location, 'id' | 'hasOwnMenu'>;
+
+export interface LocationMenuSeed {
+  name: string;
+  volume: string | null;
+  price: number;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const OWN_MENU_PRODUCT: Prisma.ProductWhereInput = {
+  locationLinks: { some: { location: { hasOwnMenu: true } } },
+};
+
+/**
+ * Active products served at `location`; null means the common menu.
+ * With `includeHidden`, drinks on the location's stop-list are kept (admin view).
+ */
+export function locationProductsWhere(
+  location: MenuLocation | null,
+  options: { includeHidden?: boolean } = {},
+): Prisma.ProductWhereInput {
+  let menu: Prisma.ProductWhereInput;
+  if (!location) {
+    menu = { NOT: OWN_MENU_PRODUCT };
+  } else if (location.hasOwnMenu) {
+    menu = { locationLinks: { some: { locationId: location.id, ...(options.includeHidden ? {} : { isAvailable: true }) } } };
+  } else {
+    menu = options.includeHidden
+      ? { NOT: OWN_MENU_PRODUCT }
+      : { NOT: OWN_MENU_PRODUCT, locationLinks: { none: { locationId: location.id, isAvailable: false } } };
+  }
+  return { isActive: true, OR: [{ type: { not: 'MENU' } }, menu] };
+}
+
+/** Select the price overrides of `locationId` (none for the common menu) */
+export function locationPriceSelect(locationId: string | null) {
+  return {
+    where: { locationId: { in: locationId ? [locationId] : [] } },
+    select: { price: true },
+  };
+}
+
+export function effectivePrice(product: { price: number; locationLinks: { price: number | null }[] }): number {
+  return product.locationLinks[0]?.price ?? product.price;
+}
+
+export function effectiveVariantPrice(variant: { price: number; locationPrices: { price: number }[] }): number {
+  return variant.locationPrices[0]?.price ?? variant.price;
+}
+
+// ── Seeding ──────────────────────────────────────────────────────────────────
+
+/**
+ * Give the location at `slug` its own menu: create the drinks (category =
+ * location name) and list them for it. Sizes come as separate rows and are
+ * folded into variants by mergeSizeVariants. False if the location is
+ * missing or already has its own menu.
+ */
+export async function seedLocationMenu(
+  prisma: PrismaClient,
+  slug: string,
+  items: LocationMenuSeed[],
+): Promise<boolean> {
+  const location = await prisma.location.findUnique({ where: { slug } });
+  if (!location || location.hasOwnMenu) return false;
+
+  await prisma.$transaction(async (tx) => {
+    for (const item of items) {
+      await tx.product.create({
+        data: {
+          ...item,
+          category: location.name,
+          type: 'MENU',
+          locationLinks: { create: { locationId: location.id } },
+        },
+      });
+    }
+    await tx.location.update({ where: { id: location.id }, data: { hasOwnMenu: true } });
+  });
+  return true;
+}
@@ -0,0 +1,313 @@
+/**
+ * Product Modifiers — sizes and customisation, priced on the server
+ *
+ * A product may have variants (sizes): each carries its full price and the
+ * customer must pick one. Modifier groups (milk, syrups, extras) are shared
+ * between products:
+ *  - SINGLE groups allow one option, MULTI groups up to `maxSelected`
+ *  - a required group with nothing picked gets its default option, or the
+ *    order is refused when there is none; a group whose options are all
+ *    switched off is skipped (the menu doesn't show it either)
+ *  - every option adds `priceDelta` to the unit price
+ *
+ * The client only sends ids; prices always come from here. The priced
+ * selection is stored on OrderItem.options as a snapshot, so later menu
+ * edits don't change past orders.
+ *
+ * Sizes used to be separate products with the same name ("Капучино 180 мл",
+ * "Капучино 250 мл"). mergeSizeVariants folds such rows into one product on
+ * startup; the old rows stay inactive for order history.
+ */
+
+import type { ModifierSelection, Prisma, PrismaClient } from '@prisma/client';
+import {
+  type MenuLocation,
+  effectivePrice,
+  effectiveVariantPrice,
+  locationPriceSelect,
+  locationProductsWhere,
+} from './locationMenu.service.js';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface OrderLineInput {
+  productId: string;
+  variantId?: string;
+  modifierOptionIds?: string[];
+  quantity: number;
+}
+
+/** Stored in OrderItem.options */
+export interface OrderLineOptions {
+  variant: { id: string; name: string; price: number } | null;
+  modifiers: { groupId: string; group: string; optionId: string; name: string; priceDelta: number }[];
+}
+
+export interface PricedLine {
+  productId: string;
+  productName: string;
+  variantId: string | null;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  options: OrderLineOptions;
+}
+
+export type PriceOrderResult =
+  | { ok: true; lines: PricedLine[]; subtotal: number }
+  | { ok: false; error: string; message: string };
+
+// ── Defaults ─────────────────────────────────────────────────────────────────
+
+interface ModifierGroupSeed {
+  name: string;
+  selection: ModifierSelection;
+  required: boolean;
+  maxSelected: number | null;
+  options: { name: string; priceDelta: number; isDefault?: boolean }[];
+  categories: string[];
+  /** Products in those categories that don't take this group */
+  exclude: string[];
+}
+
+const DEFAULT_MODIFIER_GROUPS: ModifierGroupSeed[] = [
+  {
+    name: 'Молоко',
+    selection: 'SINGLE',
+    required: true,
+    maxSelected: null,
+    options: [
+      { name: 'Коров\'яче', priceDelta: 0, isDefault: true },
+      { name: 'Безлактозне', priceDelta: 15 },
+      { name: 'Вівсяне', priceDelta: 25 },
+      { name: 'Кокосове', priceDelta: 25 },
+      { name: 'Мигдальне', priceDelta: 25 },
+    ],
+    categories: ['Кава'],
+    exclude: ['Еспресо', 'Допіо', 'Американо', 'Фільтр кава'],
+  },
+  {
+    name: 'Сиропи',
+    selection: 'MULTI',
+    required: false,
+    maxSelected: 2,
+    options: [
+      { name: 'Карамель', priceDelta: 15 },
+      { name: 'Ваніль', priceDelta: 15 },
+      { name: 'Лісовий горіх', priceDelta: 15 },
+      { name: 'Кокос', priceDelta: 15 },
+    ],
+    categories: ['Кава', 'Не кава'],
+    exclude: [],
+  },
+  {
+    name: 'Додатково',
+    selection: 'MULTI',
+    required: false,
+    maxSelected: null,
+    options: [{ name: 'Додатковий шот еспресо', priceDelta: 20 }],
+    categories: ['Кава'],
+    exclude: [],
+  },
+];
+
+// ── Pricing ──────────────────────────────────────────────────────────────────
+
+function fail(error: string, message: string): PriceOrderResult {
+  return { ok: false, error, message };
+}
+
+/**
+ * Validate sizes and modifiers of order lines and price them at `location`.
+ * Every product must be in stock and on that location's menu; its prices
+ * include the location's overrides (see locationMenu.service.ts).
+ */
+export async function priceOrderItems(
+  db: PrismaClient | Prisma.TransactionClient,
+  location: MenuLocation,
+  items: OrderLineInput[],
+): Promise<PriceOrderResult> {
+  const products = await db.product.findMany({
+    where: {
+      ...locationProductsWhere(location),
+      id: { in: [...new Set(items.map((i) => i.productId))] },
+      inStock: true,
+    },
+    include: {
+      locationLinks: locationPriceSelect(location.id),
+      variants: { where: { isActive: true }, include: { locationPrices: locationPriceSelect(location.id) } },
+      modifierGroups: {
+        include: { options: { where: { isActive: true }, orderBy: { sortOrder: 'asc' } } },
+        orderBy: { sortOrder: 'asc' },
+      },
+    },
+  });
+
+  const lines: PricedLine[] = [];
+  for (const item of items) {
+    const product = products.find((p) => p.id === item.productId);
+    if (!product) return fail('PRODUCT_UNAVAILABLE', 'Деякі товари вже недоступні — оновіть меню');
+
+    let variant: OrderLineOptions['variant'] = null;
+    if (product.variants.length > 0) {
+      if (!item.variantId) return fail('VARIANT_REQUIRED', `Оберіть розмір для «${product.name}»`);
+      const found = product.variants.find((v) => v.id === item.variantId);
+      if (!found) return fail('INVALID_VARIANT', `Цей розмір «${product.name}» недоступний`);
+      variant = { id: found.id, name: found.name, price: effectiveVariantPrice(found) };
+    } else if (item.variantId) {
+      return fail('INVALID_VARIANT', `Цей розмір «${product.name}» недоступний`);
+    }
+
+    const picked = new Set(item.modifierOptionIds ?? []);
+    const known = new Set(product.modifierGroups.flatMap((g) => g.options.map((o) => o.id)));
+    if ([...picked].some((id) => !known.has(id))) {
+      return fail('INVALID_MODIFIER', `Ця добавка недоступна для «${product.name}»`);
+    }
+
+    const modifiers: OrderLineOptions['modifiers'] = [];
+    for (const group of product.modifierGroups) {
+      // All options switched off: the menu hides the group, so it can't be required here either
+      if (group.options.length === 0) continue;
+      let chosen = group.options.filter((o) => picked.has(o.id));
+
+      const limit = group.selection === 'SINGLE' ? 1 : group.maxSelected;
+      if (limit !== null && chosen.length > limit) {
+        return fail('TOO_MANY_MODIFIERS', `«${group.name}»: можна обрати не більше ${limit}`);
+      }
+      if (group.required && chosen.length === 0) {
+        const fallback = group.options.find((o) => o.isDefault);
+        if (!fallback) return fail('MODIFIER_REQUIRED', `Оберіть «${group.name}» для «${product.name}»`);
+        chosen = [fallback];
+      }
+
+      for (const option of chosen) {
+        modifiers.push({ groupId: group.id, group: group.name, optionId: option.id, name: option.name, priceDelta: option.priceDelta });
+      }
+    }
+
+    const unitPrice = (variant?.price ?? effectivePrice(product)) + modifiers.reduce((sum, m) => sum + m.priceDelta, 0);
+    lines.push({
+      productId: product.id,
+      productName: product.name,
+      variantId: variant?.id ?? null,
+      quantity: item.quantity,
+      unitPrice,
+      total: unitPrice * item.quantity,
+      options: { variant, modifiers },
+    });
+  }
+
+  return { ok: true, lines, subtotal: lines.reduce((sum, l) => sum + l.total, 0) };
+}
+
+/** "250 мл, Вівсяне, Карамель" — for staff messages; empty without choices */
+export function describeLineOptions(options: OrderLineOptions): string {
+  return [options.variant?.name, ...options.modifiers.map((m) => m.name)].filter(Boolean).join(', ');
+}
+
+/** "• Лате (350 мл, Вівсяне) x2 — 200 грн" */
+export function formatPricedLine(line: PricedLine): string {
+  const options = describeLineOptions(line.options);
+  return `• ${line.productName}${options ? ` (${options})` : ''} x${line.quantity} — ${line.total} грн`;
+}
+
+/** Nested create input for a priced line */
+export function orderItemData(line: PricedLine): Prisma.OrderItemCreateWithoutOrderInput {
+  return {
+    product: { connect: { id: line.productId } },
+    variant: line.variantId ? { connect: { id: line.variantId } } : undefined,
+    quantity: line.quantity,
+    price: line.unitPrice,
+    total: line.total,
+    options: line.options as unknown as Prisma.InputJsonValue,
+  };
+}
+
+// ── Seeding ──────────────────────────────────────────────────────────────────
+
+/**
+ * Fold active products sharing name, category and type into one product with
+ * a variant per row (named by volume). The cheapest row — or the one already
+ * holding variants — is kept; the others are deactivated and their reward
+ * links moved over. Returns how many products were merged.
+ */
+export async function mergeSizeVariants(prisma: PrismaClient): Promise<number> {
+  const products = await prisma.product.findMany({
+    where: { isActive: true },
+    include: { rewards: { select: { id: true } }, _count: { select: { variants: true } } },
+    orderBy: [{ price: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  const groups = new Map<string, typeof products>();
+  for (const product of products) {
+    const key = `${product.type}|${product.category}|${product.name}`;
+    groups.set(key, [...(groups.get(key) ?? []), product]);
+  }
+
+  let merged = 0;
+  for (const rows of groups.values()) {
+    if (rows.length < 2) continue;
+    // A product merged earlier keeps its variants and absorbs new size rows
+    const keep = rows.find((r) => r._count.variants > 0) ?? rows[0];
+    const duplicates = rows.filter((r) => r !== keep);
+    const sizes = keep._count.variants > 0 ? duplicates : rows;
+
+    await prisma.$transaction(async (tx) => {
+      for (const [index, row] of sizes.entries()) {
+        const name = row.volume ?? `${row.price} грн`;
+        await tx.productVariant.upsert({
+          where: { productId_name: { productId: keep.id, name } },
+          create: { productId: keep.id, name, price: row.price, sortOrder: keep._count.variants + index },
+          update: { price: row.price, isActive: true },
+        });
+      }
+
+      const rewardIds = [...new Set(duplicates.flatMap((d) => d.rewards.map((r) => r.id)))];
+      await tx.product.update({
+        where: { id: keep.id },
+        data: {
+          volume: null,
+          price: Math.min(...rows.map((r) => r.price)),
+          rewards: { connect: rewardIds.map((id) => ({ id })) },
+        },
+      });
+      await tx.product.updateMany({
+        where: { id: { in: duplicates.map((d) => d.id) } },
+        data: { isActive: false },
+      });
+    });
+    merged++;
+  }
+  return merged;
+}
+
+/**
+ * Create the default milk / syrup / extras groups and attach them to the
+ * menu if there are no modifier groups yet.
+ */
+export async function seedDefaultModifierGroups(prisma: PrismaClient): Promise<boolean> {
+  const count = await prisma.modifierGroup.count();
+  if (count > 0) return false;
+
+  for (const [index, seed] of DEFAULT_MODIFIER_GROUPS.entries()) {
+    const products = await prisma.product.findMany({
+      where: { type: 'MENU', category: { in: seed.categories }, name: { notIn: seed.exclude } },
+      select: { id: true },
+    });
+
+    await prisma.modifierGroup.create({
+      data: {
+        name: seed.name,
+        selection: seed.selection,
+        required: seed.required,
+        maxSelected: seed.maxSelected,
+        sortOrder: index,
+        options: {
+          create: seed.options.map((option, i) => ({ ...option, isDefault: option.isDefault ?? false, sortOrder: i })),
+        },
+        products: { connect: products },
+      },
+    });
+  }
+  return true;
+}
@@ -1,19 +1,42 @@
 /**
  * Products Module — HTTP Routes
  *
- * GET /api/products — All active products grouped by category
+ * GET /api/products?locationId= — Active products; with locationId, the menu
+ *                                  and prices of that location
+ *
+ * Each product comes with its sizes (`variants`, full prices) and the
+ * modifier groups the customer can customise it with; `price` is the
+ * cheapest size. Orders are priced from these on the server
+ * (see modifiers.service.ts). Without a location the common menu is
+ * returned at catalogue prices (see locationMenu.service.ts).
  */
 
 import type { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { z } from 'zod';
+import {
+  effectivePrice,
+  effectiveVariantPrice,
+  locationPriceSelect,
+  locationProductsWhere,
+} from './locationMenu.service.js';
 
 export async function productRoutes(
   app: FastifyInstance,
   _opts: FastifyPluginOptions,
 ): Promise<void> {
-  app.get('/', async (_request, reply) => {
+  app.get('/', async (request, reply) => {
     try {
+      const query = z.object({ locationId: z.string().min(1).optional() }).safeParse(request.query);
+      if (!query.success) return reply.status(400).send({ error: 'INVALID_REQUEST', details: query.error.errors });
+
+      const { locationId } = query.data;
+      const location = locationId
+        ? await app.prisma.location.findUnique({ where: { id: locationId }, select: { id: true, hasOwnMenu: true } })
+        : null;
+      if (locationId && !location) return reply.status(404).send({ error: 'LOCATION_NOT_FOUND' });
+
       const products = await app.prisma.product.findMany({
-        where: { isActive: true },
+        where: locationProductsWhere(location),
         orderBy: [{ category: 'asc' }, { name: 'asc' }],
         select: {
           id: true,
@@ -24,12 +47,41 @@ export async function productRoutes(
           category: true,
           type: true,
           imageUrl: true,
+          locationLinks: locationPriceSelect(location?.id ?? null),
+          variants: {
+            where: { isActive: true },
+            orderBy: [{ sortOrder: 'asc' }, { price: 'asc' }],
+            select: { id: true, name: true, price: true, locationPrices: locationPriceSelect(location?.id ?? null) },
+          },
+          modifierGroups: {
+            orderBy: { sortOrder: 'asc' },
+            select: {
+              id: true,
+              name: true,
+              selection: true,
+              required: true,
+              maxSelected: true,
+              options: {
+                where: { isActive: true },
+                orderBy: { sortOrder: 'asc' },
+                select: { id: true, name: true, priceDelta: true, isDefault: true },
+              },
+            },
+          },
         },
       });
 
       // Return flat array with price as string (frontend expects Product[])
       return reply.send({
-        products: products.map(p => ({ ...p, price: p.price.toString() })),
+        products: products.map(({ locationLinks, variants, ...p }) => {
+          const sizes = variants.map(({ locationPrices, ...v }) => ({ ...v, price: effectiveVariantPrice({ ...v, locationPrices }) }));
+          return {
+            ...p,
+            price: (sizes.length > 0 ? Math.min(...sizes.map(v => v.price)) : effectivePrice({ ...p, locationLinks })).toString(),
+            variants: sizes,
+            modifierGroups: p.modifierGroups.filter(g => g.options.length > 0),
+          };
+        }),
       });
     } catch (error) {
       app.log.error({ err: error }, 'Get products error');
@@ -1,5 +1,7 @@
 import { FastifyInstance, FastifyPluginOptions } from 'fastify';
 import { z } from 'zod';
+import { applyPointsChange } from '../modules/loyalty/points.service.js';
+import { recordStreakActivity } from '../modules/loyalty/streak.service.js';
 
 // Owner Telegram ID (as string)
 const OWNER_TELEGRAM_ID = '7363233852';
@@ -206,6 +208,8 @@ export async function adminRoutes(
 
       app.log.info(`[Code Verified] code: ${body.code}, user: ${redemptionCode.user.telegramId}, verifiedBy: ${body.adminTelegramId}`);
 
+      recordStreakActivity(app.prisma, redemptionCode.user.id).catch((err) => app.log.error({ err }, 'Streak update failed'));
+
       // Notify Owner about the verification
       const adminName = admin.firstName || admin.username || `ID: ${body.adminTelegramId}`;
       const timeStr = now.toLocaleString('uk-UA', { timeZone: 'Europe/Kyiv' });
@@ -415,20 +419,31 @@ export async function adminRoutes(
         return reply.status(403).send({ error: 'Access denied. Only Owner can use this feature.' });
       }
 
-      // Use upsert to create user if not exists
-      const user = await app.prisma.user.upsert({
-        where: { telegramId },
-        update: { points: { increment: points } },
-        create: {
-          telegramId,
-          points,
-          role: 'OWNER',
-        },
-        select: {
-          telegramId: true,
-          firstName: true,
-          points: true,
-        },
+      // Use upsert to create user if not exists, then credit through the ledger
+      const user = await app.prisma.$transaction(async (tx) => {
+        const owner = await tx.user.upsert({
+          where: { telegramId },
+          update: {},
+          create: {
+            telegramId,
+            role: 'OWNER',
+          },
+          select: {
+            id: true,
+            telegramId: true,
+            firstName: true,
+          },
+        });
+
+        const { balanceAfter } = await applyPointsChange(tx, {
+          userId: owner.id,
+          delta: points,
+          source: 'ADMIN',
+          reason: 'God Mode',
+          actorId: owner.id,
+        });
+
+        return { ...owner, points: balanceAfter };
       });
 
       app.log.info(`[God Mode] Added ${points} points to Owner. New balance: ${user.points}`);
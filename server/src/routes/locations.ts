@@ -16,6 +16,7 @@ export async function locationRoutes(
         address: true,
         isActive: true,
         hasOrdering: true,
+        orderingPausedUntil: true,
       },
     });
 
@@ -36,6 +37,7 @@ export async function locationRoutes(
         address: true,
         isActive: true,
         hasOrdering: true,
+        orderingPausedUntil: true,
       },
     });
 
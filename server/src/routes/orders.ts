@@ -1,5 +1,9 @@
 import { FastifyInstance, FastifyPluginOptions } from 'fastify';
 import { z } from 'zod';
+import { recordStatusChange, transitionOrder } from '../modules/orders/orderStatus.service.js';
+import { scheduleOrderAutoCancel } from '../modules/orders/autoCancel.service.js';
+import { SLOT_FULL, planPickup, withPickupSlot } from '../modules/orders/pickupSlots.service.js';
+import { formatPricedLine, orderItemData, priceOrderItems } from '../modules/products/modifiers.service.js';
 
 const BOT_TOKEN = process.env.BOT_TOKEN;
 
@@ -38,73 +42,30 @@ const CreateOrderSchema = z.object({
   locationId: z.string().uuid(),
   paymentMethod: z.enum(['CASH', 'CARD']).default('CASH'),
   pickupTime: z.number().int().min(5).max(60).optional(),
+  pickupSlot: z.string().datetime().optional(),
   items: z.array(
     z.object({
       productId: z.string().uuid(),
+      variantId: z.string().optional(),
+      modifierOptionIds: z.array(z.string()).max(20).optional(),
       quantity: z.number().int().positive(),
-      price: z.number().positive(),
+      // Ignored — prices come from the menu
+      price: z.number().optional(),
     })
   ).min(1),
 });
 
 const UpdateStatusSchema = z.object({
   adminTelegramId: z.union([z.number(), z.string()]).transform(String),
-  status: z.enum(['PREPARING', 'READY', 'COMPLETED', 'REJECTED']),
+  status: z.enum(['CONFIRMED', 'PREPARING', 'READY', 'COMPLETED', 'REJECTED', 'REFUNDED']),
 });
 
-const AUTO_CANCEL_DELAY_MS = 3 * 60 * 1000;
-
 type CreateOrderBody = z.infer<typeof CreateOrderSchema>;
 
 export async function orderRoutes(
   app: FastifyInstance,
   _opts: FastifyPluginOptions
 ) {
-  const scheduleAutoCancel = (orderId: string) => {
-    setTimeout(async () => {
-      try {
-        const order = await app.prisma.order.findUnique({
-          where: { id: orderId },
-          include: {
-            user: { select: { telegramId: true } },
-            location: { select: { name: true } },
-          },
-        });
-
-        if (!order || order.status !== 'PENDING') {
-          return;
-        }
-
-        const cancelledOrder = await app.prisma.order.update({
-          where: { id: orderId },
-          data: { status: 'REJECTED' },
-        });
-
-        sendTelegramMessage(
-          Number(order.user.telegramId),
-          '❌ Замовлення скасовано. Наразі великий потік людей, бариста не може прийняти замовлення завчасно. Спробуйте замовити на місці!'
-        ).catch((err) => {
-          app.log.error({ err, orderId }, 'Failed to notify user about auto-cancelled order');
-        });
-
-        const admins = await app.prisma.user.findMany({
-          where: { role: { in: ['ADMIN', 'OWNER'] } },
-          select: { telegramId: true },
-        });
-
-        const adminText = `❌ Замовлення #${cancelledOrder.orderNumber} автоматично скасовано (минуло 3 хв)`;
-
-        for (const admin of admins) {
-          sendTelegramMessage(Number(admin.telegramId), adminText).catch((err) => {
-            app.log.error({ err, orderId, adminId: admin.telegramId }, 'Failed to notify admin about auto-cancelled order');
-          });
-        }
-      } catch (error) {
-        app.log.error({ err: error, orderId }, 'Auto-cancel order job failed');
-      }
-    }, AUTO_CANCEL_DELAY_MS);
-  };
-
   // Create new order
   app.post<{ Body: CreateOrderBody }>('/', async (request, reply) => {
     const parseResult = CreateOrderSchema.safeParse(request.body);
@@ -116,8 +77,7 @@ export async function orderRoutes(
       });
     }
 
-    const { telegramId, locationId, items, paymentMethod, pickupTime } = parseResult.data;
-    const resolvedPickupTime = pickupTime ?? 10;
+    const { telegramId, locationId, items, paymentMethod, pickupTime, pickupSlot } = parseResult.data;
 
     // Find user
     const user = await app.prisma.user.findUnique({
@@ -145,41 +105,59 @@ export async function orderRoutes(
       return reply.status(400).send({ error: 'Попереднє замовлення недоступне для цієї локації. Замовляйте на місці!' });
     }
 
-    // Calculate total
-    const total = items.reduce(
-      (sum, item) => sum + item.price * item.quantity,
-      0
-    );
-
-    // Create order with items
-    const order = await app.prisma.order.create({
-      data: {
-        userId: user.id,
-        locationId,
-        total,
-        subtotal: total,
-        status: 'PENDING',
-        paymentMethod,
-        pickupTime: resolvedPickupTime,
-        items: {
-          create: items.map((item) => ({
-            productId: item.productId,
-            quantity: item.quantity,
-            price: item.price,
-            total: item.price * item.quantity,
-          })),
+    const pickup = await planPickup(app.prisma, location, items, { slot: pickupSlot, minutes: pickupTime });
+    if (!pickup.ok) {
+      return reply.status(409).send({ error: pickup.message });
+    }
+    const { plan } = pickup;
+    const resolvedPickupTime = plan.minutes;
+
+    // Price sizes and modifiers from the menu
+    const priced = await priceOrderItems(app.prisma, location, items);
+    if (!priced.ok) {
+      return reply.status(400).send({ error: priced.message });
+    }
+    const total = priced.subtotal;
+
+    // Create order with items — the pickup slot may fill up meanwhile
+    const booking = await withPickupSlot(location, plan, (book) => app.prisma.$transaction(async (tx) => {
+      await book(tx);
+      const created = await tx.order.create({
+        data: {
+          userId: user.id,
+          locationId,
+          total,
+          subtotal: total,
+          status: 'PENDING',
+          paymentMethod,
+          pickupTime: resolvedPickupTime,
+          pickupSlot: plan.slot,
+          estimatedReady: plan.readyAt,
+          items: {
+            create: priced.lines.map(orderItemData),
+          },
         },
-      },
-      include: {
-        items: true,
-        location: { select: { name: true } },
-      },
+        include: {
+          items: true,
+          location: { select: { name: true } },
+        },
+      });
+      await recordStatusChange(tx, { orderId: created.id, from: null, to: created.status, actor: { type: 'CUSTOMER', userId: user.id } });
+      return { order: created, autoCancelMinutes: await scheduleOrderAutoCancel(tx, created) };
+    })).catch((error) => {
+      if (error instanceof Error && error.message === SLOT_FULL) return null;
+      throw error;
     });
 
+    if (!booking) {
+      return reply.status(409).send({ error: 'На цей час бариста вже зайняті — оберіть інший слот.' });
+    }
+    const { order, autoCancelMinutes } = booking;
+
     app.log.info(`[Order Created] id: ${order.id}, user: ${telegramId}, total: ${total}, location: ${location.name}`);
 
     // Build order details for notification
-    const itemsList = items.map(i => `  • x${i.quantity} — ${i.price * i.quantity} грн`).join('\n');
+    const itemsList = priced.lines.map(line => `  ${formatPricedLine(line)}`).join('\n');
     const paymentLabel = paymentMethod === 'CASH' ? 'Готівка' : 'Картка';
     const userName = user.firstName || user.username || `ID: ${telegramId}`;
 
@@ -217,13 +195,12 @@ export async function orderRoutes(
       `📍 ${location.name}\n` +
       `💰 Сума: *${total} грн*\n` +
       `⏱ Очікуйте ~${resolvedPickupTime} хв\n\n` +
-      `Ми повідомимо, коли бариста почне готувати!`
+      `Ми повідомимо, коли бариста почне готувати!\n` +
+      `⚠️ Якщо бариста не підтвердить замовлення протягом ${autoCancelMinutes} хв, воно буде автоматично скасоване.`
     ).catch(err => {
       app.log.error({ err }, 'Failed to notify user about order');
     });
 
-    scheduleAutoCancel(order.id);
-
     return reply.status(201).send({
       order: {
         id: order.id,
@@ -253,44 +230,20 @@ export async function orderRoutes(
         return reply.status(403).send({ error: 'Access denied' });
       }
 
-      const order = await app.prisma.order.findUnique({
-        where: { id },
-        include: {
-          user: { select: { telegramId: true, firstName: true } },
-          location: { select: { name: true } },
-          items: true,
-        },
-      });
+      const result = await transitionOrder(app.prisma, id, body.status, { type: 'STAFF', userId: admin.id });
 
-      if (!order) {
-        return reply.status(404).send({ error: 'Order not found' });
+      if (!result.ok) {
+        const code = result.error === 'ORDER_NOT_FOUND' ? 404 : result.error === 'FORBIDDEN' ? 403 : 409;
+        return reply.status(code).send({ error: result.message });
       }
 
-      const updated = await app.prisma.order.update({
-        where: { id },
-        data: { status: body.status },
-      });
-
-      // Notify user about status change
-      const statusMessages: Record<string, string> = {
-        PREPARING: `☕ *Бариста почав готувати твоє замовлення!*\n\n📍 ${order.location.name}${order.pickupTime ? `\nБуде готово через ~${order.pickupTime} хв` : ''}`,
-        READY: 'Твоя кава чекає на тебе! ☕️',
-        COMPLETED: `🎉 *Замовлення виконано!*\nДякуємо, що обрав PerkUp! ☕`,
-        REJECTED: `❌ *Замовлення скасовано.*\nВибач за незручності. Спробуй пізніше!`,
-      };
-
-      const userMessage = statusMessages[body.status];
-      if (userMessage) {
-        sendTelegramMessage(Number(order.user.telegramId), userMessage).catch(err => {
-          app.log.error({ err }, 'Failed to notify user about status change');
-        });
-      }
+      const { order } = result;
 
       return reply.send({
         success: true,
         order: {
           id,
-          status: updated.status,
+          status: order.status,
           userTelegramId: order.user.telegramId,
         },
       });
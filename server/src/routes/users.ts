@@ -11,6 +11,7 @@
 import { FastifyInstance, FastifyPluginOptions } from 'fastify';
 import { z } from 'zod';
 import { sendTelegramMessage } from '../shared/utils/telegram.js';
+import { applyPointsChange } from '../modules/loyalty/points.service.js';
 
 // Owner Telegram ID
 const OWNER_TELEGRAM_ID = process.env.OWNER_TELEGRAM_ID || '7363233852';
@@ -69,34 +70,48 @@ export async function userRoutes(
       const isOwner = String(body.telegramId) === OWNER_TELEGRAM_ID;
 
       // Create or update user; if new + referred, give +5 bonus immediately
-      const user = await app.prisma.user.upsert({
-        where: { telegramId: body.telegramId },
-        update: {
-          username: body.username,
-          firstName: body.firstName,
-          ...(isOwner ? { role: 'OWNER' } : {}),
-        },
-        create: {
-          telegramId: body.telegramId,
-          username: body.username,
-          firstName: body.firstName,
-          points: validReferrerInternalId ? 5 : 0,
-          totalSpins: 0,
-          referredById: validReferrerInternalId,
-          role: isOwner ? 'OWNER' : 'USER',
-        },
-        select: {
-          id: true,
-          telegramId: true,
-          username: true,
-          firstName: true,
-          points: true,
-          totalSpins: true,
-          lastSpinDate: true,
-          role: true,
-          createdAt: true,
-          referredById: true,
-        },
+      const user = await app.prisma.$transaction(async (tx) => {
+        const upserted = await tx.user.upsert({
+          where: { telegramId: body.telegramId },
+          update: {
+            username: body.username,
+            firstName: body.firstName,
+            ...(isOwner ? { role: 'OWNER' } : {}),
+          },
+          create: {
+            telegramId: body.telegramId,
+            username: body.username,
+            firstName: body.firstName,
+            totalSpins: 0,
+            referredById: validReferrerInternalId,
+            role: isOwner ? 'OWNER' : 'USER',
+          },
+          select: {
+            id: true,
+            telegramId: true,
+            username: true,
+            firstName: true,
+            points: true,
+            totalSpins: true,
+            lastSpinDate: true,
+            role: true,
+            createdAt: true,
+            referredById: true,
+          },
+        });
+
+        if (isNewUser && validReferrerInternalId) {
+          const { balanceAfter } = await applyPointsChange(tx, {
+            userId: upserted.id,
+            delta: 5,
+            source: 'REFERRAL',
+            reason: 'Реєстрація за запрошенням',
+            actorId: validReferrerInternalId,
+          });
+          return { ...upserted, points: balanceAfter };
+        }
+
+        return upserted;
       });
 
       // Notify OWNER about new user
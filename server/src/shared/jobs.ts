@@ -0,0 +1,155 @@
+/**
+ * Scheduled Jobs — delayed work stored in Postgres (ScheduledJob)
+ *
+ * Unlike setTimeout, a job outlives restarts and deploys: it stays PENDING
+ * until some instance's worker picks it up after `runAt`. Several instances
+ * can run the worker at once — a job is claimed with a conditional update,
+ * so exactly one of them runs it.
+ *
+ * Handlers must be idempotent: a job whose instance died mid-run is retried
+ * once its claim is older than STALE_CLAIM_MS. A failing handler is retried
+ * with backoff up to MAX_ATTEMPTS times, then left FAILED with lastError.
+ *
+ * Usage:
+ *   registerJobHandler('order.autoCancel', async (payload, prisma) => { ... });
+ *   await scheduleJob(tx, { type: 'order.autoCancel', payload: { orderId }, runAt });
+ *   startJobWorker(prisma);
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+const POLL_INTERVAL_MS = 5_000;
+const BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 5;
+/** RUNNING longer than this means the instance running it is gone */
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+const RETRY_BASE_MS = 30_000;
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type JobPayload = Record<string, unknown>;
+export type JobHandler = (payload: JobPayload, prisma: PrismaClient) => Promise<void>;
+
+export interface ScheduleJobInput {
+  type: string;
+  payload: JobPayload;
+  runAt: Date;
+  /** At most one job per key; scheduling again moves the existing job */
+  dedupeKey?: string;
+}
+
+// ── Registry ─────────────────────────────────────────────────────────────────
+
+const handlers = new Map<string, JobHandler>();
+
+export function registerJobHandler(type: string, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+// ── Scheduling ───────────────────────────────────────────────────────────────
+
+/** Accepts a transaction client so the job commits together with the change that needs it */
+export async function scheduleJob(
+  db: PrismaClient | Prisma.TransactionClient,
+  input: ScheduleJobInput,
+): Promise<void> {
+  const data = {
+    type: input.type,
+    payload: input.payload as Prisma.InputJsonValue,
+    runAt: input.runAt,
+    status: 'PENDING' as const,
+    attempts: 0,
+    lastError: null,
+    lockedAt: null,
+  };
+
+  if (input.dedupeKey) {
+    await db.scheduledJob.upsert({
+      where: { dedupeKey: input.dedupeKey },
+      create: { ...data, dedupeKey: input.dedupeKey },
+      update: data,
+    });
+  } else {
+    await db.scheduledJob.create({ data });
+  }
+}
+
+// ── Worker ───────────────────────────────────────────────────────────────────
+
+function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_MS * 2 ** (attempts - 1);
+}
+
+/** Claim and run every due job (and stale claims); returns how many ran successfully */
+export async function runDueJobs(prisma: PrismaClient, now: Date = new Date()): Promise<number> {
+  const staleBefore = new Date(now.getTime() - STALE_CLAIM_MS);
+  const due = await prisma.scheduledJob.findMany({
+    where: {
+      OR: [
+        { status: 'PENDING', runAt: { lte: now } },
+        { status: 'RUNNING', lockedAt: { lt: staleBefore } },
+      ],
+    },
+    orderBy: { runAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  let done = 0;
+  for (const job of due) {
+    // Another instance may have claimed it since the read
+    const { count } = await prisma.scheduledJob.updateMany({
+      where: { id: job.id, status: job.status, lockedAt: job.lockedAt },
+      data: { status: 'RUNNING', lockedAt: now, attempts: { increment: 1 } },
+    });
+    if (count === 0) continue;
+
+    const attempts = job.attempts + 1;
+    const handler = handlers.get(job.type);
+
+    try {
+      if (!handler) throw new Error(`No handler registered for job type "${job.type}"`);
+      await handler(job.payload as JobPayload, prisma);
+      await prisma.scheduledJob.update({
+        where: { id: job.id },
+        data: { status: 'DONE', lockedAt: null, lastError: null },
+      });
+      done++;
+    } catch (err) {
+      console.error(`[Jobs] ${job.type} ${job.id} failed (attempt ${attempts}):`, err);
+      const failed = attempts >= MAX_ATTEMPTS;
+      await prisma.scheduledJob.update({
+        where: { id: job.id },
+        data: {
+          status: failed ? 'FAILED' : 'PENDING',
+          lockedAt: null,
+          lastError: err instanceof Error ? err.message : String(err),
+          runAt: failed ? job.runAt : new Date(Date.now() + retryDelayMs(attempts)),
+        },
+      });
+    }
+  }
+
+  return done;
+}
+
+/** Poll for due jobs on this instance; overlapping polls are skipped */
+export function startJobWorker(prisma: PrismaClient, intervalMs: number = POLL_INTERVAL_MS): void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDueJobs(prisma);
+    } catch (err) {
+      console.error('[Jobs] Worker error:', err);
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  setInterval(tick, intervalMs).unref();
+}
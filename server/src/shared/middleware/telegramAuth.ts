@@ -13,7 +13,7 @@
  *   app.addHook('preHandler', verifyTelegramInitData)
  */
 
-import { createHmac, createHash } from 'crypto';
+import { createHmac } from 'crypto';
 import type { FastifyRequest, FastifyReply } from 'fastify';
 
 const BOT_TOKEN = process.env.BOT_TOKEN ?? '';
@@ -108,19 +108,3 @@ export async function verifyTelegramInitData(
   // Attach to request for downstream handlers
   (request as FastifyRequest & { telegramInitData: Record<string, string> }).telegramInitData = parsed;
 }
-
-/**
- * Generate a SHA-256 hash for game score integrity.
- * Used server-side to verify client-submitted scores.
- *
- * hash = SHA-256( score + secret_salt + timestamp )
- */
-export function computeScoreHash(
-  score: number,
-  timestamp: number,
-): string {
-  const salt = process.env.GAME_SCORE_SECRET_SALT ?? 'perkie-default-salt-change-me';
-  return createHash('sha256')
-    .update(`${score}${salt}${timestamp}`)
-    .digest('hex');
-}
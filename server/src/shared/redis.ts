@@ -8,14 +8,21 @@
  * - Redemption code fast lookup
  * - Game session deduplication
  * - Order expiration tracking
+ * - Game leaderboards (sorted sets)
+ * - Tic-Tac-Toe socket → game mapping and reconnect deadlines
+ * - Socket.IO adapter pub/sub (rooms shared across instances; real Redis only)
  */
 
+import { randomUUID } from 'crypto';
 import Redis from 'ioredis';
 
 const REDIS_URL = process.env.REDIS_URL;
 
 let redis: Redis;
 
+/** True when running on the in-memory fallback (no sorted sets, no persistence) */
+const isInMemoryRedis = !REDIS_URL;
+
 if (REDIS_URL) {
   redis = new Redis(REDIS_URL, {
     maxRetriesPerRequest: 3,
@@ -124,4 +131,49 @@ if (REDIS_URL) {
   redis = new Proxy({} as Redis, handler);
 }
 
-export { redis };
+/** Delete the lock only if it still holds our token (compare-and-delete) */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+/** True if the lock was still ours when released */
+async function releaseRedisLock(key: string, token: string): Promise<boolean> {
+  if (isInMemoryRedis) {
+    // Single process: nothing can run between the get and the del
+    if ((await redis.get(key)) !== token) return false;
+    return (await redis.del(key)) > 0;
+  }
+  return (await redis.eval(RELEASE_LOCK_SCRIPT, 1, key, token)) === 1;
+}
+
+/**
+ * Run `fn` holding a short SET NX lock, retrying while another holder has it.
+ * Throws if the lock can't be taken within `retries` attempts.
+ *
+ * The lock stores a random token, so a holder that outlives `ttlSeconds`
+ * can't release the next holder's lock; that overrun is logged.
+ */
+async function withRedisLock<T>(
+  key: string,
+  fn: () => Promise<T>,
+  { ttlSeconds = 5, retries = 20, retryMs = 50 }: { ttlSeconds?: number; retries?: number; retryMs?: number } = {},
+): Promise<T> {
+  const token = randomUUID();
+  for (let i = 0; i < retries; i++) {
+    if (await redis.set(key, token, 'EX', ttlSeconds, 'NX')) {
+      try {
+        return await fn();
+      } finally {
+        if (!(await releaseRedisLock(key, token))) {
+          console.warn(`[Redis] Lock ${key} expired before its holder finished (ttl ${ttlSeconds}s)`);
+        }
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, retryMs));
+  }
+  throw new Error(`Lock ${key} is busy`);
+}
+
+export { redis, isInMemoryRedis, withRedisLock };
@@ -16,6 +16,15 @@ export function getKyivDateString(date: Date = new Date()): string {
   return date.toLocaleDateString('en-CA', { timeZone: KYIV_TZ });
 }
 
+/**
+ * Shift a Kyiv date string (YYYY-MM-DD) by whole calendar days.
+ * Works on the calendar date, so 23h / 25h DST days don't skew the result.
+ */
+export function shiftKyivDateString(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
 /**
  * Get the Kyiv UTC offset in milliseconds at a given moment.
  * Returns positive value for east of UTC (e.g., UTC+3 → +10_800_000).
@@ -37,6 +46,24 @@ function getKyivOffsetMs(date: Date): number {
   return sign * (hours * 60 + minutes) * 60 * 1000;
 }
 
+/**
+ * Get the UTC instant of 00:00:00 Kyiv on a given Kyiv date (YYYY-MM-DD).
+ */
+export function getKyivDayStart(dateStr: string): Date {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const utcMidnight = Date.UTC(year, month - 1, day, 0, 0, 0);
+  return new Date(utcMidnight - getKyivOffsetMs(new Date(utcMidnight)));
+}
+
+/**
+ * Kyiv date (YYYY-MM-DD) of the Monday that starts the week containing `dateStr`.
+ */
+export function getKyivWeekStartString(dateStr: string): string {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay(); // 0 = Sunday
+  return shiftKyivDateString(dateStr, -((weekday + 6) % 7));
+}
+
 /**
  * Get the UTC timestamp for the next 00:00:00 in Kyiv timezone.
  *
@@ -63,3 +90,12 @@ export function hasSpunTodayKyiv(lastSpinDate: string | null | undefined): boole
   if (!lastSpinDate) return false;
   return lastSpinDate === getKyivDateString();
 }
+
+/**
+ * Hour of the day (0–23) in Kyiv at a given moment.
+ */
+export function getKyivHour(date: Date = new Date()): number {
+  return Number(
+    new Intl.DateTimeFormat('en-GB', { timeZone: KYIV_TZ, hour: '2-digit', hourCycle: 'h23' }).format(date),
+  );
+}